@@ -0,0 +1,3 @@
+ALTER TABLE "token_score_daily" ADD COLUMN "strategy_version" varchar(32) DEFAULT 'v1' NOT NULL;--> statement-breakpoint
+ALTER TABLE "token_score_snapshots" ADD COLUMN "strategy_version" varchar(32) DEFAULT 'v1' NOT NULL;--> statement-breakpoint
+ALTER TABLE "token_scores" ADD COLUMN "strategy_version" varchar(32) DEFAULT 'v1' NOT NULL;
\ No newline at end of file
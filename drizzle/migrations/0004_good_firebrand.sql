@@ -0,0 +1 @@
+ALTER TABLE "token_score_snapshots" ADD COLUMN "momentum_score" integer DEFAULT 0;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "token_score_snapshots" ADD COLUMN "normalization_mode" varchar(16) DEFAULT 'absolute' NOT NULL;--> statement-breakpoint
+ALTER TABLE "token_scores" ADD COLUMN "normalization_mode" varchar(16) DEFAULT 'absolute' NOT NULL;
\ No newline at end of file
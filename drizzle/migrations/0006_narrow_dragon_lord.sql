@@ -0,0 +1 @@
+ALTER TABLE "token_score_snapshots" ADD COLUMN "score_breakdown" text;
\ No newline at end of file
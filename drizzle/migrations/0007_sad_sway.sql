@@ -0,0 +1,26 @@
+CREATE TABLE "scoring_config" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"config_key" varchar(32) NOT NULL,
+	"strategy_version" varchar(32),
+	"weights" text,
+	"multipliers" text,
+	"thresholds" text,
+	"revision" integer DEFAULT 0 NOT NULL,
+	"updated_by" varchar(64),
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "scoring_config_config_key_unique" UNIQUE("config_key")
+);
+--> statement-breakpoint
+CREATE TABLE "scoring_config_audit" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"config_key" varchar(32) NOT NULL,
+	"revision" integer NOT NULL,
+	"changed_by" varchar(64) NOT NULL,
+	"reason" text,
+	"before" text NOT NULL,
+	"after" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "scoring_config_key_idx" ON "scoring_config" USING btree ("config_key");--> statement-breakpoint
+CREATE INDEX "scoring_config_audit_key_idx" ON "scoring_config_audit" USING btree ("config_key","created_at");
\ No newline at end of file
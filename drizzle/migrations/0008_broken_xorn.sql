@@ -0,0 +1,27 @@
+CREATE TABLE "backtest_results" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"run_id" integer NOT NULL,
+	"simulated_hour" timestamp NOT NULL,
+	"post_count" integer DEFAULT 0 NOT NULL,
+	"token_scores" text NOT NULL,
+	"viral_pairs" text NOT NULL,
+	"top_tokens" text NOT NULL,
+	"production_top_tokens" text
+);
+--> statement-breakpoint
+CREATE TABLE "backtest_runs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"strategy_version" varchar(32) NOT NULL,
+	"overrides" text,
+	"range_start" timestamp NOT NULL,
+	"range_end" timestamp NOT NULL,
+	"status" varchar(16) DEFAULT 'running' NOT NULL,
+	"hours_simulated" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"created_by" varchar(64) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "backtest_results_run_hour_idx" ON "backtest_results" USING btree ("run_id","simulated_hour");--> statement-breakpoint
+CREATE INDEX "backtest_runs_created_at_idx" ON "backtest_runs" USING btree ("created_at");
\ No newline at end of file
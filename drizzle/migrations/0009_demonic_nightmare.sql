@@ -0,0 +1,13 @@
+CREATE TABLE "token_market_snapshots" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"token_symbol" varchar(32) NOT NULL,
+	"snapshot_hour" timestamp NOT NULL,
+	"tvl_usd" real,
+	"volume" real,
+	"holders" integer,
+	"price_usd" real,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "token_market_snapshots_token_hour_idx" ON "token_market_snapshots" USING btree ("token_symbol","snapshot_hour");--> statement-breakpoint
+CREATE INDEX "token_market_snapshots_hour_idx" ON "token_market_snapshots" USING btree ("snapshot_hour");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "memex_posts" ADD COLUMN "sentiment_score" real DEFAULT 0;
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "memex_users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"user_name" varchar(64),
+	"user_type" varchar(16) DEFAULT 'GENERAL' NOT NULL,
+	"is_pre_ordered" boolean DEFAULT false,
+	"first_seen_at" timestamp NOT NULL,
+	"last_seen_at" timestamp NOT NULL,
+	"post_count" integer DEFAULT 0 NOT NULL,
+	"avg_engagement" real DEFAULT 0 NOT NULL,
+	"token_calls" integer DEFAULT 0 NOT NULL,
+	"successful_calls" integer DEFAULT 0 NOT NULL,
+	"reputation" real DEFAULT 0.25 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "memex_users_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "memex_users_user_id_idx" ON "memex_users" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "memex_users_reputation_idx" ON "memex_users" USING btree ("reputation");
\ No newline at end of file
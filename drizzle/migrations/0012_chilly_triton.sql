@@ -0,0 +1,5 @@
+ALTER TABLE "memex_posts" ADD COLUMN "bot_reasons" text;--> statement-breakpoint
+ALTER TABLE "memex_users" ADD COLUMN "bot_reasons" text;--> statement-breakpoint
+ALTER TABLE "memex_users" ADD COLUMN "bot_action" varchar(16);--> statement-breakpoint
+ALTER TABLE "memex_users" ADD COLUMN "bot_flagged_at" timestamp;--> statement-breakpoint
+CREATE INDEX "memex_users_bot_action_idx" ON "memex_users" USING btree ("bot_action");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "memex_posts" ADD COLUMN "text_fingerprint" text;--> statement-breakpoint
+ALTER TABLE "memex_posts" ADD COLUMN "duplicate_cluster_id" integer;--> statement-breakpoint
+CREATE INDEX "memex_duplicate_cluster_idx" ON "memex_posts" USING btree ("duplicate_cluster_id");
\ No newline at end of file
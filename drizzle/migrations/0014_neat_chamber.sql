@@ -0,0 +1,11 @@
+CREATE TABLE "pair_score_policies" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"pool_id" varchar(66) NOT NULL,
+	"policy" varchar(16) NOT NULL,
+	"updated_by" varchar(64),
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "pair_score_policies_pool_id_unique" UNIQUE("pool_id")
+);
+--> statement-breakpoint
+ALTER TABLE "pair_scores" ADD COLUMN "policy" varchar(16) DEFAULT 'average' NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "pair_score_policies_pool_id_idx" ON "pair_score_policies" USING btree ("pool_id");
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "tier_change_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"token_symbol" varchar(32) NOT NULL,
+	"from_tier" varchar(16),
+	"to_tier" varchar(16) NOT NULL,
+	"score" integer NOT NULL,
+	"tier_mode" varchar(16) NOT NULL,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "tier_change_events_token_idx" ON "tier_change_events" USING btree ("token_symbol");--> statement-breakpoint
+CREATE INDEX "tier_change_events_changed_at_idx" ON "tier_change_events" USING btree ("changed_at");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "memex_posts" ADD COLUMN "parent_post_id" integer;--> statement-breakpoint
+ALTER TABLE "memex_posts" ADD COLUMN "prev_post_id" integer;--> statement-breakpoint
+ALTER TABLE "memex_posts" ADD COLUMN "next_post_id" integer;--> statement-breakpoint
+ALTER TABLE "memex_posts" ADD COLUMN "thread_count" integer DEFAULT 0;--> statement-breakpoint
+CREATE INDEX "memex_parent_post_idx" ON "memex_posts" USING btree ("parent_post_id");
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "memex_reposts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"memex_post_id" integer NOT NULL,
+	"author_id" integer NOT NULL,
+	"reposter_id" integer NOT NULL,
+	"reposter_name" varchar(64),
+	"first_seen_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "memex_reposts_post_reposter_idx" ON "memex_reposts" USING btree ("memex_post_id","reposter_id");--> statement-breakpoint
+CREATE INDEX "memex_reposts_reposter_idx" ON "memex_reposts" USING btree ("reposter_id");--> statement-breakpoint
+CREATE INDEX "memex_reposts_first_seen_at_idx" ON "memex_reposts" USING btree ("first_seen_at");
\ No newline at end of file
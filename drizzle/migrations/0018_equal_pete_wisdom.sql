@@ -0,0 +1,2 @@
+ALTER TABLE "token_score_snapshots" ADD COLUMN "score_lower" integer;--> statement-breakpoint
+ALTER TABLE "token_score_snapshots" ADD COLUMN "score_upper" integer;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "score_anomalies" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"token_symbol" varchar(32) NOT NULL,
+	"anomaly_type" varchar(16) NOT NULL,
+	"magnitude" real NOT NULL,
+	"observed_value" real NOT NULL,
+	"baseline_value" real NOT NULL,
+	"from_tier" varchar(16),
+	"to_tier" varchar(16),
+	"metrics" text NOT NULL,
+	"status" varchar(16) DEFAULT 'pending' NOT NULL,
+	"reviewed_by" varchar(64),
+	"reviewed_at" timestamp,
+	"review_note" text,
+	"detected_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "score_anomalies_token_idx" ON "score_anomalies" USING btree ("token_symbol");--> statement-breakpoint
+CREATE INDEX "score_anomalies_status_idx" ON "score_anomalies" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "score_anomalies_detected_at_idx" ON "score_anomalies" USING btree ("detected_at");
\ No newline at end of file
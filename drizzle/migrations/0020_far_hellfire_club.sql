@@ -0,0 +1,11 @@
+CREATE TABLE "token_co_mentions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"token_x" varchar(32) NOT NULL,
+	"token_y" varchar(32) NOT NULL,
+	"bucket_hour" timestamp NOT NULL,
+	"posts" integer DEFAULT 0 NOT NULL,
+	"weight" real DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "token_co_mentions_pair_hour_idx" ON "token_co_mentions" USING btree ("token_x","token_y","bucket_hour");--> statement-breakpoint
+CREATE INDEX "token_co_mentions_bucket_hour_idx" ON "token_co_mentions" USING btree ("bucket_hour");
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE "token_aliases" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"alias" varchar(128) NOT NULL,
+	"token_address" varchar(42) NOT NULL,
+	"kind" varchar(16) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"token_address" varchar(42) NOT NULL,
+	"symbol" varchar(32) NOT NULL,
+	"ticker_symbol" varchar(32) NOT NULL,
+	"name" varchar(128),
+	"creator_user_name" varchar(64),
+	"has_pool" boolean DEFAULT false NOT NULL,
+	"first_seen_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "tokens_token_address_unique" UNIQUE("token_address"),
+	CONSTRAINT "tokens_symbol_unique" UNIQUE("symbol")
+);
+--> statement-breakpoint
+ALTER TABLE "token_score_snapshots" ADD COLUMN "token_address" varchar(42);--> statement-breakpoint
+CREATE UNIQUE INDEX "token_aliases_alias_token_idx" ON "token_aliases" USING btree ("alias","token_address");--> statement-breakpoint
+CREATE INDEX "token_aliases_token_idx" ON "token_aliases" USING btree ("token_address");--> statement-breakpoint
+CREATE INDEX "tokens_ticker_symbol_idx" ON "tokens" USING btree ("ticker_symbol");
\ No newline at end of file
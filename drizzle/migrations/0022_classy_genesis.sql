@@ -0,0 +1,16 @@
+CREATE TABLE "unresolved_token_refs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reference" varchar(128) NOT NULL,
+	"sources" varchar(32) NOT NULL,
+	"posts" integer DEFAULT 0 NOT NULL,
+	"unique_users" integer DEFAULT 0 NOT NULL,
+	"status" varchar(16) DEFAULT 'pending' NOT NULL,
+	"promoted_to" varchar(42),
+	"reviewed_by" varchar(64),
+	"reviewed_at" timestamp,
+	"first_seen_at" timestamp NOT NULL,
+	"last_seen_at" timestamp NOT NULL,
+	CONSTRAINT "unresolved_token_refs_reference_unique" UNIQUE("reference")
+);
+--> statement-breakpoint
+CREATE INDEX "unresolved_token_refs_status_idx" ON "unresolved_token_refs" USING btree ("status");
\ No newline at end of file
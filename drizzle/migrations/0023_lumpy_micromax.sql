@@ -0,0 +1,14 @@
+CREATE TABLE "token_blacklist" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"token_symbol" varchar(32) NOT NULL,
+	"scope" varchar(16) NOT NULL,
+	"reason" text NOT NULL,
+	"created_by" varchar(64) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" varchar(64),
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp,
+	CONSTRAINT "token_blacklist_token_symbol_unique" UNIQUE("token_symbol")
+);
+--> statement-breakpoint
+INSERT INTO "token_blacklist" ("token_symbol", "scope", "reason", "created_by") VALUES ('M', 'leaderboard', 'Platform currency, not a meme token', 'system'), ('MEMEX', 'leaderboard', 'Platform name, not a meme token', 'system') ON CONFLICT DO NOTHING;
@@ -0,0 +1 @@
+DROP INDEX "memex_users_user_id_idx";
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "pair_scores" ALTER COLUMN "nonce" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "pair_scores" ALTER COLUMN "signature" DROP NOT NULL;--> statement-breakpoint
+-- Overrides used to be keyed by "TOKENX/TOKENY"; they are now keyed by registered pool id
+DELETE FROM "pair_score_policies" WHERE "pool_id" LIKE '%/%';
\ No newline at end of file
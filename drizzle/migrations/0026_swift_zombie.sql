@@ -0,0 +1 @@
+ALTER TABLE "tier_change_events" ALTER COLUMN "to_tier" DROP NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "token_blacklist" DROP CONSTRAINT "token_blacklist_token_symbol_unique";--> statement-breakpoint
+CREATE UNIQUE INDEX "token_blacklist_token_scope_idx" ON "token_blacklist" USING btree ("token_symbol","scope");
\ No newline at end of file
@@ -0,0 +1,275 @@
+import type { ScoringStrategy, ScoringConfigOverrides } from '../types/score';
+
+/**
+ * Scoring Strategy Registry
+ *
+ * Each strategy is a versioned scoring formula (weights, multipliers and stage pipeline).
+ * Every stored score records the version that produced it, so never edit a
+ * registered strategy in place - add a new version instead.
+ *
+ * The active version is selected with the SCORING_STRATEGY_VERSION environment variable,
+ * and can be changed (along with weights, multipliers and thresholds) at runtime via the
+ * admin scoring config (see services/scoring-config.ts).
+ */
+
+/**
+ * v1 - Original formula
+ * Linear raw score → time decay → anti-gaming → enhanced multipliers → sigmoid normalization
+ *
+ * Multipliers based on 50-page Memex data analysis
+ * Key findings:
+ * - Graduated (100% bonding) posts have 2.25x higher engagement (1286 vs 572)
+ * - Posts with images have 1.28x higher engagement (715 vs 558)
+ * - Price volatility indicates active trading
+ */
+const STRATEGY_V1: ScoringStrategy = {
+  version: 'v1',
+  description: 'Linear engagement score with latest-post decay, anti-gaming and enhanced multipliers',
+  weights: {
+    posts: 100, // Each post is worth 100 points
+    views: 1, // Each view is worth 1 point
+    likes: 20, // Each like is worth 20 points
+    reposts: 50, // Each repost is worth 50 points (high viral indicator)
+    replies: 30, // Each reply is worth 30 points (engagement)
+    uniqueUsers: 200, // Each unique user is worth 200 points (reach)
+  },
+  multipliers: {
+    graduatedTokenBonus: 1.5, // 50% bonus for fully graduated tokens
+    imagePostBonus: 1.2, // 20% bonus for image-rich content
+    priceVolatilityBonus: 1.1, // 10% bonus for price movement (capped)
+    preOrderedUserWeight: 1.0, // Neutral weight (analysis showed 0.96x ratio)
+    // Market signals stage only (not in v1's pipeline)
+    holderGrowthBonus: 1.3, // Up to 30% bonus for gaining holders
+    volumeBonus: 1.2, // Up to 20% bonus for trading volume
+    transactionBonus: 1.2, // Up to 20% bonus for transaction count
+    noTradingPenalty: 0.5, // Buzz with no trading behind it loses half its score
+  },
+  thresholds: {
+    graduated: 0.3, // 30% of posts from graduated tokens = bonus
+    image: 0.5, // 50% posts with images = bonus
+    volatility: 1.0, // 1% avg price change = bonus
+    holderGrowth: 50, // +50 holders in 24h = half the holder growth bonus
+    volume: 10000, // Leaderboard volume for half the volume bonus
+    transactions: 200, // Transactions for half the transaction bonus
+  },
+  stages: ['timeDecay', 'antiGaming', 'enhancedMultiplier'],
+  decayMode: 'latestPost',
+  postDecayHalfLifeHours: 24,
+  momentumWeight: 0,
+  reputationWeight: 0,
+  replyCreditWeight: 0,
+  normalizationMode: 'absolute',
+};
+
+/**
+ * v2 - Per-post decay
+ * Same weights as v1, but each post's engagement is decayed by its own age during
+ * aggregation, so one fresh post no longer makes a week of old engagement count at full weight
+ */
+const STRATEGY_V2: ScoringStrategy = {
+  version: 'v2',
+  description: 'Linear engagement score with per-post time decay, anti-gaming and enhanced multipliers',
+  weights: { ...STRATEGY_V1.weights },
+  multipliers: { ...STRATEGY_V1.multipliers },
+  thresholds: { ...STRATEGY_V1.thresholds },
+  stages: ['antiGaming', 'enhancedMultiplier'],
+  decayMode: 'perPost',
+  postDecayHalfLifeHours: 24, // Post engagement halves every 24 hours
+  momentumWeight: 0,
+  reputationWeight: 0,
+  replyCreditWeight: 0,
+  normalizationMode: 'absolute',
+};
+
+/**
+ * v3 - Per-post decay + momentum
+ * v2 level score blended with snapshot-based momentum, so rising tokens with a
+ * small engagement base can compete with established ones
+ */
+const STRATEGY_V3: ScoringStrategy = {
+  ...STRATEGY_V2,
+  version: 'v3',
+  description: 'v2 blended with hour-over-hour and 6h-over-6h engagement momentum',
+  weights: { ...STRATEGY_V2.weights },
+  multipliers: { ...STRATEGY_V2.multipliers },
+  thresholds: { ...STRATEGY_V2.thresholds },
+  stages: [...STRATEGY_V2.stages],
+  momentumWeight: 0.2, // 20% of the final score comes from momentum
+};
+
+/**
+ * v4 - Per-post decay + percentile normalization
+ * Scores each token by its percentile rank in the current run, so tiers keep
+ * a stable distribution on both busy and quiet days
+ */
+const STRATEGY_V4: ScoringStrategy = {
+  ...STRATEGY_V2,
+  version: 'v4',
+  description: 'v2 normalized by percentile rank of log-engagement across the current population',
+  weights: { ...STRATEGY_V2.weights },
+  multipliers: { ...STRATEGY_V2.multipliers },
+  thresholds: { ...STRATEGY_V2.thresholds },
+  stages: [...STRATEGY_V2.stages],
+  normalizationMode: 'percentile',
+};
+
+/**
+ * v5 - Per-post decay + robust z-score normalization
+ * Like v4, but keeps the distance between tokens (a clear outlier still stands out)
+ */
+const STRATEGY_V5: ScoringStrategy = {
+  ...STRATEGY_V2,
+  version: 'v5',
+  description: 'v2 normalized by robust z-score (median/MAD) of log-engagement across the current population',
+  weights: { ...STRATEGY_V2.weights },
+  multipliers: { ...STRATEGY_V2.multipliers },
+  thresholds: { ...STRATEGY_V2.thresholds },
+  stages: [...STRATEGY_V2.stages],
+  normalizationMode: 'robustZ',
+};
+
+/**
+ * v6 - Per-post decay + negative-sentiment dampener
+ * v2 with an extra stage that dampens tokens whose posts are mostly negative (rug/scam warnings)
+ */
+const STRATEGY_V6: ScoringStrategy = {
+  ...STRATEGY_V2,
+  version: 'v6',
+  description: 'v2 with a dampener for tokens whose posts carry mostly negative sentiment',
+  weights: { ...STRATEGY_V2.weights },
+  multipliers: { ...STRATEGY_V2.multipliers },
+  thresholds: { ...STRATEGY_V2.thresholds },
+  stages: [...STRATEGY_V2.stages, 'sentimentDampener'],
+};
+
+/**
+ * v7 - Per-post decay + author reputation
+ * v2 where each post's engagement is also scaled by its author's reputation
+ * (account age, verified/official status, typical engagement, past call success),
+ * so a veteran caller's post outweighs a fresh account's
+ */
+const STRATEGY_V7: ScoringStrategy = {
+  ...STRATEGY_V2,
+  version: 'v7',
+  description: 'v2 with per-post engagement weighted by author reputation',
+  weights: { ...STRATEGY_V2.weights },
+  multipliers: { ...STRATEGY_V2.multipliers },
+  thresholds: { ...STRATEGY_V2.thresholds },
+  stages: [...STRATEGY_V2.stages],
+  reputationWeight: 1,
+};
+
+/**
+ * v8 - Per-post decay + cold-start
+ * v2 where tokens first seen less than 72 hours ago score on their engagement rate since
+ * first appearance, plus a boost that fades as the token ages, so a fresh launch can
+ * compete with tokens that have had a week to build engagement
+ */
+const STRATEGY_V8: ScoringStrategy = {
+  ...STRATEGY_V2,
+  version: 'v8',
+  description: 'v2 with cold-start scoring (engagement rate + fading boost) for tokens first seen < 72h ago',
+  weights: { ...STRATEGY_V2.weights },
+  multipliers: { ...STRATEGY_V2.multipliers },
+  thresholds: { ...STRATEGY_V2.thresholds },
+  stages: ['coldStart', ...STRATEGY_V2.stages],
+};
+
+/**
+ * v9 - Per-post decay + conversation graph
+ * v2 where replies credit their engagement to the tokens of the post that started the
+ * conversation (even without repeating the ticker), plus a bonus for tokens whose posts
+ * draw deep, many-participant reply threads rather than sitting as isolated posts
+ */
+const STRATEGY_V9: ScoringStrategy = {
+  ...STRATEGY_V2,
+  version: 'v9',
+  description: 'v2 with reply engagement credited to root post tokens and a conversation depth/breadth bonus',
+  weights: { ...STRATEGY_V2.weights },
+  multipliers: { ...STRATEGY_V2.multipliers },
+  thresholds: { ...STRATEGY_V2.thresholds },
+  stages: [...STRATEGY_V2.stages, 'conversation'],
+  replyCreditWeight: 1,
+};
+
+/**
+ * v10 - Per-post decay + market signals
+ * v2 joined with the current Memex leaderboard: capped bonuses for holder growth, volume and
+ * transactions, and a penalty for social buzz around a listed token nobody is trading
+ */
+const STRATEGY_V10: ScoringStrategy = {
+  ...STRATEGY_V2,
+  version: 'v10',
+  description: 'v2 with capped market bonuses (holder growth, volume, transactions) and a no-trading penalty',
+  weights: { ...STRATEGY_V2.weights },
+  multipliers: { ...STRATEGY_V2.multipliers },
+  thresholds: { ...STRATEGY_V2.thresholds },
+  stages: [...STRATEGY_V2.stages, 'marketSignals'],
+};
+
+export const SCORING_STRATEGIES: Record<string, ScoringStrategy> = {
+  [STRATEGY_V1.version]: STRATEGY_V1,
+  [STRATEGY_V2.version]: STRATEGY_V2,
+  [STRATEGY_V3.version]: STRATEGY_V3,
+  [STRATEGY_V4.version]: STRATEGY_V4,
+  [STRATEGY_V5.version]: STRATEGY_V5,
+  [STRATEGY_V6.version]: STRATEGY_V6,
+  [STRATEGY_V7.version]: STRATEGY_V7,
+  [STRATEGY_V8.version]: STRATEGY_V8,
+  [STRATEGY_V9.version]: STRATEGY_V9,
+  [STRATEGY_V10.version]: STRATEGY_V10,
+};
+
+export const DEFAULT_STRATEGY_VERSION = STRATEGY_V2.version;
+
+/**
+ * Get a registered strategy by version
+ * Throws on unknown versions so a config typo never silently scores with the wrong formula
+ */
+export function getScoringStrategy(version: string = DEFAULT_STRATEGY_VERSION): ScoringStrategy {
+  const strategy = SCORING_STRATEGIES[version];
+  if (!strategy) {
+    throw new Error(`Unknown scoring strategy version: ${version} (available: ${Object.keys(SCORING_STRATEGIES).join(', ')})`);
+  }
+  return strategy;
+}
+
+/**
+ * Get the strategy version configured for production scoring
+ */
+export function getActiveStrategyVersion(): string {
+  return process.env.SCORING_STRATEGY_VERSION || DEFAULT_STRATEGY_VERSION;
+}
+
+/**
+ * List all registered strategies
+ */
+export function listScoringStrategies(): ScoringStrategy[] {
+  return Object.values(SCORING_STRATEGIES);
+}
+
+/**
+ * Apply partial weight/multiplier/threshold overrides on top of a strategy
+ * Returns the base strategy unchanged when there is nothing to override
+ * @param versionLabel Version recorded for the overridden strategy (e.g. v2@r3)
+ */
+export function applyStrategyOverrides(
+  base: ScoringStrategy,
+  overrides: ScoringConfigOverrides,
+  versionLabel: string
+): ScoringStrategy {
+  const { weights, multipliers, thresholds } = overrides;
+  const hasOverrides = [weights, multipliers, thresholds].some((group) => group && Object.keys(group).length > 0);
+
+  if (!hasOverrides) {
+    return base;
+  }
+
+  return {
+    ...base,
+    version: versionLabel,
+    weights: { ...base.weights, ...weights },
+    multipliers: { ...base.multipliers, ...multipliers },
+    thresholds: { ...base.thresholds, ...thresholds },
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Sentiment Lexicon
+ *
+ * Valence per term on a -3 (very negative) to +3 (very positive) scale.
+ * English and emoji terms match whole tokens; Korean terms match the start of a word,
+ * since particles and endings are attached (e.g. 떡상 matches 떡상각, 떡상했다).
+ *
+ * Meme/crypto slang overrides general meaning: "moon" and "pump" are bullish,
+ * "rug", "dump" and "scam" are the strongest negative signals.
+ */
+
+export const ENGLISH_LEXICON: Record<string, number> = {
+  // General positive
+  good: 1,
+  great: 2,
+  nice: 1,
+  love: 2,
+  awesome: 2,
+  amazing: 2,
+  best: 2,
+  happy: 1,
+  win: 2,
+  winning: 2,
+  bullish: 2,
+  strong: 1,
+  solid: 1,
+  legit: 2,
+  safe: 1,
+  huge: 1,
+  profit: 2,
+  gains: 2,
+  // General negative
+  bad: -1,
+  terrible: -2,
+  awful: -2,
+  hate: -2,
+  worst: -2,
+  sad: -1,
+  lose: -2,
+  loss: -2,
+  losing: -2,
+  bearish: -2,
+  weak: -1,
+  dead: -2,
+  fake: -2,
+  broke: -1,
+  fraud: -3,
+  hack: -3,
+  hacked: -3,
+  exploit: -3,
+  // Meme/crypto slang
+  moon: 2,
+  mooning: 3,
+  pump: 2,
+  pumping: 2,
+  gem: 2,
+  ath: 2,
+  lfg: 2,
+  wagmi: 2,
+  hodl: 1,
+  based: 1,
+  send: 1,
+  sending: 2,
+  bullrun: 2,
+  rekt: -2,
+  rug: -3,
+  rugged: -3,
+  rugpull: -3,
+  scam: -3,
+  scammer: -3,
+  honeypot: -3,
+  dump: -2,
+  dumping: -2,
+  dumped: -2,
+  ngmi: -2,
+  jeet: -1,
+  jeets: -1,
+  exitscam: -3,
+  ponzi: -3,
+  fud: -1,
+  bagholder: -1,
+};
+
+export const KOREAN_LEXICON: Record<string, number> = {
+  // General positive
+  좋: 1, // 좋다, 좋아요, 좋은
+  최고: 2,
+  대박: 2,
+  사랑: 2,
+  행복: 1,
+  기대: 1,
+  추천: 1,
+  강세: 2,
+  수익: 2,
+  // General negative
+  나쁘: -1,
+  최악: -2,
+  싫: -2,
+  망했: -2,
+  망함: -2,
+  손실: -2,
+  손절: -1,
+  약세: -2,
+  폭락: -3,
+  해킹: -3,
+  // Meme/crypto slang
+  떡상: 3,
+  가즈아: 2,
+  불장: 2,
+  존버: 1,
+  떡락: -3,
+  사기: -3,
+  스캠: -3,
+  러그: -3,
+  먹튀: -3,
+  물렸: -2,
+  개미털기: -2,
+  상폐: -3,
+};
+
+export const EMOJI_LEXICON: Record<string, number> = {
+  '🚀': 2,
+  '🌙': 2,
+  '🌕': 2,
+  '💎': 1,
+  '🔥': 2,
+  '📈': 2,
+  '💰': 1,
+  '🤑': 1,
+  '❤️': 2,
+  '❤': 2,
+  '👍': 1,
+  '🙌': 1,
+  '🐂': 1,
+  '😍': 2,
+  '🥳': 2,
+  '📉': -2,
+  '💀': -2,
+  '🤡': -2,
+  '😭': -1,
+  '😢': -1,
+  '😡': -2,
+  '🤬': -2,
+  '👎': -2,
+  '🐻': -1,
+  '🚨': -1,
+  '⚠️': -1,
+  '🩸': -2,
+};
+
+// Negators flip the valence of the next sentiment term within NEGATION_WINDOW tokens
+export const ENGLISH_NEGATORS = new Set(['not', 'no', 'never', "don't", 'dont', "isn't", 'isnt', "wasn't", "won't", 'aint', "ain't", 'without']);
+// Korean short negation precedes the verb (안 좋아, 못 믿어)
+export const KOREAN_NEGATORS = new Set(['안', '못', '아니']);
+export const NEGATION_WINDOW = 3;
+export const NEGATION_FACTOR = -0.75; // Negated terms are weaker than their opposites ("not good" ≠ "bad")
+
+// Boosters amplify the next sentiment term
+export const BOOSTERS: Record<string, number> = {
+  very: 1.3,
+  so: 1.2,
+  super: 1.4,
+  really: 1.3,
+  extremely: 1.5,
+  totally: 1.3,
+  진짜: 1.3,
+  정말: 1.3,
+  너무: 1.3,
+  완전: 1.4,
+  개: 1.3,
+};
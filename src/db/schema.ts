@@ -1,5 +1,70 @@
 import { pgTable, serial, varchar, integer, timestamp, text, bigint, index, uniqueIndex, boolean, real } from 'drizzle-orm/pg-core';
 
+/**
+ * Tokens table - Canonical token identity registry keyed by contract address
+ * Seeded from the Memex leaderboard and the indexer; all token matching resolves through it (see services/token-registry.ts)
+ */
+export const tokens = pgTable(
+  'tokens',
+  {
+    id: serial('id').primaryKey(),
+    tokenAddress: varchar('token_address', { length: 42 }).notNull().unique(), // Lowercase
+    symbol: varchar('symbol', { length: 32 }).notNull().unique(), // Canonical symbol (uppercase, unique)
+    tickerSymbol: varchar('ticker_symbol', { length: 32 }).notNull(), // On-chain symbol as reported (uppercase)
+    name: varchar('name', { length: 128 }),
+    creatorUserName: varchar('creator_user_name', { length: 64 }),
+    hasPool: boolean('has_pool').notNull().default(false), // Seen by the indexer with a quote-token pool
+    firstSeenAt: timestamp('first_seen_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    tickerSymbolIdx: index('tokens_ticker_symbol_idx').on(table.tickerSymbol),
+  })
+);
+
+/**
+ * Token Aliases table - Spellings that refer to a token (ticker, name, creator userName, hashtag)
+ */
+export const tokenAliases = pgTable(
+  'token_aliases',
+  {
+    id: serial('id').primaryKey(),
+    alias: varchar('alias', { length: 128 }).notNull(), // Uppercase
+    tokenAddress: varchar('token_address', { length: 42 }).notNull(),
+    kind: varchar('kind', { length: 16 }).notNull(), // manual | symbol | name | creator | hashtag
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    aliasTokenIdx: uniqueIndex('token_aliases_alias_token_idx').on(table.alias, table.tokenAddress),
+    tokenIdx: index('token_aliases_token_idx').on(table.tokenAddress),
+  })
+);
+
+/**
+ * Unresolved Token Refs table - Extracted tickers, hashtags and mentions that match no registered token
+ * Counts cover the tracking window and are recomputed on every refresh; reviewers promote a reference
+ * to an alias of a registered token or ignore it (see services/unresolved-tokens.ts)
+ */
+export const unresolvedTokenRefs = pgTable(
+  'unresolved_token_refs',
+  {
+    id: serial('id').primaryKey(),
+    reference: varchar('reference', { length: 128 }).notNull().unique(), // Normalized (uppercase, no $/#/@)
+    sources: varchar('sources', { length: 32 }).notNull(), // Comma-separated: mention, ticker, hashtag
+    posts: integer('posts').notNull().default(0),
+    uniqueUsers: integer('unique_users').notNull().default(0),
+    status: varchar('status', { length: 16 }).notNull().default('pending'), // pending | promoted | ignored
+    promotedTo: varchar('promoted_to', { length: 42 }), // Token address the reference became an alias of
+    reviewedBy: varchar('reviewed_by', { length: 64 }),
+    reviewedAt: timestamp('reviewed_at'),
+    firstSeenAt: timestamp('first_seen_at').notNull(),
+    lastSeenAt: timestamp('last_seen_at').notNull(),
+  },
+  (table) => ({
+    statusIdx: index('unresolved_token_refs_status_idx').on(table.status),
+  })
+);
+
 /**
  * Token Scores table - Stores individual token viral scores
  * These are the base scores used to calculate pair scores
@@ -21,6 +86,10 @@ export const tokenScores = pgTable(
     avgBondingCurve: real('avg_bonding_curve').default(0),
     graduatedRatio: real('graduated_ratio').default(0),
     imageRatio: real('image_ratio').default(0),
+    // Scoring strategy version that produced this score
+    strategyVersion: varchar('strategy_version', { length: 32 }).notNull().default('v1'),
+    // Normalization mode used to map the adjusted score to 0-10000 (absolute | percentile | robustZ)
+    normalizationMode: varchar('normalization_mode', { length: 16 }).notNull().default('absolute'),
     createdAt: timestamp('created_at').defaultNow().notNull(),
   },
   (table) => ({
@@ -70,10 +139,11 @@ export const pairScores = pgTable(
     tokenYScore: integer('token_y_score').notNull(),
     // Combined pair score
     pairScore: integer('pair_score').notNull(), // 0-10000 basis points
-    // Signature data for on-chain verification
+    policy: varchar('policy', { length: 16 }).notNull().default('average'), // PairScorePolicy that produced pairScore
+    // Signature data for on-chain verification (null = recorded by the hourly snapshot, unsigned)
     timestamp: bigint('timestamp', { mode: 'number' }).notNull(),
-    nonce: bigint('nonce', { mode: 'number' }).notNull(),
-    signature: text('signature').notNull(),
+    nonce: bigint('nonce', { mode: 'number' }),
+    signature: text('signature'),
     createdAt: timestamp('created_at').defaultNow().notNull(),
   },
   (table) => ({
@@ -83,6 +153,96 @@ export const pairScores = pgTable(
   })
 );
 
+/**
+ * Tier Change Events table - A token moving between tiers from one hourly snapshot to the next
+ */
+export const tierChangeEvents = pgTable(
+  'tier_change_events',
+  {
+    id: serial('id').primaryKey(),
+    tokenSymbol: varchar('token_symbol', { length: 32 }).notNull(),
+    fromTier: varchar('from_tier', { length: 16 }), // null = not scored in the previous snapshot
+    toTier: varchar('to_tier', { length: 16 }), // null = dropped out of the scored set
+    score: integer('score').notNull(), // 0-10000 score at the change (0 when dropped out)
+    tierMode: varchar('tier_mode', { length: 16 }).notNull(), // fixed | percentile
+    changedAt: timestamp('changed_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    tokenIdx: index('tier_change_events_token_idx').on(table.tokenSymbol),
+    changedAtIdx: index('tier_change_events_changed_at_idx').on(table.changedAt),
+  })
+);
+
+/**
+ * Score Anomalies table - Statistically abnormal jumps detected after a scoring run
+ * Pending anomalies can hold a token out of epoch submission until reviewed (see services/anomaly-detector.ts)
+ */
+export const scoreAnomalies = pgTable(
+  'score_anomalies',
+  {
+    id: serial('id').primaryKey(),
+    tokenSymbol: varchar('token_symbol', { length: 32 }).notNull(),
+    anomalyType: varchar('anomaly_type', { length: 16 }).notNull(), // score | views | posts | tierJump
+    magnitude: real('magnitude').notNull(), // Robust z-score of the jump (tierJump: tiers skipped)
+    observedValue: real('observed_value').notNull(), // Jump since the latest snapshot (tierJump: current score)
+    baselineValue: real('baseline_value').notNull(), // Median hourly jump (tierJump: snapshot score)
+    fromTier: varchar('from_tier', { length: 16 }),
+    toTier: varchar('to_tier', { length: 16 }),
+    metrics: text('metrics').notNull(), // JSON AnomalyMetrics at detection
+    status: varchar('status', { length: 16 }).notNull().default('pending'), // pending | dismissed | confirmed
+    reviewedBy: varchar('reviewed_by', { length: 64 }),
+    reviewedAt: timestamp('reviewed_at'),
+    reviewNote: text('review_note'),
+    detectedAt: timestamp('detected_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    tokenIdx: index('score_anomalies_token_idx').on(table.tokenSymbol),
+    statusIdx: index('score_anomalies_status_idx').on(table.status),
+    detectedAtIdx: index('score_anomalies_detected_at_idx').on(table.detectedAt),
+  })
+);
+
+/**
+ * Token Blacklist table - Tokens excluded from the leaderboard, scoring or epoch submission
+ * One entry per token and scope; expired entries stay for the record until a new entry for the same
+ * scope replaces them, but no longer apply (see services/token-blacklist.ts)
+ */
+export const tokenBlacklistEntries = pgTable(
+  'token_blacklist',
+  {
+    id: serial('id').primaryKey(),
+    tokenSymbol: varchar('token_symbol', { length: 32 }).notNull(), // Canonical symbol
+    scope: varchar('scope', { length: 16 }).notNull(), // leaderboard | scoring | epoch
+    reason: text('reason').notNull(),
+    createdBy: varchar('created_by', { length: 64 }).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedBy: varchar('updated_by', { length: 64 }),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+    expiresAt: timestamp('expires_at'), // Null: never expires
+  },
+  (table) => ({
+    tokenScopeIdx: uniqueIndex('token_blacklist_token_scope_idx').on(table.tokenSymbol, table.scope),
+  })
+);
+
+/**
+ * Pair Score Policies table - Per-pool pair score policy overrides
+ * Pools without a row use PAIR_SCORE_POLICY (see services/pair-score-policy.ts)
+ */
+export const pairScorePolicies = pgTable(
+  'pair_score_policies',
+  {
+    id: serial('id').primaryKey(),
+    poolId: varchar('pool_id', { length: 66 }).notNull().unique(), // Registered pool (pair_pools.pool_id, lowercase)
+    policy: varchar('policy', { length: 16 }).notNull(), // PairScorePolicy
+    updatedBy: varchar('updated_by', { length: 64 }),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    poolIdIdx: uniqueIndex('pair_score_policies_pool_id_idx').on(table.poolId),
+  })
+);
+
 /**
  * Merkle Checkpoints table - Stores periodic merkle tree roots
  */
@@ -112,7 +272,10 @@ export const tokenScoreSnapshots = pgTable(
   {
     id: serial('id').primaryKey(),
     tokenSymbol: varchar('token_symbol', { length: 32 }).notNull(),
+    tokenAddress: varchar('token_address', { length: 42 }), // From the token registry (null = not registered)
     score: integer('score').notNull(), // 0-10000 basis points
+    scoreLower: integer('score_lower'), // Lower bound of the score's confidence interval (null = not computed)
+    scoreUpper: integer('score_upper'), // Upper bound of the score's confidence interval
     snapshotHour: timestamp('snapshot_hour').notNull(), // Rounded to hour
     // Raw metrics for debugging/auditing
     rawPosts: integer('raw_posts').default(0),
@@ -125,6 +288,13 @@ export const tokenScoreSnapshots = pgTable(
     avgBondingCurve: real('avg_bonding_curve').default(0),
     graduatedRatio: real('graduated_ratio').default(0),
     imageRatio: real('image_ratio').default(0),
+    // Momentum (0-10000) from hour-over-hour and 6h-over-6h growth
+    momentumScore: integer('momentum_score').default(0),
+    scoreBreakdown: text('score_breakdown'), // JSON ScoreBreakdown explaining how the score was produced
+    // Scoring strategy version that produced this score
+    strategyVersion: varchar('strategy_version', { length: 32 }).notNull().default('v1'),
+    // Normalization mode used to map the adjusted score to 0-10000 (absolute | percentile | robustZ)
+    normalizationMode: varchar('normalization_mode', { length: 16 }).notNull().default('absolute'),
     createdAt: timestamp('created_at').defaultNow().notNull(),
   },
   (table) => ({
@@ -133,6 +303,28 @@ export const tokenScoreSnapshots = pgTable(
   })
 );
 
+/**
+ * Token Market Snapshots table - Hourly market state per token
+ * Outcome history (TVL, volume, holders) for fitting scoring weights against what happened next
+ */
+export const tokenMarketSnapshots = pgTable(
+  'token_market_snapshots',
+  {
+    id: serial('id').primaryKey(),
+    tokenSymbol: varchar('token_symbol', { length: 32 }).notNull(),
+    snapshotHour: timestamp('snapshot_hour').notNull(), // Rounded to hour
+    tvlUsd: real('tvl_usd'), // Total LB pool TVL (null = no pool)
+    volume: real('volume'), // Memex leaderboard volume (null = not on leaderboard)
+    holders: integer('holders'), // Memex leaderboard holder count
+    priceUsd: real('price_usd'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    tokenHourIdx: uniqueIndex('token_market_snapshots_token_hour_idx').on(table.tokenSymbol, table.snapshotHour),
+    snapshotHourIdx: index('token_market_snapshots_hour_idx').on(table.snapshotHour),
+  })
+);
+
 /**
  * Token Score Daily table - Daily aggregated scores
  * Used for long-term trend analysis
@@ -151,6 +343,8 @@ export const tokenScoreDaily = pgTable(
     totalViews: integer('total_views').default(0),
     totalLikes: integer('total_likes').default(0),
     totalReposts: integer('total_reposts').default(0),
+    // Scoring strategy version of the latest snapshot aggregated into this row
+    strategyVersion: varchar('strategy_version', { length: 32 }).notNull().default('v1'),
     createdAt: timestamp('created_at').defaultNow().notNull(),
   },
   (table) => ({
@@ -171,6 +365,11 @@ export const memexPosts = pgTable(
     userName: varchar('user_name', { length: 64 }),
     userIsPreOrdered: boolean('user_is_pre_ordered').default(false),
     contentType: varchar('content_type', { length: 16 }).notNull(),
+    // Reply/thread links (memexPostIds, see utils/thread-graph.ts)
+    parentPostId: integer('parent_post_id'), // Post this one replies to
+    prevPostId: integer('prev_post_id'), // Previous post of the same thread
+    nextPostId: integer('next_post_id'), // Next post of the same thread
+    threadCount: integer('thread_count').default(0), // Posts in this post's thread (API totalThreadCount)
     viewCount: integer('view_count').default(0),
     likeCount: integer('like_count').default(0),
     repostCount: integer('repost_count').default(0),
@@ -184,6 +383,10 @@ export const memexPosts = pgTable(
     mentionedTokens: text('mentioned_tokens'), // JSON array of @mentions
     extractedTickers: text('extracted_tickers'), // JSON array of $TICKER patterns
     extractedHashtags: text('extracted_hashtags'), // JSON array of #hashtags
+    sentimentScore: real('sentiment_score').default(0), // Lexicon sentiment of the post text (-1 to 1)
+    botReasons: text('bot_reasons'), // JSON array of post-level bot reason codes (null = not flagged)
+    textFingerprint: text('text_fingerprint'), // JSON MinHash signature (null = text too short)
+    duplicateClusterId: integer('duplicate_cluster_id'), // memexPostId of the first near-duplicate (self when unique)
     postCreatedAt: timestamp('post_created_at').notNull(),
     processedAt: timestamp('processed_at').defaultNow().notNull(),
   },
@@ -191,24 +394,211 @@ export const memexPosts = pgTable(
     memexPostIdIdx: uniqueIndex('memex_post_id_idx').on(table.memexPostId),
     postCreatedAtIdx: index('memex_post_created_at_idx').on(table.postCreatedAt),
     bondingCurveIdx: index('memex_bonding_curve_idx').on(table.bondingCurveProgress),
+    duplicateClusterIdx: index('memex_duplicate_cluster_idx').on(table.duplicateClusterId),
+    parentPostIdx: index('memex_parent_post_idx').on(table.parentPostId),
+  })
+);
+
+/**
+ * Memex Users table - Author reputation built from each poster's history
+ * Reputation (0-1) weights each post's engagement during aggregation (see services/reputation.ts)
+ */
+export const memexUsers = pgTable(
+  'memex_users',
+  {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id').notNull().unique(),
+    userName: varchar('user_name', { length: 64 }),
+    userType: varchar('user_type', { length: 16 }).notNull().default('GENERAL'), // GENERAL | VERIFIED | OFFICIAL
+    isPreOrdered: boolean('is_pre_ordered').default(false),
+    firstSeenAt: timestamp('first_seen_at').notNull(), // Earliest post we have seen (proxy for account age)
+    lastSeenAt: timestamp('last_seen_at').notNull(),
+    // History within the reputation window
+    postCount: integer('post_count').notNull().default(0),
+    avgEngagement: real('avg_engagement').notNull().default(0), // Avg likes + reposts + replies per post
+    tokenCalls: integer('token_calls').notNull().default(0), // Token mentions old enough to evaluate
+    successfulCalls: integer('successful_calls').notNull().default(0), // Calls whose token later scored well
+    reputation: real('reputation').notNull().default(0.25), // 0-1 composite
+    // Bot/sybil detection (see services/bot-detector.ts)
+    botReasons: text('bot_reasons'), // JSON array of user-level reason codes (null = not flagged)
+    botAction: varchar('bot_action', { length: 16 }), // exclude | downweight (null = not flagged)
+    botFlaggedAt: timestamp('bot_flagged_at'),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    reputationIdx: index('memex_users_reputation_idx').on(table.reputation),
+    botActionIdx: index('memex_users_bot_action_idx').on(table.botAction),
+  })
+);
+
+/**
+ * Memex Reposts table - One row per (original post, reposting user)
+ * The API has no repost time, so firstSeenAt is when the collector first saw the repost
+ */
+export const memexReposts = pgTable(
+  'memex_reposts',
+  {
+    id: serial('id').primaryKey(),
+    memexPostId: integer('memex_post_id').notNull(), // Original post
+    authorId: integer('author_id').notNull(), // Original post's author
+    reposterId: integer('reposter_id').notNull(),
+    reposterName: varchar('reposter_name', { length: 64 }),
+    firstSeenAt: timestamp('first_seen_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    postReposterIdx: uniqueIndex('memex_reposts_post_reposter_idx').on(table.memexPostId, table.reposterId),
+    reposterIdx: index('memex_reposts_reposter_idx').on(table.reposterId),
+    firstSeenAtIdx: index('memex_reposts_first_seen_at_idx').on(table.firstSeenAt),
+  })
+);
+
+/**
+ * Token Co-Mentions table - Hourly co-mention edge weights between two tokens
+ * Rolling windows (1h/1d/7d) sum the buckets (see services/co-mention-graph.ts)
+ */
+export const tokenCoMentions = pgTable(
+  'token_co_mentions',
+  {
+    id: serial('id').primaryKey(),
+    tokenX: varchar('token_x', { length: 32 }).notNull(), // Symbols sorted (tokenX < tokenY)
+    tokenY: varchar('token_y', { length: 32 }).notNull(),
+    bucketHour: timestamp('bucket_hour').notNull(), // Hour the posts were created in
+    posts: integer('posts').notNull().default(0), // Posts mentioning both tokens
+    weight: real('weight').notNull().default(0), // Posts weighted by 1/(other tokens mentioned) and bot weight
+  },
+  (table) => ({
+    pairHourIdx: uniqueIndex('token_co_mentions_pair_hour_idx').on(table.tokenX, table.tokenY, table.bucketHour),
+    bucketHourIdx: index('token_co_mentions_bucket_hour_idx').on(table.bucketHour),
+  })
+);
+
+/**
+ * Scoring Config table - Runtime overrides for the scoring formula
+ * One row per config key ('production'); weights/multipliers/thresholds are JSON partial overrides
+ */
+export const scoringConfig = pgTable(
+  'scoring_config',
+  {
+    id: serial('id').primaryKey(),
+    configKey: varchar('config_key', { length: 32 }).notNull().unique(),
+    strategyVersion: varchar('strategy_version', { length: 32 }), // null = SCORING_STRATEGY_VERSION / default
+    weights: text('weights'), // JSON Partial<ScoreWeights>
+    multipliers: text('multipliers'), // JSON Partial<EnhancedScoreMultipliers>
+    thresholds: text('thresholds'), // JSON Partial<ScoreThresholds>
+    revision: integer('revision').notNull().default(0), // Incremented on every change
+    updatedBy: varchar('updated_by', { length: 64 }),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    configKeyIdx: uniqueIndex('scoring_config_key_idx').on(table.configKey),
+  })
+);
+
+/**
+ * Scoring Config Audit table - Every change to scoring config with before/after values
+ */
+export const scoringConfigAudit = pgTable(
+  'scoring_config_audit',
+  {
+    id: serial('id').primaryKey(),
+    configKey: varchar('config_key', { length: 32 }).notNull(),
+    revision: integer('revision').notNull(),
+    changedBy: varchar('changed_by', { length: 64 }).notNull(),
+    reason: text('reason'),
+    before: text('before').notNull(), // JSON ScoringConfigValues
+    after: text('after').notNull(), // JSON ScoringConfigValues
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    configKeyIdx: index('scoring_config_audit_key_idx').on(table.configKey, table.createdAt),
+  })
+);
+
+/**
+ * Backtest Runs table - Historical replays of memex_posts through a scoring configuration
+ */
+export const backtestRuns = pgTable(
+  'backtest_runs',
+  {
+    id: serial('id').primaryKey(),
+    strategyVersion: varchar('strategy_version', { length: 32 }).notNull(), // Base strategy replayed
+    overrides: text('overrides'), // JSON ScoringConfigOverrides (null = registered strategy as-is)
+    rangeStart: timestamp('range_start').notNull(), // First simulated hour
+    rangeEnd: timestamp('range_end').notNull(), // Last simulated hour
+    status: varchar('status', { length: 16 }).notNull().default('running'), // running | completed | failed
+    hoursSimulated: integer('hours_simulated').notNull().default(0),
+    error: text('error'),
+    createdBy: varchar('created_by', { length: 64 }).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    completedAt: timestamp('completed_at'),
+  },
+  (table) => ({
+    createdAtIdx: index('backtest_runs_created_at_idx').on(table.createdAt),
+  })
+);
+
+/**
+ * Backtest Results table - One row per simulated hour of a backtest run
+ */
+export const backtestResults = pgTable(
+  'backtest_results',
+  {
+    id: serial('id').primaryKey(),
+    runId: integer('run_id').notNull(),
+    simulatedHour: timestamp('simulated_hour').notNull(),
+    postCount: integer('post_count').notNull().default(0), // Posts in the 7-day window
+    tokenScores: text('token_scores').notNull(), // JSON BacktestTokenScore[] (score + tier)
+    viralPairs: text('viral_pairs').notNull(), // JSON ViralPair[] that would have been submitted
+    topTokens: text('top_tokens').notNull(), // JSON symbols ranked 1-3
+    productionTopTokens: text('production_top_tokens'), // JSON symbols ranked 1-3 from the production snapshot (null = no snapshot)
+  },
+  (table) => ({
+    runHourIdx: uniqueIndex('backtest_results_run_hour_idx').on(table.runId, table.simulatedHour),
   })
 );
 
 // Type exports for Drizzle
+export type Token = typeof tokens.$inferSelect;
+export type NewToken = typeof tokens.$inferInsert;
+export type TokenAlias = typeof tokenAliases.$inferSelect;
+export type NewTokenAlias = typeof tokenAliases.$inferInsert;
+export type UnresolvedTokenRef = typeof unresolvedTokenRefs.$inferSelect;
+export type NewUnresolvedTokenRef = typeof unresolvedTokenRefs.$inferInsert;
 export type TokenScore = typeof tokenScores.$inferSelect;
 export type NewTokenScore = typeof tokenScores.$inferInsert;
 export type TokenScoreSnapshot = typeof tokenScoreSnapshots.$inferSelect;
 export type NewTokenScoreSnapshot = typeof tokenScoreSnapshots.$inferInsert;
+export type TokenMarketSnapshot = typeof tokenMarketSnapshots.$inferSelect;
+export type NewTokenMarketSnapshot = typeof tokenMarketSnapshots.$inferInsert;
 export type TokenScoreDaily = typeof tokenScoreDaily.$inferSelect;
 export type NewTokenScoreDaily = typeof tokenScoreDaily.$inferInsert;
 export type PairPool = typeof pairPools.$inferSelect;
 export type NewPairPool = typeof pairPools.$inferInsert;
 export type PairScore = typeof pairScores.$inferSelect;
 export type NewPairScore = typeof pairScores.$inferInsert;
+export type TierChangeEvent = typeof tierChangeEvents.$inferSelect;
+export type NewTierChangeEvent = typeof tierChangeEvents.$inferInsert;
+export type ScoreAnomaly = typeof scoreAnomalies.$inferSelect;
+export type NewScoreAnomaly = typeof scoreAnomalies.$inferInsert;
+export type TokenBlacklistEntry = typeof tokenBlacklistEntries.$inferSelect;
+export type NewTokenBlacklistEntry = typeof tokenBlacklistEntries.$inferInsert;
+export type PairScorePolicyOverride = typeof pairScorePolicies.$inferSelect;
+export type NewPairScorePolicyOverride = typeof pairScorePolicies.$inferInsert;
 export type MerkleCheckpoint = typeof merkleCheckpoints.$inferSelect;
 export type NewMerkleCheckpoint = typeof merkleCheckpoints.$inferInsert;
 export type MemexPost = typeof memexPosts.$inferSelect;
 export type NewMemexPost = typeof memexPosts.$inferInsert;
-
-
-
+export type MemexUser = typeof memexUsers.$inferSelect;
+export type NewMemexUser = typeof memexUsers.$inferInsert;
+export type MemexRepost = typeof memexReposts.$inferSelect;
+export type NewMemexRepost = typeof memexReposts.$inferInsert;
+export type TokenCoMention = typeof tokenCoMentions.$inferSelect;
+export type NewTokenCoMention = typeof tokenCoMentions.$inferInsert;
+export type ScoringConfig = typeof scoringConfig.$inferSelect;
+export type NewScoringConfig = typeof scoringConfig.$inferInsert;
+export type ScoringConfigAudit = typeof scoringConfigAudit.$inferSelect;
+export type NewScoringConfigAudit = typeof scoringConfigAudit.$inferInsert;
+export type BacktestRun = typeof backtestRuns.$inferSelect;
+export type NewBacktestRun = typeof backtestRuns.$inferInsert;
+export type BacktestResult = typeof backtestResults.$inferSelect;
+export type NewBacktestResult = typeof backtestResults.$inferInsert;
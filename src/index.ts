@@ -2,6 +2,7 @@ import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 import { scoreRoutes } from './routes/score';
+import { adminRoutes } from './routes/admin';
 import { startScheduler, stopScheduler, getSchedulerStatus } from './jobs/scheduler';
 import { checkDatabaseConnection, closeDatabaseConnection } from './db/client';
 
@@ -28,6 +29,7 @@ app.get('/', (c) => {
     endpoints: {
       health: '/health',
       scores: '/api/score',
+      admin: '/api/admin',
     },
   });
 });
@@ -47,6 +49,7 @@ app.get('/health', async (c) => {
 
 // API Routes
 app.route('/api/score', scoreRoutes);
+app.route('/api/admin', adminRoutes);
 
 // 404 handler
 app.notFound((c) => {
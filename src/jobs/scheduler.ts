@@ -1,12 +1,30 @@
 import { CronJob } from 'cron';
 import { memexCollector } from '../services/memex-collector';
-import { scoreCalculator } from '../services/score-calculator';
+import { momentumCalculator } from '../services/momentum-calculator';
+import { ScoreCalculator } from '../services/score-calculator';
+import { scoringConfig } from '../services/scoring-config';
+import { shadowScoring } from '../services/shadow-scoring';
+import { marketHistory } from '../services/market-history';
+import { marketSignals } from '../services/market-signals';
+import { reputationService } from '../services/reputation';
+import { botDetector } from '../services/bot-detector';
+import { duplicateDetector } from '../services/duplicate-detector';
+import { repostTracker } from '../services/repost-tracker';
+import { coMentionGraph } from '../services/co-mention-graph';
+import { tierAssigner } from '../services/tier-assigner';
+import { anomalyDetector } from '../services/anomaly-detector';
+import { tokenRegistry } from '../services/token-registry';
+import { unresolvedTokens } from '../services/unresolved-tokens';
+import { tokenBlacklist, filterBlacklistedMap } from '../services/token-blacklist';
+import { pairScorePolicy } from '../services/pair-score-policy';
 import { epochSubmitter, type TokenRanking } from '../services/epoch-submitter';
-import { graphqlClient } from '../services/graphql-client';
+import { graphqlClient, type TokenPoolData } from '../services/graphql-client';
+import { buildTokenRankings } from '../services/token-ranking';
 import { db, schema } from '../db/client';
 import { and, gte, lte, eq } from 'drizzle-orm';
 import type { Address } from 'viem';
-import type { AggregatedMetrics } from '../types/memex';
+import type { AggregatedMetrics, TokenMarketSignals } from '../types/memex';
+import type { TokenMomentum, ScoreBreakdown, ScoreInterval } from '../types/score';
 
 // =============================================================================
 // JOB INSTANCES
@@ -17,6 +35,11 @@ let epochSubmissionJob: CronJob | null = null;
 let epochCheckJob: CronJob | null = null; // Check for missing epochs periodically
 let cacheCleanupJob: CronJob | null = null;
 let hourlySnapshotJob: CronJob | null = null;
+let marketSnapshotJob: CronJob | null = null;
+let reputationRefreshJob: CronJob | null = null;
+let botDetectionJob: CronJob | null = null;
+let coMentionRefreshJob: CronJob | null = null;
+let unresolvedTokenJob: CronJob | null = null;
 let dailyAggregationJob: CronJob | null = null;
 let metricsRefreshJob: CronJob | null = null;
 let tokenImageRefreshJob: CronJob | null = null;
@@ -28,47 +51,187 @@ let tokenImageRefreshJob: CronJob | null = null;
 let backfillCompleted = false;
 let backfillInProgress = false;
 
+// Production calculator, using the strategy from SCORING_STRATEGY_VERSION plus runtime config overrides
+let scoreCalculator = new ScoreCalculator(scoringConfig.getEffectiveStrategy());
+let scoringConfigRevision = 0;
+
 // In-memory token scores
 const latestTokenScores = new Map<string, number>();
 
 // Latest metrics for snapshots
 let latestAggregatedMetrics: AggregatedMetrics[] = [];
 
+// Latest momentum per token (from snapshot history)
+let latestTokenMomentum = new Map<string, TokenMomentum>();
+
+// Latest score breakdowns per token (explains how each score was produced)
+let latestScoreBreakdowns = new Map<string, ScoreBreakdown>();
+
+// Time the latest scores were calculated at
+let latestScoredAt = 0;
+
+// Confidence intervals for the latest scores (bootstrapped on demand, see refreshScoreIntervals)
+let latestScoreIntervals = new Map<string, ScoreInterval>();
+let latestIntervalsScoredAt: number | null = null;
+
 // =============================================================================
 // SCORE COLLECTION (Every 10 seconds)
 // =============================================================================
 
+/**
+ * Reload scoring config and rebuild the calculator when it changed
+ * Lets admins tune weights, multipliers and thresholds without a restart
+ */
+async function syncScoringConfig(): Promise<void> {
+  await scoringConfig.refresh();
+
+  const strategy = scoringConfig.getEffectiveStrategy();
+  const revision = scoringConfig.getRevision();
+  if (revision === scoringConfigRevision && strategy.version === scoreCalculator.getStrategyVersion()) {
+    return;
+  }
+
+  console.log(`[Scheduler] Scoring config changed: ${scoreCalculator.getStrategyVersion()} → ${strategy.version} (revision ${revision})`);
+  scoreCalculator = new ScoreCalculator(strategy);
+  scoringConfigRevision = revision;
+}
+
 async function processScoreCollection(): Promise<void> {
   console.log('[Scheduler] Starting score collection...');
 
   try {
-    const aggregatedMetrics = await memexCollector.collectAndAggregate();
+    await syncScoringConfig();
+    await tokenBlacklist.refreshIfStale();
+
+    const aggregatedMetrics = await memexCollector.collectAndAggregate(scoreCalculator.getPostWeighting());
 
     if (aggregatedMetrics.length === 0) {
       console.log('[Scheduler] No new metrics to process');
       return;
     }
 
-    const scores = scoreCalculator.calculateBatch(aggregatedMetrics);
+    const now = Date.now();
+    await marketSignals.refreshIfStale(now);
+    marketSignals.attach(aggregatedMetrics);
 
-    for (const [tokenSymbol, score] of scores) {
+    const breakdowns = scoreCalculator.calculateBatchWithBreakdown(aggregatedMetrics, now);
+
+    // Momentum failures should never block level scores
+    let momentum = new Map<string, TokenMomentum>();
+    try {
+      momentum = await momentumCalculator.calculateBatch(aggregatedMetrics);
+    } catch (error) {
+      console.error('[Scheduler] Momentum calculation failed:', error);
+    }
+
+    await tierAssigner.refreshIfStale(now);
+
+    const scoreBreakdowns = new Map<string, ScoreBreakdown>();
+    for (const [tokenSymbol, breakdown] of breakdowns) {
       // Normalize token symbol to uppercase for consistent matching
       const normalizedSymbol = tokenSymbol.toUpperCase();
+      const momentumScore = momentum.get(normalizedSymbol)?.momentumScore ?? 0;
+      const score = scoreCalculator.applyMomentum(breakdown.normalizedScore, momentumScore);
+      breakdown.momentumScore = momentumScore;
+      breakdown.finalScore = score;
+      scoreBreakdowns.set(normalizedSymbol, breakdown);
       latestTokenScores.set(normalizedSymbol, score);
-      console.log(`[Scheduler] ${normalizedSymbol}: score=${score}, tier=${scoreCalculator.getScoreTier(score)}`);
+      console.log(
+        `[Scheduler] ${normalizedSymbol}: score=${score}, momentum=${momentumScore}, tier=${tierAssigner.getTier(score)}`
+      );
     }
 
     latestAggregatedMetrics = aggregatedMetrics;
-    console.log(`[Scheduler] Score collection complete. ${scores.size} tokens updated`);
+    latestTokenMomentum = momentum;
+    latestScoreBreakdowns = scoreBreakdowns;
+    latestScoredAt = now;
+    console.log(`[Scheduler] Score collection complete. ${breakdowns.size} tokens updated`);
+
+    const productionScores = new Map(Array.from(scoreBreakdowns.entries()).map(([symbol, b]) => [symbol, b.finalScore]));
+
+    try {
+      const anomalies = await anomalyDetector.detect(productionScores, aggregatedMetrics, now);
+      for (const anomaly of anomalies) {
+        console.warn(
+          `[Scheduler] Anomaly: ${anomaly.tokenSymbol} ${anomaly.anomalyType} magnitude=${anomaly.magnitude} ` +
+            `(${anomaly.fromTier} → ${anomaly.toTier}, score=${anomaly.metrics.score})`
+        );
+      }
+    } catch (error) {
+      console.error('[Scheduler] Anomaly detection failed:', error);
+    }
+
+    // Shadow scoring is observational only - failures never affect production scores
+    if (shadowScoring.isEnabled()) {
+      try {
+        const comparison = await shadowScoring.compare(
+          aggregatedMetrics,
+          productionScores,
+          scoreCalculator.getStrategyVersion(),
+          scoreCalculator.getPostWeighting(),
+          momentum,
+          now
+        );
+        if (comparison) {
+          console.log(
+            `[Scheduler] Shadow ${comparison.shadowVersion}: rho=${comparison.rankCorrelation ?? 'n/a'}, ` +
+              `top${comparison.productionTop.length} overlap=${comparison.topOverlap}, tier disagreements=${comparison.tierDisagreements.length}`
+          );
+        }
+      } catch (error) {
+        console.error('[Scheduler] Shadow scoring failed:', error);
+      }
+    }
   } catch (error) {
     console.error('[Scheduler] Score collection failed:', error);
   }
 }
 
+/**
+ * Bootstrap confidence intervals for the latest scores, with momentum applied to the bounds
+ * Too costly for every scoring run, so computed for the hourly snapshot and epoch ranking, once per set of scores
+ */
+function refreshScoreIntervals(): Map<string, ScoreInterval> {
+  if (latestIntervalsScoredAt === latestScoredAt) return latestScoreIntervals;
+
+  const intervals = new Map<string, ScoreInterval>();
+  const breakdowns = scoreCalculator.calculateBatchWithBreakdown(latestAggregatedMetrics, latestScoredAt, true, false);
+  for (const [tokenSymbol, breakdown] of breakdowns) {
+    if (!breakdown.interval) continue;
+    const symbol = tokenSymbol.toUpperCase();
+    const momentumScore = latestTokenMomentum.get(symbol)?.momentumScore ?? 0;
+    intervals.set(symbol, {
+      ...breakdown.interval,
+      lower: scoreCalculator.applyMomentum(breakdown.interval.lower, momentumScore),
+      upper: scoreCalculator.applyMomentum(breakdown.interval.upper, momentumScore),
+    });
+  }
+
+  latestScoreIntervals = intervals;
+  latestIntervalsScoredAt = latestScoredAt;
+  return intervals;
+}
+
 // =============================================================================
 // EPOCH SUBMISSION (Every hour)
 // =============================================================================
 
+// Score that ranks tokens for epoch submission: the point score (default), or the lower bound of its
+// confidence interval so thinly-supported tokens don't take the top 3 on noise
+const EPOCH_RANKING_SCORE: 'score' | 'lowerBound' = process.env.EPOCH_RANKING_SCORE === 'lowerBound' ? 'lowerBound' : 'score';
+
+// Hold tokens with anomalies awaiting review out of epoch submission
+const EPOCH_HOLD_ANOMALIES = process.env.EPOCH_HOLD_ANOMALIES === 'true';
+
+/**
+ * Latest scores to rank an epoch by (lower bounds when EPOCH_RANKING_SCORE=lowerBound)
+ */
+function getLatestRankingScores(): Map<string, number> {
+  if (EPOCH_RANKING_SCORE === 'score') return latestTokenScores;
+  const intervals = refreshScoreIntervals();
+  return new Map(Array.from(latestTokenScores.entries()).map(([symbol, score]) => [symbol, intervals.get(symbol)?.lower ?? score]));
+}
+
 /**
  * Calculate epoch timestamp from epoch number
  * EPOCH_DURATION = 1 hour (3600 seconds)
@@ -81,12 +244,34 @@ function getEpochStartTimestamp(epoch: bigint): Date {
 }
 
 /**
- * Get token scores for a specific epoch from snapshot
+ * Get token scores for a specific epoch, without blacklisted tokens (epoch or scoring scope)
+ * and tokens held for anomaly review (EPOCH_HOLD_ANOMALIES=true)
+ */
+async function getEpochScores(
+  epoch: bigint
+): Promise<{ scores: Map<string, number>; fromSnapshot: boolean; snapshotHour: Date | null; note: string }> {
+  await tokenBlacklist.refreshIfStale();
+  const loaded = await loadEpochScores(epoch);
+  const scores = filterBlacklistedMap(loaded.scores, 'epoch');
+  const excluded = Array.from(loaded.scores.keys()).filter((symbol) => !scores.has(symbol));
+  const result = excluded.length > 0 ? { ...loaded, scores, note: `${loaded.note}; blacklisted: ${excluded.join(', ')}` } : loaded;
+  if (!EPOCH_HOLD_ANOMALIES) return result;
+
+  const pending = await anomalyDetector.getPendingTokens();
+  const held = Array.from(result.scores.keys()).filter((symbol) => pending.has(symbol));
+  if (held.length === 0) return result;
+
+  const released = new Map(Array.from(result.scores.entries()).filter(([symbol]) => !pending.has(symbol)));
+  return { ...result, scores: released, note: `${result.note}; held for anomaly review: ${held.join(', ')}` };
+}
+
+/**
+ * Load token scores for a specific epoch from snapshot
  * Note: Snapshots are saved at :05, but epoch submission happens at :00
  * For current epoch, we use the previous epoch's snapshot (most recent available)
  * For past epochs, we use the epoch's own snapshot
  */
-async function getEpochScores(
+async function loadEpochScores(
   epoch: bigint
 ): Promise<{ scores: Map<string, number>; fromSnapshot: boolean; snapshotHour: Date | null; note: string }> {
   const epochStartTime = getEpochStartTimestamp(epoch);
@@ -114,7 +299,7 @@ async function getEpochScores(
         : `No snapshot found for epoch ${epoch}`;
 
       return {
-        scores: latestTokenScores,
+        scores: getLatestRankingScores(),
         fromSnapshot: false,
         snapshotHour: null,
         note,
@@ -123,12 +308,14 @@ async function getEpochScores(
 
     const scoreMap = new Map<string, number>();
     for (const snapshot of snapshots) {
-      scoreMap.set(snapshot.tokenSymbol.toUpperCase(), snapshot.score);
+      const score = EPOCH_RANKING_SCORE === 'lowerBound' ? snapshot.scoreLower ?? snapshot.score : snapshot.score;
+      scoreMap.set(snapshot.tokenSymbol.toUpperCase(), score);
     }
 
-    const note = isCurrentEpoch
-      ? `Using previous epoch's snapshot (epoch ${epoch - 1n}) as current epoch snapshot not yet available`
-      : `Using snapshot data from epoch ${epoch}`;
+    const note =
+      (isCurrentEpoch
+        ? `Using previous epoch's snapshot (epoch ${epoch - 1n}) as current epoch snapshot not yet available`
+        : `Using snapshot data from epoch ${epoch}`) + (EPOCH_RANKING_SCORE === 'lowerBound' ? ', ranked by score lower bound' : '');
 
     return {
       scores: scoreMap,
@@ -139,7 +326,7 @@ async function getEpochScores(
   } catch (error) {
     console.error(`[Scheduler] Failed to load snapshot for epoch ${epoch}:`, error);
     return {
-      scores: latestTokenScores,
+      scores: getLatestRankingScores(),
       fromSnapshot: false,
       snapshotHour: null,
       note: `Error loading snapshot: ${error}`,
@@ -172,133 +359,6 @@ async function validateEpochData(epoch: bigint): Promise<{ valid: boolean; warni
   return { valid: true, warnings, info };
 }
 
-/**
- * Build token rankings from GraphQL TVL data + viral scores
- * @param scoreMap Token scores map to use (from snapshot or current)
- */
-/**
- * Match a pool token with viral scores using symbol and name
- * Returns the best matching score or 0 if no match
- */
-function findTokenScore(
-  tokenData: { tokenSymbol: string; tokenName: string },
-  scoreMap: Map<string, number>
-): { score: number; matchedBy: string } {
-  const symbol = tokenData.tokenSymbol.toUpperCase();
-  const name = tokenData.tokenName.toUpperCase();
-
-  // Try symbol match first (exact)
-  const symbolScore = scoreMap.get(symbol);
-  if (symbolScore && symbolScore > 0) {
-    return { score: symbolScore, matchedBy: `symbol:${symbol}` };
-  }
-
-  // Try name match (exact)
-  const nameScore = scoreMap.get(name);
-  if (nameScore && nameScore > 0) {
-    return { score: nameScore, matchedBy: `name:${name}` };
-  }
-
-  // Try partial name match (e.g., "Memetern" matches "MEMETERN" in scores)
-  // Also check if any score key contains the name or vice versa
-  for (const [scoreKey, score] of scoreMap.entries()) {
-    if (score <= 0) continue;
-    const upperKey = scoreKey.toUpperCase();
-
-    // Check if score key matches token name (e.g., MEMETERN matches "Memetern")
-    if (upperKey === name || name.includes(upperKey) || upperKey.includes(name)) {
-      return { score, matchedBy: `name-partial:${scoreKey}→${name}` };
-    }
-  }
-
-  return { score: 0, matchedBy: 'none' };
-}
-
-async function buildTokenRankings(scoreMap: Map<string, number>): Promise<TokenRanking[]> {
-  try {
-    const memeTokensWithPools = await graphqlClient.getMemeTokensWithPools();
-
-    if (memeTokensWithPools.length === 0) {
-      console.log('[Scheduler] No meme token pools found from GraphQL');
-      return [];
-    }
-
-    const rankings: TokenRanking[] = [];
-
-    // Create sets for matching check (both symbol and name)
-    const poolIdentifiers = new Set<string>();
-    for (const t of memeTokensWithPools) {
-      poolIdentifiers.add(t.tokenSymbol.toUpperCase());
-      poolIdentifiers.add(t.tokenName.toUpperCase());
-    }
-
-    // Check for top scored tokens that don't have pools
-    const topScoredTokens = Array.from(scoreMap.entries())
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 10);
-
-    const tokensWithoutPools: string[] = [];
-    for (const [symbol, score] of topScoredTokens) {
-      if (!poolIdentifiers.has(symbol.toUpperCase()) && score > 0) {
-        tokensWithoutPools.push(`${symbol}(${score})`);
-      }
-    }
-
-    if (tokensWithoutPools.length > 0) {
-      console.warn(`[Scheduler] ⚠️  Top tokens WITHOUT pools: ${tokensWithoutPools.join(', ')}`);
-      console.warn(`[Scheduler]    These tokens have high scores but no LBPair with quote token`);
-    }
-
-    for (const tokenData of memeTokensWithPools) {
-      // Try to match by symbol first, then by name
-      const { score, matchedBy } = findTokenScore(tokenData, scoreMap);
-
-      if (score <= 0) {
-        continue;
-      }
-
-      // binSteps already sorted by TVL (highest first) from GraphQL
-      const binSteps = tokenData.pools.map((p) => p.binStep);
-
-      rankings.push({
-        tokenAddress: tokenData.tokenAddress,
-        quoteTokenAddress: tokenData.quoteTokenAddress,
-        score,
-        binSteps,
-      });
-
-      console.log(
-        `[Scheduler] ${tokenData.tokenSymbol} (${tokenData.tokenName}): score=${score} [${matchedBy}], ` +
-          `TVL=$${tokenData.totalTvlUSD.toFixed(2)}, binSteps=[${tokenData.pools
-            .map((p) => `${p.binStep}($${p.tvlUSD.toFixed(2)})`)
-            .join(', ')}]`
-      );
-    }
-
-    // Sort by viral score (highest first)
-    rankings.sort((a, b) => b.score - a.score);
-    console.log(`[Scheduler] Built ${rankings.length} token rankings from ${memeTokensWithPools.length} pools`);
-
-    // Show which tokens will be submitted
-    if (rankings.length > 0) {
-      console.log(`[Scheduler] Top 3 tokens for epoch submission:`);
-      rankings.slice(0, 3).forEach((r, i) => {
-        const tokenData = memeTokensWithPools.find((t) => t.tokenAddress.toLowerCase() === r.tokenAddress.toLowerCase());
-        console.log(
-          `  ${i + 1}. ${tokenData?.tokenSymbol || 'Unknown'} (${tokenData?.tokenName || '?'}): score=${
-            r.score
-          }, binSteps=[${r.binSteps.join(',')}]`
-        );
-      });
-    }
-
-    return rankings;
-  } catch (error) {
-    console.error('[Scheduler] Failed to build token rankings:', error);
-    return [];
-  }
-}
-
 async function processEpochSubmission(): Promise<void> {
   console.log('[Scheduler] ========================================');
   console.log('[Scheduler] Starting epoch submission...');
@@ -495,6 +555,9 @@ async function processCacheCleanup(): Promise<void> {
       }
       console.log('[Scheduler] Cache cleanup: trimmed to top 100 tokens');
     }
+
+    duplicateDetector.prune();
+    repostTracker.prune();
   } catch (error) {
     console.error('[Scheduler] Cache cleanup failed:', error);
   }
@@ -515,12 +578,34 @@ async function processMetricsRefresh(): Promise<void> {
 }
 
 // =============================================================================
-// TOKEN IMAGE REFRESH (Every 10 minutes)
+// TOKEN REGISTRY & IMAGE REFRESH (Every 10 minutes)
 // =============================================================================
 
+/**
+ * Register new tokens from the leaderboard and indexer, then refresh the image cache
+ * from the same leaderboard response (the registry is still seeded when the indexer is down)
+ */
+async function refreshTokenRegistryAndImages(): Promise<number> {
+  const leaderboard = await memexCollector.fetchLeaderboard({ limit: 500 });
+
+  let pools: TokenPoolData[] = [];
+  try {
+    pools = await graphqlClient.getMemeTokensWithPools();
+  } catch (error) {
+    console.error('[Scheduler] Failed to fetch pools for token registry:', error);
+  }
+
+  const { tokens, added } = await tokenRegistry.seed(leaderboard?.data ?? [], pools);
+  if (added > 0) {
+    console.log(`[Scheduler] Token registry: ${added} new tokens (${tokens} seen)`);
+  }
+
+  return memexCollector.refreshTokenImageCache(leaderboard);
+}
+
 async function processTokenImageRefresh(): Promise<void> {
   try {
-    const count = await memexCollector.refreshTokenImageCache();
+    const count = await refreshTokenRegistryAndImages();
     console.log(`[Scheduler] Token image refresh: ${count} tokens cached`);
   } catch (error) {
     console.error('[Scheduler] Token image refresh failed:', error);
@@ -541,6 +626,8 @@ async function processHourlySnapshot(): Promise<void> {
     const snapshotHour = new Date();
     snapshotHour.setMinutes(0, 0, 0);
 
+    const intervals = refreshScoreIntervals();
+
     const metricsMap = new Map<string, AggregatedMetrics>();
     for (const m of latestAggregatedMetrics) {
       // Normalize token symbol to uppercase for consistent matching
@@ -549,16 +636,27 @@ async function processHourlySnapshot(): Promise<void> {
 
     const snapshots = Array.from(latestTokenScores.entries()).map(([tokenSymbol, score]) => {
       const metrics = metricsMap.get(tokenSymbol);
+      const breakdown = latestScoreBreakdowns.get(tokenSymbol);
+      const interval = intervals.get(tokenSymbol) ?? null;
       return {
         tokenSymbol,
+        tokenAddress: tokenRegistry.getBySymbol(tokenSymbol)?.address ?? null,
         score,
+        scoreLower: interval?.lower ?? null,
+        scoreUpper: interval?.upper ?? null,
         snapshotHour,
-        rawPosts: metrics?.posts ?? 0,
-        rawViews: metrics?.views ?? 0,
-        rawLikes: metrics?.likes ?? 0,
-        rawReposts: metrics?.reposts ?? 0,
-        rawReplies: metrics?.replies ?? 0,
-        rawUniqueUsers: metrics?.uniqueUserCount ?? 0,
+        momentumScore: latestTokenMomentum.get(tokenSymbol)?.momentumScore ?? 0,
+        strategyVersion: scoreCalculator.getStrategyVersion(),
+        // Mode the score was actually produced with (small populations fall back to absolute)
+        normalizationMode: breakdown?.normalizationMode ?? scoreCalculator.getNormalizationMode(),
+        scoreBreakdown: breakdown ? JSON.stringify({ ...breakdown, interval }) : null,
+        // Flagged posts and users count fractionally, so round for the integer columns
+        rawPosts: Math.round(metrics?.posts ?? 0),
+        rawViews: Math.round(metrics?.views ?? 0),
+        rawLikes: Math.round(metrics?.likes ?? 0),
+        rawReposts: Math.round(metrics?.reposts ?? 0),
+        rawReplies: Math.round(metrics?.replies ?? 0),
+        rawUniqueUsers: Math.round(metrics?.uniqueUserCount ?? 0),
         avgBondingCurve: metrics?.avgBondingCurveProgress ?? 0,
         graduatedRatio: metrics?.graduatedPostRatio ?? 0,
         imageRatio: metrics?.imagePostRatio ?? 0,
@@ -572,7 +670,14 @@ async function processHourlySnapshot(): Promise<void> {
         .onConflictDoUpdate({
           target: [schema.tokenScoreSnapshots.tokenSymbol, schema.tokenScoreSnapshots.snapshotHour],
           set: {
+            tokenAddress: snapshot.tokenAddress,
             score: snapshot.score,
+            scoreLower: snapshot.scoreLower,
+            scoreUpper: snapshot.scoreUpper,
+            momentumScore: snapshot.momentumScore,
+            strategyVersion: snapshot.strategyVersion,
+            normalizationMode: snapshot.normalizationMode,
+            scoreBreakdown: snapshot.scoreBreakdown,
             rawPosts: snapshot.rawPosts,
             rawViews: snapshot.rawViews,
             rawLikes: snapshot.rawLikes,
@@ -587,11 +692,97 @@ async function processHourlySnapshot(): Promise<void> {
     }
 
     console.log(`[Scheduler] Hourly snapshot: ${snapshots.length} tokens at ${snapshotHour.toISOString()}`);
+
+    try {
+      const pools = await pairScorePolicy.recordPoolScores(filterBlacklistedMap(latestTokenScores), snapshotHour.getTime());
+      console.log(`[Scheduler] Pair scores recorded for ${pools} pools`);
+    } catch (error) {
+      console.error('[Scheduler] Failed to record pair scores:', error);
+    }
+
+    // Only tokens scored in the latest run (latestTokenScores keeps tokens that went quiet)
+    const currentScores = new Map(Array.from(latestScoreBreakdowns.entries()).map(([symbol, b]) => [symbol, b.finalScore]));
+    try {
+      const tierChanges = await tierAssigner.recordChanges(currentScores, snapshotHour.getTime());
+      for (const change of tierChanges) {
+        console.log(
+          `[Scheduler] Tier change: ${change.tokenSymbol} ${change.fromTier ?? 'NEW'} → ${change.toTier ?? 'UNSCORED'} (score=${change.score})`
+        );
+      }
+    } catch (error) {
+      console.error('[Scheduler] Failed to record tier changes:', error);
+    }
   } catch (error) {
     console.error('[Scheduler] Hourly snapshot failed:', error);
   }
 }
 
+/**
+ * Record hourly market outcomes (TVL, volume, holders) per token
+ * Used to fit scoring weights against what happened after each score
+ */
+async function processMarketSnapshot(): Promise<void> {
+  try {
+    const snapshotHour = new Date();
+    snapshotHour.setMinutes(0, 0, 0);
+    const count = await marketHistory.captureSnapshot(snapshotHour);
+    console.log(`[Scheduler] Market snapshot: ${count} tokens at ${snapshotHour.toISOString()}`);
+  } catch (error) {
+    console.error('[Scheduler] Market snapshot failed:', error);
+  }
+}
+
+/**
+ * Rebuild author reputations from the last 30 days of posts and score snapshots
+ * Runs after the hourly snapshot so the latest hour counts toward call success
+ */
+async function processReputationRefresh(): Promise<void> {
+  try {
+    const count = await reputationService.recompute();
+    console.log(`[Scheduler] Reputation refresh: ${count} authors`);
+  } catch (error) {
+    console.error('[Scheduler] Reputation refresh failed:', error);
+  }
+}
+
+/**
+ * Flag bot-like users and coordinated bursts so aggregation can exclude or down-weight them
+ */
+async function processBotDetection(): Promise<void> {
+  try {
+    const result = await botDetector.scan();
+    console.log(
+      `[Scheduler] Bot detection: ${result.flaggedUsers} users flagged (${result.excludedUsers} excluded), ${result.flaggedPosts} burst posts`
+    );
+  } catch (error) {
+    console.error('[Scheduler] Bot detection failed:', error);
+  }
+}
+
+/**
+ * Rebuild recent hours of the token co-mention graph
+ */
+async function processCoMentionRefresh(): Promise<void> {
+  try {
+    await coMentionGraph.refresh();
+  } catch (error) {
+    console.error('[Scheduler] Co-mention graph refresh failed:', error);
+  }
+}
+
+// =============================================================================
+// UNRESOLVED TOKEN REFRESH (Every 10 minutes)
+// =============================================================================
+
+async function processUnresolvedTokenRefresh(): Promise<void> {
+  try {
+    const count = await unresolvedTokens.refresh();
+    console.log(`[Scheduler] Unresolved token refresh: ${count} unresolved references`);
+  } catch (error) {
+    console.error('[Scheduler] Unresolved token refresh failed:', error);
+  }
+}
+
 // =============================================================================
 // DAILY AGGREGATION
 // =============================================================================
@@ -616,6 +807,8 @@ async function processDailyAggregation(): Promise<void> {
       string,
       {
         scores: number[];
+        strategyVersion: string;
+        latestSnapshotHour: Date;
         totalPosts: number;
         totalViews: number;
         totalLikes: number;
@@ -626,6 +819,8 @@ async function processDailyAggregation(): Promise<void> {
     for (const snapshot of hourlySnapshots) {
       const existing = tokenDailyStats.get(snapshot.tokenSymbol) || {
         scores: [],
+        strategyVersion: snapshot.strategyVersion,
+        latestSnapshotHour: snapshot.snapshotHour,
         totalPosts: 0,
         totalViews: 0,
         totalLikes: 0,
@@ -633,6 +828,10 @@ async function processDailyAggregation(): Promise<void> {
       };
 
       existing.scores.push(snapshot.score);
+      if (snapshot.snapshotHour >= existing.latestSnapshotHour) {
+        existing.strategyVersion = snapshot.strategyVersion;
+        existing.latestSnapshotHour = snapshot.snapshotHour;
+      }
       existing.totalPosts = Math.max(existing.totalPosts, snapshot.rawPosts ?? 0);
       existing.totalViews = Math.max(existing.totalViews, snapshot.rawViews ?? 0);
       existing.totalLikes = Math.max(existing.totalLikes, snapshot.rawLikes ?? 0);
@@ -654,6 +853,7 @@ async function processDailyAggregation(): Promise<void> {
           maxScore,
           minScore,
           snapshotDate: yesterday,
+          strategyVersion: stats.strategyVersion,
           totalPosts: stats.totalPosts,
           totalViews: stats.totalViews,
           totalLikes: stats.totalLikes,
@@ -665,6 +865,7 @@ async function processDailyAggregation(): Promise<void> {
             avgScore,
             maxScore,
             minScore,
+            strategyVersion: stats.strategyVersion,
             totalPosts: stats.totalPosts,
             totalViews: stats.totalViews,
             totalLikes: stats.totalLikes,
@@ -696,6 +897,9 @@ async function performInitialBackfill(): Promise<void> {
     console.log(`[Scheduler] Backfill complete: ${result.totalPosts} posts, ${result.uniqueTokens} tokens`);
     backfillCompleted = true;
 
+    // Backfilled posts reach back past the hours a routine refresh rebuilds
+    await coMentionGraph.refresh(true).catch((error) => console.error('[Scheduler] Co-mention graph rebuild failed:', error));
+
     await processScoreCollection();
   } catch (error) {
     console.error('[Scheduler] Backfill failed:', error);
@@ -726,16 +930,31 @@ export function startScheduler(): void {
   // Metrics refresh - every 5 minutes
   metricsRefreshJob = new CronJob('*/5 * * * *', processMetricsRefresh, null, true, 'UTC');
 
-  // Token image refresh - every 10 minutes
+  // Token registry seeding + image refresh - every 10 minutes
   tokenImageRefreshJob = new CronJob('*/10 * * * *', processTokenImageRefresh, null, true, 'UTC');
 
   // Hourly snapshot - every hour at :05
   hourlySnapshotJob = new CronJob('5 * * * *', processHourlySnapshot, null, true, 'UTC');
 
+  // Market snapshot - every hour at :05 (TVL, volume, holders for weight fitting)
+  marketSnapshotJob = new CronJob('5 * * * *', processMarketSnapshot, null, true, 'UTC');
+
+  // Reputation refresh - every hour at :15
+  reputationRefreshJob = new CronJob('15 * * * *', processReputationRefresh, null, true, 'UTC');
+
+  // Bot detection - every 15 minutes
+  botDetectionJob = new CronJob('*/15 * * * *', processBotDetection, null, true, 'UTC');
+
+  // Co-mention graph refresh - every 10 minutes
+  coMentionRefreshJob = new CronJob('*/10 * * * *', processCoMentionRefresh, null, true, 'UTC');
+
+  // Unresolved token refresh - every 10 minutes (offset from registry seeding)
+  unresolvedTokenJob = new CronJob('5-55/10 * * * *', processUnresolvedTokenRefresh, null, true, 'UTC');
+
   // Daily aggregation - every day at 00:10 UTC
   dailyAggregationJob = new CronJob('10 0 * * *', processDailyAggregation, null, true, 'UTC');
 
-  // Initial token image load
+  // Initial token registry seeding + image load
   processTokenImageRefresh().catch(console.error);
 
   console.log('[Scheduler] Jobs started:');
@@ -743,8 +962,13 @@ export function startScheduler(): void {
   console.log('  - Epoch submission: every hour at :00');
   console.log('  - Epoch check: every 5 minutes (validate data availability)');
   console.log('  - Metrics refresh: every 5 minutes');
-  console.log('  - Token image refresh: every 10 minutes');
+  console.log('  - Token registry & image refresh: every 10 minutes');
   console.log('  - Hourly snapshot: every hour at :05');
+  console.log('  - Market snapshot: every hour at :05');
+  console.log('  - Reputation refresh: every hour at :15');
+  console.log('  - Bot detection: every 15 minutes');
+  console.log('  - Co-mention graph refresh: every 10 minutes');
+  console.log('  - Unresolved token refresh: every 10 minutes');
   console.log('  - Daily aggregation: every day at 00:10 UTC');
 
   // Check for missing epochs on startup
@@ -763,6 +987,11 @@ export function stopScheduler(): void {
   metricsRefreshJob?.stop();
   tokenImageRefreshJob?.stop();
   hourlySnapshotJob?.stop();
+  marketSnapshotJob?.stop();
+  reputationRefreshJob?.stop();
+  botDetectionJob?.stop();
+  coMentionRefreshJob?.stop();
+  unresolvedTokenJob?.stop();
   dailyAggregationJob?.stop();
   console.log('[Scheduler] All jobs stopped');
 }
@@ -790,10 +1019,16 @@ export function getSchedulerStatus() {
     tokenImageRefresh: tokenImageRefreshJob?.running ?? false,
     cacheCleanup: cacheCleanupJob?.running ?? false,
     hourlySnapshot: hourlySnapshotJob?.running ?? false,
+    marketSnapshot: marketSnapshotJob?.running ?? false,
+    reputationRefresh: reputationRefreshJob?.running ?? false,
+    botDetection: botDetectionJob?.running ?? false,
+    coMentionRefresh: coMentionRefreshJob?.running ?? false,
+    unresolvedTokenRefresh: unresolvedTokenJob?.running ?? false,
     dailyAggregation: dailyAggregationJob?.running ?? false,
     backfillCompleted,
     backfillInProgress,
     tokenScoresCount: latestTokenScores.size,
+    scoringStrategyVersion: scoreCalculator.getStrategyVersion(),
     tokenImageCacheCount: imageCacheStatus.count,
     epochSubmitter: {
       ready: epochSubmitter.isReady(),
@@ -806,9 +1041,121 @@ export function getLatestTokenScores(): Map<string, number> {
   return new Map(latestTokenScores);
 }
 
+export function getLatestTokenMomentum(): Map<string, TokenMomentum> {
+  return new Map(latestTokenMomentum);
+}
+
+/**
+ * Get the latest per-token sentiment aggregate (average post sentiment and negative-post share)
+ */
+export function getLatestTokenSentiment(): Map<string, { avgSentiment: number; negativePostRatio: number }> {
+  return new Map(
+    latestAggregatedMetrics.map((m) => [
+      m.tokenSymbol.toUpperCase(),
+      { avgSentiment: Math.round(m.avgSentiment * 1000) / 1000, negativePostRatio: Math.round(m.negativePostRatio * 1000) / 1000 },
+    ])
+  );
+}
+
+/**
+ * Get the latest per-token near-duplicate cluster sizes (only tokens with at least one cluster)
+ */
+export function getLatestTokenDuplicates(): Map<string, number[]> {
+  return new Map(
+    latestAggregatedMetrics
+      .filter((m) => m.duplicateClusterSizes.length > 0)
+      .map((m) => [m.tokenSymbol.toUpperCase(), m.duplicateClusterSizes])
+  );
+}
+
+/**
+ * Get the latest per-token conversation stats (reply graph depth/breadth and credited replies)
+ */
+export function getLatestTokenConversations(): Map<
+  string,
+  { conversations: number; avgDepth: number; maxDepth: number; avgBreadth: number; creditedReplies: number }
+> {
+  return new Map(
+    latestAggregatedMetrics.map((m) => [
+      m.tokenSymbol.toUpperCase(),
+      {
+        conversations: m.conversationCount,
+        avgDepth: Math.round(m.avgConversationDepth * 100) / 100,
+        maxDepth: m.maxConversationDepth,
+        avgBreadth: Math.round(m.avgConversationBreadth * 100) / 100,
+        creditedReplies: m.creditedReplies,
+      },
+    ])
+  );
+}
+
+/**
+ * Get the latest per-token score confidence intervals (as of the last hourly snapshot or epoch ranking)
+ */
+export function getLatestScoreIntervals(): Map<string, ScoreInterval> {
+  return new Map(latestScoreIntervals);
+}
+
+/**
+ * Get the latest per-token repost amplification (distinct reposters and reputation-weighted reach)
+ */
+export function getLatestTokenAmplification(): Map<string, { reposters: number; reach: number }> {
+  return new Map(
+    latestAggregatedMetrics
+      .filter((m) => m.distinctReposters > 0)
+      .map((m) => [
+        m.tokenSymbol.toUpperCase(),
+        { reposters: m.distinctReposters, reach: Math.round(m.amplificationReach * 100) / 100 },
+      ])
+  );
+}
+
+/**
+ * Get the latest per-token market signals joined from the Memex leaderboard
+ */
+export function getLatestTokenMarket(): Map<string, TokenMarketSignals> {
+  return new Map(
+    latestAggregatedMetrics.filter((m) => m.market !== null).map((m) => [m.tokenSymbol.toUpperCase(), m.market!])
+  );
+}
+
+/**
+ * Get the latest per-token first-seen time and age (from the aggregation window)
+ */
+export function getLatestTokenAges(now: number = Date.now()): Map<string, { firstSeenAt: string; ageHours: number }> {
+  return new Map(
+    latestAggregatedMetrics.map((m) => [
+      m.tokenSymbol.toUpperCase(),
+      { firstSeenAt: m.firstSeenAt.toISOString(), ageHours: Math.round(((now - m.firstSeenAt.getTime()) / (60 * 60 * 1000)) * 10) / 10 },
+    ])
+  );
+}
+
+export function getLatestScoreBreakdown(tokenSymbol: string): ScoreBreakdown | null {
+  return latestScoreBreakdowns.get(tokenSymbol.toUpperCase()) ?? null;
+}
+
+/**
+ * Get the persisted score breakdown for a token from an hourly snapshot
+ */
+export async function getSnapshotScoreBreakdown(tokenSymbol: string, snapshotHour: Date): Promise<ScoreBreakdown | null> {
+  const hour = new Date(snapshotHour);
+  hour.setMinutes(0, 0, 0);
+
+  const snapshot = await db.query.tokenScoreSnapshots.findFirst({
+    where: and(eq(schema.tokenScoreSnapshots.tokenSymbol, tokenSymbol.toUpperCase()), eq(schema.tokenScoreSnapshots.snapshotHour, hour)),
+  });
+
+  return snapshot?.scoreBreakdown ? (JSON.parse(snapshot.scoreBreakdown) as ScoreBreakdown) : null;
+}
+
+export function getActiveScoringStrategy() {
+  return scoreCalculator.getStrategy();
+}
+
 export async function triggerTokenImageRefresh(): Promise<{ status: string; count: number }> {
   try {
-    const count = await memexCollector.refreshTokenImageCache();
+    const count = await refreshTokenRegistryAndImages();
     return { status: 'success', count };
   } catch (error) {
     console.error('[Scheduler] Token image refresh failed:', error);
@@ -0,0 +1,48 @@
+import { createMiddleware } from 'hono/factory';
+
+/**
+ * Admin API authentication
+ *
+ * Admins are configured with ADMIN_API_KEYS as comma-separated name:token pairs
+ * (e.g. "alice:s3cret,bob:t0ken"). Requests must send "Authorization: Bearer <token>".
+ * The matching admin name is stored as `adminUser` for audit records.
+ */
+
+export type AdminEnv = {
+  Variables: {
+    adminUser: string;
+  };
+};
+
+function loadAdminKeys(): Map<string, string> {
+  const keys = new Map<string, string>(); // token → admin name
+  for (const entry of (process.env.ADMIN_API_KEYS || '').split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) continue;
+    const name = entry.slice(0, separator).trim();
+    const token = entry.slice(separator + 1).trim();
+    if (name && token) {
+      keys.set(token, name);
+    }
+  }
+  return keys;
+}
+
+const ADMIN_KEYS = loadAdminKeys();
+
+if (ADMIN_KEYS.size === 0) {
+  console.warn('[AdminAuth] ADMIN_API_KEYS not set - admin endpoints disabled');
+}
+
+export const adminAuth = createMiddleware<AdminEnv>(async (c, next) => {
+  const header = c.req.header('Authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  const adminUser = token ? ADMIN_KEYS.get(token) : undefined;
+
+  if (!adminUser) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  c.set('adminUser', adminUser);
+  await next();
+});
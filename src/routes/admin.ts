@@ -0,0 +1,559 @@
+import { Hono } from 'hono';
+import { adminAuth, type AdminEnv } from '../middleware/admin-auth';
+import { scoringConfig, type ScoringConfigUpdate } from '../services/scoring-config';
+import { backtestEngine } from '../services/backtest-engine';
+import { botDetector } from '../services/bot-detector';
+import { anomalyDetector } from '../services/anomaly-detector';
+import { unresolvedTokens } from '../services/unresolved-tokens';
+import { tokenBlacklist, isBlacklistScope, BLACKLIST_SCOPES, type BlacklistEntryInput } from '../services/token-blacklist';
+import { pairScorePolicy, isPairScorePolicy } from '../services/pair-score-policy';
+import { PAIR_SCORE_POLICIES } from '../services/score-calculator';
+import { getActiveScoringStrategy } from '../jobs/scheduler';
+import type { ScoringConfigOverrides } from '../types/score';
+
+export const adminRoutes = new Hono<AdminEnv>();
+
+adminRoutes.use('*', adminAuth);
+
+// =============================================================================
+// SCORING CONFIG ENDPOINTS
+// =============================================================================
+
+/**
+ * GET /api/admin/scoring-config
+ * Get runtime scoring overrides and the effective strategy
+ */
+adminRoutes.get('/scoring-config', async (c) => {
+  try {
+    await scoringConfig.refresh();
+    const config = scoringConfig.getConfig();
+
+    return c.json({
+      revision: config.revision,
+      updatedBy: config.updatedBy,
+      updatedAt: config.updatedAt?.toISOString() ?? null,
+      strategyVersion: config.strategyVersion,
+      overrides: config.overrides,
+      effective: scoringConfig.getEffectiveValues(),
+      activeStrategyVersion: getActiveScoringStrategy().version,
+    });
+  } catch (error) {
+    console.error('[AdminRoute] Error getting scoring config:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * PUT /api/admin/scoring-config
+ * Update scoring overrides (partial merge; null clears a group)
+ * Body: { strategyVersion?, weights?, multipliers?, thresholds?, reason? }
+ */
+adminRoutes.put('/scoring-config', async (c) => {
+  let update: ScoringConfigUpdate;
+  try {
+    update = await c.req.json<ScoringConfigUpdate>();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  if (typeof update !== 'object' || update === null || Array.isArray(update)) {
+    return c.json({ error: 'Body must be a JSON object' }, 400);
+  }
+
+  const validation = scoringConfig.validate(update);
+  if (!validation.valid) {
+    return c.json({ error: 'Invalid scoring config', details: validation.errors }, 400);
+  }
+
+  try {
+    const result = await scoringConfig.update(update, c.get('adminUser'));
+    return c.json({ status: 'success', ...result });
+  } catch (error) {
+    console.error('[AdminRoute] Error updating scoring config:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * GET /api/admin/scoring-config/audit
+ * Get the history of scoring config changes (who, when, before/after)
+ */
+adminRoutes.get('/scoring-config/audit', async (c) => {
+  const limit = parseInt(c.req.query('limit') || '50');
+
+  try {
+    const audit = await scoringConfig.getAuditTrail(Math.min(limit, 500));
+    return c.json({
+      count: audit.length,
+      audit: audit.map((entry) => ({ ...entry, createdAt: entry.createdAt.toISOString() })),
+    });
+  } catch (error) {
+    console.error('[AdminRoute] Error getting scoring config audit:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// =============================================================================
+// BACKTEST ENDPOINTS
+// =============================================================================
+
+/**
+ * POST /api/admin/backtests
+ * Start a historical replay (runs in the background; poll GET /backtests/:id)
+ * Body: { from, to, strategyVersion?, weights?, multipliers?, thresholds? }
+ */
+adminRoutes.post('/backtests', async (c) => {
+  let body: {
+    from?: string;
+    to?: string;
+    strategyVersion?: string;
+  } & ScoringConfigOverrides;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const request = {
+    from: new Date(body.from ?? ''),
+    to: new Date(body.to ?? ''),
+    strategyVersion: body.strategyVersion ?? getActiveScoringStrategy().version.split('@')[0],
+    overrides: { weights: body.weights, multipliers: body.multipliers, thresholds: body.thresholds },
+  };
+
+  const errors = backtestEngine.validate(request);
+  if (errors.length > 0) {
+    return c.json({ error: 'Invalid backtest request', details: errors }, 400);
+  }
+
+  try {
+    const runId = await backtestEngine.createRun(request, c.get('adminUser'));
+    backtestEngine.execute(runId, request);
+
+    return c.json({ status: 'running', runId }, 202);
+  } catch (error) {
+    console.error('[AdminRoute] Error starting backtest:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * GET /api/admin/backtests
+ * List recent backtest runs
+ */
+adminRoutes.get('/backtests', async (c) => {
+  const limit = parseInt(c.req.query('limit') || '20');
+
+  try {
+    const runs = await backtestEngine.listRuns(Math.min(limit, 100));
+    return c.json({ count: runs.length, runs });
+  } catch (error) {
+    console.error('[AdminRoute] Error listing backtests:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * GET /api/admin/backtests/:id
+ * Get a backtest run with per-hour scores, tiers, viral pairs and production comparison
+ */
+adminRoutes.get('/backtests/:id', async (c) => {
+  const runId = parseInt(c.req.param('id'));
+  if (isNaN(runId)) {
+    return c.json({ error: 'Invalid run id' }, 400);
+  }
+
+  try {
+    const report = await backtestEngine.getRun(runId);
+    if (!report) {
+      return c.json({ error: 'Backtest run not found' }, 404);
+    }
+    return c.json(report);
+  } catch (error) {
+    console.error('[AdminRoute] Error getting backtest:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// =============================================================================
+// PAIR SCORE POLICY ENDPOINTS
+// =============================================================================
+
+/**
+ * GET /api/admin/pair-policies
+ * Get the global pair score policy and per-pool overrides
+ */
+adminRoutes.get('/pair-policies', async (c) => {
+  try {
+    await pairScorePolicy.refresh();
+    return c.json({
+      globalPolicy: pairScorePolicy.getGlobalPolicy(),
+      policies: PAIR_SCORE_POLICIES,
+      poolPolicies: pairScorePolicy.getPoolPolicies(),
+    });
+  } catch (error) {
+    console.error('[AdminRoute] Error getting pair policies:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * PUT /api/admin/pair-policies
+ * Set a registered pool's pair score policy (policy: null clears the override)
+ * Body: { poolId: "0x…" (pair_pools pool id), policy: "average" | "minimum" | "geometricMean" | "tvlWeighted" | "coMention" | null }
+ */
+adminRoutes.put('/pair-policies', async (c) => {
+  let body: { poolId?: unknown; policy?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  if (typeof body.poolId !== 'string') {
+    return c.json({ error: 'poolId is required' }, 400);
+  }
+  if (body.policy !== null && !isPairScorePolicy(body.policy)) {
+    return c.json({ error: `policy must be one of: ${PAIR_SCORE_POLICIES.join(', ')} (or null to clear)` }, 400);
+  }
+
+  let poolId: string;
+  try {
+    poolId = pairScorePolicy.normalizePoolId(body.poolId);
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Invalid poolId' }, 400);
+  }
+
+  try {
+    if (body.policy === null) {
+      const cleared = await pairScorePolicy.clearPoolPolicy(poolId, c.get('adminUser'));
+      return c.json({ poolId, policy: pairScorePolicy.getGlobalPolicy(), override: false, cleared });
+    }
+
+    const override = await pairScorePolicy.setPoolPolicy(poolId, body.policy, c.get('adminUser'));
+    if (!override) {
+      return c.json({ error: 'Pool not registered', poolId }, 404);
+    }
+    return c.json({ ...override, override: true });
+  } catch (error) {
+    console.error('[AdminRoute] Error updating pair policy:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// =============================================================================
+// BOT DETECTION ENDPOINTS
+// =============================================================================
+
+/**
+ * GET /api/admin/bot-flags
+ * List flagged users with reason codes, flagged post counts and the last scan summary
+ */
+adminRoutes.get('/bot-flags', async (c) => {
+  const limit = parseInt(c.req.query('limit') || '100');
+
+  try {
+    const [users, flaggedPosts] = await Promise.all([
+      botDetector.listFlaggedUsers(Math.min(limit, 500)),
+      botDetector.countFlaggedPosts(),
+    ]);
+
+    return c.json({
+      count: users.length,
+      users,
+      flaggedPosts,
+      lastScan: botDetector.getLastScan(),
+    });
+  } catch (error) {
+    console.error('[AdminRoute] Error listing bot flags:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * GET /api/admin/bot-flags/:userId
+ * Get a single user's bot flags
+ */
+adminRoutes.get('/bot-flags/:userId', async (c) => {
+  const userId = parseInt(c.req.param('userId'));
+  if (isNaN(userId)) {
+    return c.json({ error: 'Invalid userId' }, 400);
+  }
+
+  try {
+    const flags = await botDetector.getUserFlags(userId);
+    if (!flags) {
+      return c.json({ error: 'User is not flagged', userId }, 404);
+    }
+    return c.json(flags);
+  } catch (error) {
+    console.error('[AdminRoute] Error getting bot flags:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * POST /api/admin/bot-flags/scan
+ * Run bot detection now (normally every 15 minutes)
+ */
+adminRoutes.post('/bot-flags/scan', async (c) => {
+  try {
+    const result = await botDetector.scan();
+    console.log(`[AdminRoute] Bot scan triggered by ${c.get('adminUser')}: ${result.flaggedUsers} users flagged`);
+    return c.json(result);
+  } catch (error) {
+    console.error('[AdminRoute] Error running bot scan:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// =============================================================================
+// ANOMALY REVIEW ENDPOINTS
+// =============================================================================
+
+/**
+ * POST /api/admin/anomalies/:id/review
+ * Review a score anomaly (releases the token's epoch hold once none of its anomalies are pending)
+ * Body: { status: "dismissed" | "confirmed", note? }
+ */
+adminRoutes.post('/anomalies/:id/review', async (c) => {
+  const id = parseInt(c.req.param('id'));
+  if (isNaN(id)) {
+    return c.json({ error: 'Invalid anomaly id' }, 400);
+  }
+
+  let body: { status?: unknown; note?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  if (body.status !== 'dismissed' && body.status !== 'confirmed') {
+    return c.json({ error: 'status must be one of: dismissed, confirmed' }, 400);
+  }
+  if (body.note !== undefined && typeof body.note !== 'string') {
+    return c.json({ error: 'note must be a string' }, 400);
+  }
+
+  try {
+    const anomaly = await anomalyDetector.review(id, body.status, c.get('adminUser'), body.note ?? null);
+    if (!anomaly) {
+      return c.json({ error: 'Anomaly not found', id }, 404);
+    }
+    return c.json({ ...anomaly, metrics: JSON.parse(anomaly.metrics) });
+  } catch (error) {
+    console.error('[AdminRoute] Error reviewing anomaly:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// =============================================================================
+// TOKEN BLACKLIST ENDPOINTS
+// =============================================================================
+
+/**
+ * Parse an optional expiry: undefined (not given), null (never expires) or a future ISO timestamp
+ */
+function parseExpiresAt(value: unknown): { expiresAt?: Date | null; error?: string } {
+  if (value === undefined || value === null) return { expiresAt: value };
+  const expiresAt = typeof value === 'string' ? new Date(value) : null;
+  if (!expiresAt || isNaN(expiresAt.getTime())) {
+    return { error: 'expiresAt must be an ISO timestamp or null' };
+  }
+  if (expiresAt.getTime() <= Date.now()) {
+    return { error: 'expiresAt must be in the future' };
+  }
+  return { expiresAt };
+}
+
+/**
+ * GET /api/admin/blacklist
+ * List blacklist entries (active first; expired entries are kept with active: false)
+ */
+adminRoutes.get('/blacklist', async (c) => {
+  try {
+    await tokenBlacklist.refresh();
+    const entries = tokenBlacklist.getEntries();
+    return c.json({ scopes: BLACKLIST_SCOPES, count: entries.length, entries });
+  } catch (error) {
+    console.error('[AdminRoute] Error listing blacklist:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * POST /api/admin/blacklist
+ * Blacklist a token (ticker, name or any registered reference; stored under its canonical symbol)
+ * Body: { tokenSymbol, scope: "leaderboard" | "scoring" | "epoch", reason, expiresAt?: ISO timestamp | null }
+ */
+adminRoutes.post('/blacklist', async (c) => {
+  let body: { tokenSymbol?: unknown; scope?: unknown; reason?: unknown; expiresAt?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  if (typeof body.tokenSymbol !== 'string' || body.tokenSymbol.trim() === '') {
+    return c.json({ error: 'tokenSymbol is required' }, 400);
+  }
+  if (!isBlacklistScope(body.scope)) {
+    return c.json({ error: `scope must be one of: ${BLACKLIST_SCOPES.join(', ')}` }, 400);
+  }
+  if (typeof body.reason !== 'string' || body.reason.trim() === '') {
+    return c.json({ error: 'reason is required' }, 400);
+  }
+  const { expiresAt, error } = parseExpiresAt(body.expiresAt);
+  if (error) {
+    return c.json({ error }, 400);
+  }
+
+  try {
+    const entry = await tokenBlacklist.create(
+      { tokenSymbol: body.tokenSymbol, scope: body.scope, reason: body.reason.trim(), expiresAt: expiresAt ?? null },
+      c.get('adminUser')
+    );
+    if (!entry) {
+      return c.json(
+        { error: 'Token is already blacklisted in this scope (update the existing entry)', tokenSymbol: body.tokenSymbol, scope: body.scope },
+        409
+      );
+    }
+    return c.json(entry, 201);
+  } catch (error) {
+    console.error('[AdminRoute] Error creating blacklist entry:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * PATCH /api/admin/blacklist/:id
+ * Change an entry's scope, reason or expiry
+ * Body: { scope?, reason?, expiresAt?: ISO timestamp | null }
+ */
+adminRoutes.patch('/blacklist/:id', async (c) => {
+  const id = parseInt(c.req.param('id'));
+  if (isNaN(id)) {
+    return c.json({ error: 'Invalid blacklist entry id' }, 400);
+  }
+
+  let body: { scope?: unknown; reason?: unknown; expiresAt?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const changes: Partial<Omit<BlacklistEntryInput, 'tokenSymbol'>> = {};
+  if (body.scope !== undefined) {
+    if (!isBlacklistScope(body.scope)) {
+      return c.json({ error: `scope must be one of: ${BLACKLIST_SCOPES.join(', ')}` }, 400);
+    }
+    changes.scope = body.scope;
+  }
+  if (body.reason !== undefined) {
+    if (typeof body.reason !== 'string' || body.reason.trim() === '') {
+      return c.json({ error: 'reason must be a non-empty string' }, 400);
+    }
+    changes.reason = body.reason.trim();
+  }
+  const { expiresAt, error } = parseExpiresAt(body.expiresAt);
+  if (error) {
+    return c.json({ error }, 400);
+  }
+  if (expiresAt !== undefined) changes.expiresAt = expiresAt;
+
+  if (Object.keys(changes).length === 0) {
+    return c.json({ error: 'Nothing to update (scope, reason or expiresAt)' }, 400);
+  }
+
+  try {
+    const entry = await tokenBlacklist.update(id, changes, c.get('adminUser'));
+    if (!entry) {
+      return c.json({ error: 'Blacklist entry not found', id }, 404);
+    }
+    if (entry === 'conflict') {
+      return c.json({ error: 'Token already has an active entry in that scope', id, scope: changes.scope }, 409);
+    }
+    return c.json(entry);
+  } catch (error) {
+    console.error('[AdminRoute] Error updating blacklist entry:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * DELETE /api/admin/blacklist/:id
+ * Remove a blacklist entry
+ */
+adminRoutes.delete('/blacklist/:id', async (c) => {
+  const id = parseInt(c.req.param('id'));
+  if (isNaN(id)) {
+    return c.json({ error: 'Invalid blacklist entry id' }, 400);
+  }
+
+  try {
+    const entry = await tokenBlacklist.remove(id, c.get('adminUser'));
+    if (!entry) {
+      return c.json({ error: 'Blacklist entry not found', id }, 404);
+    }
+    return c.json({ deleted: true, entry });
+  } catch (error) {
+    console.error('[AdminRoute] Error deleting blacklist entry:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// =============================================================================
+// UNRESOLVED TOKEN REVIEW ENDPOINTS
+// =============================================================================
+
+/**
+ * POST /api/admin/unresolved-tokens/:reference/promote
+ * Register an unresolved reference as an alias of a registered token (scored as that token from the next run)
+ * Body: { token: "0x..." | symbol | any registered reference }
+ */
+adminRoutes.post('/unresolved-tokens/:reference/promote', async (c) => {
+  const reference = c.req.param('reference');
+
+  let body: { token?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  if (typeof body.token !== 'string' || body.token.trim() === '') {
+    return c.json({ error: 'token must be a token address or registered reference' }, 400);
+  }
+
+  try {
+    const result = await unresolvedTokens.promote(reference, body.token, c.get('adminUser'));
+    if (!result) {
+      return c.json({ error: 'Unresolved reference or token not found', reference, token: body.token }, 404);
+    }
+    return c.json(result);
+  } catch (error) {
+    console.error('[AdminRoute] Error promoting unresolved token:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * POST /api/admin/unresolved-tokens/:reference/ignore
+ * Hide an unresolved reference from the review list (e.g. #GM, $USD)
+ */
+adminRoutes.post('/unresolved-tokens/:reference/ignore', async (c) => {
+  const reference = c.req.param('reference');
+
+  try {
+    const ignored = await unresolvedTokens.ignore(reference, c.get('adminUser'));
+    if (!ignored) {
+      return c.json({ error: 'Unresolved reference not found', reference }, 404);
+    }
+    return c.json(ignored);
+  } catch (error) {
+    console.error('[AdminRoute] Error ignoring unresolved token:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
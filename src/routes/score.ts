@@ -9,8 +9,30 @@ import {
   triggerEpochSubmission,
   getEpochStatus,
   getPredictedEpochSubmission,
+  getActiveScoringStrategy,
+  getLatestTokenMomentum,
+  getLatestTokenSentiment,
+  getLatestTokenDuplicates,
+  getLatestTokenAges,
+  getLatestTokenConversations,
+  getLatestTokenAmplification,
+  getLatestTokenMarket,
+  getLatestScoreIntervals,
+  getLatestScoreBreakdown,
+  getSnapshotScoreBreakdown,
 } from '../jobs/scheduler';
-import { isBlacklisted } from '../constants/token-blacklist';
+import { isBlacklisted } from '../services/token-blacklist';
+import { listScoringStrategies } from '../constants/scoring-strategies';
+import { shadowScoring } from '../services/shadow-scoring';
+import { reputationService } from '../services/reputation';
+import { pairScorePolicy } from '../services/pair-score-policy';
+import { tierAssigner } from '../services/tier-assigner';
+import { anomalyDetector } from '../services/anomaly-detector';
+import { coMentionGraph, CO_MENTION_WINDOWS } from '../services/co-mention-graph';
+import { tokenRegistry } from '../services/token-registry';
+import { unresolvedTokens } from '../services/unresolved-tokens';
+import type { CoMentionWindow, ScoreAnomalyStatus } from '../types/score';
+import type { UnresolvedTokenStatus } from '../types/memex';
 
 export const scoreRoutes = new Hono();
 
@@ -25,17 +47,38 @@ export const scoreRoutes = new Hono();
 scoreRoutes.get('/tokens', async (c) => {
   try {
     const tokenScores = getLatestTokenScores();
+    const tokenMomentum = getLatestTokenMomentum();
+    const tokenSentiment = getLatestTokenSentiment();
+    const tokenDuplicates = getLatestTokenDuplicates();
+    const tokenAges = getLatestTokenAges();
+    const tokenConversations = getLatestTokenConversations();
+    const tokenAmplification = getLatestTokenAmplification();
+    const tokenMarket = getLatestTokenMarket();
+    const scoreIntervals = getLatestScoreIntervals();
     const tokens = Array.from(tokenScores.entries())
       .filter(([symbol]) => !isBlacklisted(symbol))
       .map(([symbol, score]) => ({
         tokenSymbol: symbol,
         score,
-        tier: scoreCalculator.getScoreTier(score),
+        scoreLower: scoreIntervals.get(symbol)?.lower ?? null,
+        scoreUpper: scoreIntervals.get(symbol)?.upper ?? null,
+        tier: tierAssigner.getTier(score),
+        firstSeenAt: tokenAges.get(symbol)?.firstSeenAt ?? null,
+        ageHours: tokenAges.get(symbol)?.ageHours ?? null,
+        momentumScore: tokenMomentum.get(symbol)?.momentumScore ?? 0,
+        sentiment: tokenSentiment.get(symbol) ?? null,
+        duplicateClusterSizes: tokenDuplicates.get(symbol) ?? [],
+        conversations: tokenConversations.get(symbol) ?? null,
+        amplification: tokenAmplification.get(symbol) ?? { reposters: 0, reach: 0 },
+        market: tokenMarket.get(symbol) ?? null,
       }))
       .sort((a, b) => b.score - a.score);
 
     return c.json({
       count: tokens.length,
+      strategyVersion: getActiveScoringStrategy().version,
+      normalizationMode: getActiveScoringStrategy().normalizationMode,
+      tierMode: tierAssigner.getMode(),
       tokens,
     });
   } catch (error) {
@@ -47,12 +90,17 @@ scoreRoutes.get('/tokens', async (c) => {
 /**
  * GET /api/score/tokens/leaderboard
  * Get top scoring tokens with detailed stats
+ * Query: sortBy=score (default) | momentum - momentum surfaces rising tokens with a small base
  */
 scoreRoutes.get('/tokens/leaderboard', async (c) => {
   const limit = parseInt(c.req.query('limit') || '20');
+  const sortBy = c.req.query('sortBy') === 'momentum' ? 'momentum' : 'score';
 
   try {
     const tokenScores = getLatestTokenScores();
+    const tokenMomentum = getLatestTokenMomentum();
+    const tokenAges = getLatestTokenAges();
+    const scoreIntervals = getLatestScoreIntervals();
     const allStats = await memexCollector.getAllTokenStats();
     const imageCacheStatus = memexCollector.getTokenImageCacheStatus();
 
@@ -67,6 +115,7 @@ scoreRoutes.get('/tokens/leaderboard', async (c) => {
 
         const imageInfo = memexCollector.getTokenImageInfo(symbol);
         const pulseScore = Math.round(score / 100);
+        const momentum = tokenMomentum.get(symbol);
 
         return {
           tokenSymbol: symbol,
@@ -76,14 +125,25 @@ scoreRoutes.get('/tokens/leaderboard', async (c) => {
           views: stats.views,
           likes: stats.likes,
           pulseScore,
+          scoreLower: scoreIntervals.get(symbol)?.lower ?? null,
+          scoreUpper: scoreIntervals.get(symbol)?.upper ?? null,
+          tier: tierAssigner.getTier(score),
+          firstSeenAt: tokenAges.get(symbol)?.firstSeenAt ?? null,
+          ageHours: tokenAges.get(symbol)?.ageHours ?? null,
+          momentum: {
+            score: momentum?.momentumScore ?? 0,
+            hourOverHour: momentum?.hourOverHour ?? null,
+            sixHourOverSixHour: momentum?.sixHourOverSixHour ?? null,
+          },
         };
       })
-      .sort((a, b) => b.pulseScore - a.pulseScore)
+      .sort((a, b) => (sortBy === 'momentum' ? b.momentum.score - a.momentum.score : b.pulseScore - a.pulseScore))
       .slice(0, Math.min(limit, 100))
       .map((item, index) => ({ rank: index + 1, ...item }));
 
     return c.json({
       count: leaderboard.length,
+      sortBy,
       updatedAt: new Date().toISOString(),
       imageCacheUpdatedAt: imageCacheStatus.updatedAt?.toISOString() ?? null,
       leaderboard,
@@ -94,6 +154,376 @@ scoreRoutes.get('/tokens/leaderboard', async (c) => {
   }
 });
 
+/**
+ * GET /api/score/tokens/:symbol/explain
+ * Explain how a token's score was produced (components, decay, penalties, multipliers, normalization)
+ * Query: hour=ISO timestamp to read the breakdown persisted with that hourly snapshot
+ */
+scoreRoutes.get('/tokens/:symbol/explain', async (c) => {
+  const tokenSymbol = tokenRegistry.resolveSymbol(c.req.param('symbol'));
+  const hour = c.req.query('hour');
+
+  try {
+    if (hour) {
+      const snapshotHour = new Date(hour);
+      if (isNaN(snapshotHour.getTime())) {
+        return c.json({ error: 'Invalid hour', hour }, 400);
+      }
+
+      const breakdown = await getSnapshotScoreBreakdown(tokenSymbol, snapshotHour);
+      if (!breakdown) {
+        return c.json({ error: 'Score breakdown not found', tokenSymbol, hour }, 404);
+      }
+      return c.json({ source: 'snapshot', breakdown });
+    }
+
+    const breakdown = getLatestScoreBreakdown(tokenSymbol);
+    if (!breakdown) {
+      return c.json({ error: 'Score breakdown not found', tokenSymbol }, 404);
+    }
+    return c.json({ source: 'latest', breakdown });
+  } catch (error) {
+    console.error('[ScoreRoute] Error explaining token score:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * GET /api/score/tiers
+ * Current tier cut-offs (fixed or rolling percentile) and recent tier change events
+ * Query: token=SYMBOL to filter events, limit (default 50)
+ */
+scoreRoutes.get('/tiers', async (c) => {
+  const limit = parseInt(c.req.query('limit') || '50');
+  const token = c.req.query('token');
+
+  try {
+    const events = await tierAssigner.getRecentChanges(Math.min(limit, 500), token);
+    return c.json({
+      ...tierAssigner.getCutoffs(),
+      events,
+    });
+  } catch (error) {
+    console.error('[ScoreRoute] Error getting tiers:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * GET /api/score/anomalies
+ * Recent score anomalies (abnormal jumps in score, views or posts, and multi-tier jumps), newest first
+ * Query: token=SYMBOL, status=pending|dismissed|confirmed, limit (default 50)
+ */
+scoreRoutes.get('/anomalies', async (c) => {
+  const limit = parseInt(c.req.query('limit') || '50');
+  const token = c.req.query('token');
+  const status = c.req.query('status');
+
+  if (status !== undefined && !['pending', 'dismissed', 'confirmed'].includes(status)) {
+    return c.json({ error: 'status must be one of: pending, dismissed, confirmed' }, 400);
+  }
+
+  try {
+    const anomalies = await anomalyDetector.getRecent({
+      limit: Math.min(limit, 500),
+      tokenSymbol: token,
+      status: status as ScoreAnomalyStatus | undefined,
+    });
+    return c.json({
+      count: anomalies.length,
+      anomalies: anomalies.map((anomaly) => ({ ...anomaly, metrics: JSON.parse(anomaly.metrics) })),
+    });
+  } catch (error) {
+    console.error('[ScoreRoute] Error getting anomalies:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// =============================================================================
+// PAIR SCORE ENDPOINTS
+// =============================================================================
+
+/**
+ * GET /api/score/pairs
+ * Top pair scores across all current tokens (global policy with per-pool overrides)
+ */
+scoreRoutes.get('/pairs', async (c) => {
+  const limit = parseInt(c.req.query('limit') || '20');
+
+  try {
+    const tokenScores = new Map(Array.from(getLatestTokenScores()).filter(([symbol]) => !isBlacklisted(symbol)));
+    const options = await pairScorePolicy.buildOptions();
+    const pairs = Array.from(scoreCalculator.calculateAllPairScores(tokenScores, options).values())
+      .sort((a, b) => b.pairScore - a.pairScore)
+      .slice(0, Math.min(limit, 100));
+
+    return c.json({
+      count: pairs.length,
+      globalPolicy: pairScorePolicy.getGlobalPolicy(),
+      pairs,
+    });
+  } catch (error) {
+    console.error('[ScoreRoute] Error calculating pair scores:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * GET /api/score/pairs/:tokenX/:tokenY
+ * Pair score for two tokens with the policy that produced it (404 for blacklisted tokens)
+ */
+scoreRoutes.get('/pairs/:tokenX/:tokenY', async (c) => {
+  const tokenX = tokenRegistry.resolveSymbol(c.req.param('tokenX'));
+  const tokenY = tokenRegistry.resolveSymbol(c.req.param('tokenY'));
+
+  try {
+    const tokenScores = new Map(Array.from(getLatestTokenScores()).filter(([symbol]) => !isBlacklisted(symbol)));
+    const options = await pairScorePolicy.buildOptions();
+    const result = scoreCalculator.getPairScore(tokenScores, tokenX, tokenY, options);
+    if (!result) {
+      return c.json({ error: 'Token score not found', tokenX, tokenY }, 404);
+    }
+    return c.json(result);
+  } catch (error) {
+    console.error('[ScoreRoute] Error calculating pair score:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// =============================================================================
+// CO-MENTION GRAPH ENDPOINTS
+// =============================================================================
+
+/**
+ * Parse the co-mention window query (1h | 1d | 7d, default 7d); null when invalid
+ */
+function parseCoMentionWindow(value: string | undefined): CoMentionWindow | null {
+  if (value === undefined) return '7d';
+  return Object.hasOwn(CO_MENTION_WINDOWS, value) ? (value as CoMentionWindow) : null;
+}
+
+/**
+ * GET /api/score/co-mentions/clusters
+ * Communities of tokens discussed together (excluding blacklisted)
+ * Query: window=1h|1d|7d (default 7d), minPosts (default 2) - joint posts for an edge to count
+ */
+scoreRoutes.get('/co-mentions/clusters', async (c) => {
+  const window = parseCoMentionWindow(c.req.query('window'));
+  const minPosts = parseInt(c.req.query('minPosts') || '2');
+  if (!window) {
+    return c.json({ error: 'window must be one of: 1h, 1d, 7d' }, 400);
+  }
+
+  try {
+    await coMentionGraph.ensureLoaded();
+    const clusters = coMentionGraph
+      .getClusters(window, Math.max(1, minPosts))
+      .map((cluster) => ({ ...cluster, tokens: cluster.tokens.filter((symbol) => !isBlacklisted(symbol)) }))
+      .filter((cluster) => cluster.tokens.length >= 2);
+
+    return c.json({ window, count: clusters.length, clusters });
+  } catch (error) {
+    console.error('[ScoreRoute] Error getting co-mention clusters:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * GET /api/score/co-mentions/pairs
+ * Most co-mentioned token pairs with their social pair score and whether a pool exists (pool discovery)
+ * Query: window=1h|1d|7d (default 7d), limit (default 20), includeUnscored=true to include tokens without a current score
+ */
+scoreRoutes.get('/co-mentions/pairs', async (c) => {
+  const window = parseCoMentionWindow(c.req.query('window'));
+  const limit = parseInt(c.req.query('limit') || '20');
+  if (!window) {
+    return c.json({ error: 'window must be one of: 1h, 1d, 7d' }, 400);
+  }
+
+  try {
+    await coMentionGraph.ensureLoaded();
+    const tokenScores = new Map(Array.from(getLatestTokenScores()).filter(([symbol]) => !isBlacklisted(symbol)));
+    const pairs = (
+      await coMentionGraph.getPairCandidates(tokenScores, {
+        window,
+        limit: Math.min(limit, 100),
+        includeUnscored: c.req.query('includeUnscored') === 'true',
+      })
+    ).filter((pair) => !isBlacklisted(pair.tokenX) && !isBlacklisted(pair.tokenY));
+
+    return c.json({ window, count: pairs.length, pairs });
+  } catch (error) {
+    console.error('[ScoreRoute] Error getting co-mention pairs:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * GET /api/score/co-mentions/:symbol
+ * Tokens most discussed alongside a token, by co-mention weight (excluding blacklisted)
+ * Query: window=1h|1d|7d (default 7d), limit (default 20)
+ */
+scoreRoutes.get('/co-mentions/:symbol', async (c) => {
+  const symbol = tokenRegistry.resolveSymbol(c.req.param('symbol'));
+  const window = parseCoMentionWindow(c.req.query('window'));
+  const limit = parseInt(c.req.query('limit') || '20');
+  if (!window) {
+    return c.json({ error: 'window must be one of: 1h, 1d, 7d' }, 400);
+  }
+
+  try {
+    await coMentionGraph.ensureLoaded();
+    const neighbors = coMentionGraph
+      .getNeighbors(symbol, window, Math.min(limit, 100))
+      .filter((neighbor) => !isBlacklisted(neighbor.tokenSymbol));
+
+    return c.json({ tokenSymbol: symbol, window, count: neighbors.length, neighbors });
+  } catch (error) {
+    console.error('[ScoreRoute] Error getting co-mentions:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// =============================================================================
+// TOKEN REGISTRY ENDPOINTS
+// =============================================================================
+
+/**
+ * GET /api/score/registry/status
+ * Registered token and alias counts
+ */
+scoreRoutes.get('/registry/status', async (c) => {
+  try {
+    await tokenRegistry.ensureLoaded();
+    const status = tokenRegistry.getStatus();
+
+    return c.json({ ...status, syncedAt: status.syncedAt?.toISOString() ?? null });
+  } catch (error) {
+    console.error('[ScoreRoute] Error getting token registry status:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * GET /api/score/registry/unresolved
+ * Extracted references that match no registered token, by posts in the tracking window
+ * Query: status=pending|promoted|ignored (default pending), limit (default 50)
+ */
+scoreRoutes.get('/registry/unresolved', async (c) => {
+  const status = c.req.query('status') ?? 'pending';
+  const limit = parseInt(c.req.query('limit') || '50');
+  if (status !== 'pending' && status !== 'promoted' && status !== 'ignored') {
+    return c.json({ error: 'status must be one of: pending, promoted, ignored' }, 400);
+  }
+
+  try {
+    const references = await unresolvedTokens.getTop({ status: status as UnresolvedTokenStatus, limit: Math.min(limit, 200) });
+    const { windowHours, refreshedAt } = unresolvedTokens.getStatus();
+
+    return c.json({
+      status,
+      windowHours,
+      refreshedAt: refreshedAt?.toISOString() ?? null,
+      count: references.length,
+      references,
+    });
+  } catch (error) {
+    console.error('[ScoreRoute] Error getting unresolved tokens:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * GET /api/score/registry/:reference
+ * Resolve a token reference (contract address, canonical symbol, ticker, name, creator userName,
+ * hashtag) to its canonical identity and registered aliases
+ */
+scoreRoutes.get('/registry/:reference', async (c) => {
+  const reference = c.req.param('reference');
+
+  try {
+    await tokenRegistry.ensureLoaded();
+    const identity = /^0x[0-9a-fA-F]{40}$/.test(reference) ? tokenRegistry.getByAddress(reference) : tokenRegistry.resolve(reference);
+    if (!identity) {
+      return c.json({ error: 'Token not registered', reference }, 404);
+    }
+
+    return c.json({
+      ...identity,
+      firstSeenAt: identity.firstSeenAt.toISOString(),
+      aliases: tokenRegistry.getAliases(identity.address),
+    });
+  } catch (error) {
+    console.error('[ScoreRoute] Error resolving token reference:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// =============================================================================
+// SCORING STRATEGY ENDPOINTS
+// =============================================================================
+
+/**
+ * GET /api/score/strategies
+ * List registered scoring strategies and the active version
+ */
+scoreRoutes.get('/strategies', async (c) => {
+  try {
+    const active = getActiveScoringStrategy();
+
+    return c.json({
+      activeVersion: active.version,
+      strategies: listScoringStrategies(),
+    });
+  } catch (error) {
+    console.error('[ScoreRoute] Error listing strategies:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * GET /api/score/shadow
+ * Compare the shadow (candidate) strategy against production
+ * Shows rank correlation, top-3 overlap, tier disagreements and the largest rank moves
+ */
+scoreRoutes.get('/shadow', async (c) => {
+  try {
+    return c.json({
+      productionVersion: getActiveScoringStrategy().version,
+      ...shadowScoring.getReport(),
+    });
+  } catch (error) {
+    console.error('[ScoreRoute] Error getting shadow report:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// =============================================================================
+// AUTHOR REPUTATION ENDPOINTS
+// =============================================================================
+
+/**
+ * GET /api/score/users/:userId
+ * Get a Memex author's reputation record (history and 0-1 reputation)
+ */
+scoreRoutes.get('/users/:userId', async (c) => {
+  const userId = parseInt(c.req.param('userId'));
+  if (isNaN(userId)) {
+    return c.json({ error: 'Invalid userId' }, 400);
+  }
+
+  try {
+    const user = await reputationService.getUser(userId);
+    if (!user) {
+      return c.json({ error: 'User not found', userId }, 404);
+    }
+    return c.json(user);
+  } catch (error) {
+    console.error('[ScoreRoute] Error getting user reputation:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
 // =============================================================================
 // EPOCH SUBMISSION ENDPOINTS (On-chain ViralScoreReporter)
 // =============================================================================
@@ -0,0 +1,85 @@
+import { parseArgs } from 'node:util';
+import { backtestEngine } from '../services/backtest-engine';
+import { closeDatabaseConnection } from '../db/client';
+import { DEFAULT_STRATEGY_VERSION } from '../constants/scoring-strategies';
+import type { BacktestRequest } from '../types/backtest';
+
+/**
+ * Backtest CLI
+ * Replays a past time range through a scoring configuration and stores the results
+ *
+ * Usage:
+ *   bun run backtest --from 2025-01-01T00:00Z --to 2025-01-03T00:00Z --strategy v4 \
+ *     --weights '{"views":2}' --multipliers '{"imagePostBonus":1.5}' --thresholds '{"image":0.4}'
+ */
+
+function parseJsonOption(name: string, value: string | undefined): Record<string, number> | undefined {
+  if (value === undefined) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`--${name} must be valid JSON`);
+  }
+}
+
+async function runBacktest() {
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      strategy: { type: 'string', default: DEFAULT_STRATEGY_VERSION },
+      weights: { type: 'string' },
+      multipliers: { type: 'string' },
+      thresholds: { type: 'string' },
+      'created-by': { type: 'string', default: 'cli' },
+    },
+  });
+
+  if (!values.from || !values.to) {
+    console.error('Usage: bun run backtest --from <ISO date> --to <ISO date> [--strategy v2] [--weights JSON] [--multipliers JSON] [--thresholds JSON]');
+    process.exit(1);
+  }
+
+  const request: BacktestRequest = {
+    from: new Date(values.from),
+    to: new Date(values.to),
+    strategyVersion: values.strategy!,
+    overrides: {
+      weights: parseJsonOption('weights', values.weights),
+      multipliers: parseJsonOption('multipliers', values.multipliers),
+      thresholds: parseJsonOption('thresholds', values.thresholds),
+    },
+  };
+
+  const errors = backtestEngine.validate(request);
+  if (errors.length > 0) {
+    console.error('❌ Invalid backtest request:');
+    errors.forEach((error) => console.error(`   - ${error}`));
+    process.exit(1);
+  }
+
+  try {
+    const report = await backtestEngine.run(request, values['created-by']!);
+    if (!report || report.status !== 'completed') {
+      console.error(`❌ Backtest failed: ${report?.error ?? 'unknown error'}`);
+      process.exit(1);
+    }
+
+    console.log(`✅ Backtest #${report.id} completed: ${report.hoursSimulated} hours simulated`);
+    for (const result of report.results) {
+      const production = result.productionTopTokens ? result.productionTopTokens.join(', ') : 'no snapshot';
+      console.log(`   ${result.simulatedHour}  top=[${result.topTokens.join(', ')}]  production=[${production}]`);
+    }
+    console.log(
+      `   Compared ${report.summary.hoursCompared} hours: ${report.summary.topTokensMatched} exact top-3 matches, ` +
+        `average overlap ${report.summary.averageTopOverlap ?? 'n/a'}`
+    );
+  } finally {
+    await closeDatabaseConnection();
+  }
+}
+
+runBacktest().catch((error) => {
+  console.error('❌ Backtest failed:', error);
+  process.exit(1);
+});
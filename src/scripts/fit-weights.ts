@@ -0,0 +1,81 @@
+import { parseArgs } from 'node:util';
+import { writeFile } from 'node:fs/promises';
+import { weightOptimizer } from '../services/weight-optimizer';
+import { closeDatabaseConnection } from '../db/client';
+import { DEFAULT_STRATEGY_VERSION } from '../constants/scoring-strategies';
+import type { FitTarget, WeightFitRequest } from '../types/weight-fit';
+
+/**
+ * Weight Fitting CLI
+ * Searches scoring weights/multipliers against later market outcomes and prints a fit report
+ * The recommended config can be applied with PUT /api/admin/scoring-config
+ *
+ * Usage:
+ *   bun run fit-weights --from 2025-01-01T00:00Z --to 2025-01-14T00:00Z --target tvl --horizon 24 \
+ *     [--strategy v2] [--iterations 300] [--seed 1] [--holdout 0.3] [--out fit-report.json]
+ */
+
+async function runFit() {
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      target: { type: 'string', default: 'tvl' },
+      horizon: { type: 'string', default: '24' },
+      strategy: { type: 'string', default: DEFAULT_STRATEGY_VERSION },
+      iterations: { type: 'string', default: '300' },
+      seed: { type: 'string', default: '1' },
+      holdout: { type: 'string', default: '0.3' },
+      out: { type: 'string' },
+    },
+  });
+
+  if (!values.from || !values.to) {
+    console.error('Usage: bun run fit-weights --from <ISO date> --to <ISO date> [--target tvl|volume|holders] [--horizon 24] [--out file]');
+    process.exit(1);
+  }
+
+  const request: WeightFitRequest = {
+    from: new Date(values.from),
+    to: new Date(values.to),
+    target: values.target as FitTarget,
+    horizonHours: parseInt(values.horizon!),
+    strategyVersion: values.strategy!,
+    iterations: parseInt(values.iterations!),
+    seed: parseInt(values.seed!),
+    holdoutFraction: parseFloat(values.holdout!),
+  };
+
+  const errors = weightOptimizer.validate(request);
+  if (errors.length > 0) {
+    console.error('❌ Invalid fit request:');
+    errors.forEach((error) => console.error(`   - ${error}`));
+    process.exit(1);
+  }
+
+  try {
+    const report = await weightOptimizer.fit(request);
+    const json = JSON.stringify(report, null, 2);
+
+    if (values.out) {
+      await writeFile(values.out, json);
+      console.log(`✅ Fit report written to ${values.out}`);
+    } else {
+      console.log(json);
+    }
+
+    const { baseline, fitted } = report;
+    console.log(
+      `Holdout rho: ${baseline.holdout.meanRankCorrelation ?? 'n/a'} → ${fitted.holdout.meanRankCorrelation ?? 'n/a'} ` +
+        `(train: ${baseline.train.meanRankCorrelation ?? 'n/a'} → ${fitted.train.meanRankCorrelation ?? 'n/a'})`
+    );
+    console.log(report.recommendedConfig ? '✅ Fitted config beats the baseline' : '⚠️  Fitted config does not beat the baseline - keep current weights');
+  } finally {
+    await closeDatabaseConnection();
+  }
+}
+
+runFit().catch((error) => {
+  console.error('❌ Weight fit failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,249 @@
+import { db, schema } from '../db/client';
+import { and, desc, eq, gte } from 'drizzle-orm';
+import type { AggregatedMetrics } from '../types/memex';
+import type { AnomalyMetrics, DetectedAnomaly, ScoreAnomalyStatus, ScoreAnomalyType } from '../types/score';
+import type { ScoreAnomaly } from '../db/schema';
+import { tierAssigner } from './tier-assigner';
+import { MAD_TO_STDDEV, medianOfSorted } from './score-calculator';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Snapshots are hourly, so reloading the baseline every 10 minutes is plenty
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+// Jumps are measured from the latest snapshot; tokens without a snapshot this recent start from a zero baseline
+const MAX_SNAPSHOT_AGE_HOURS = 2;
+
+// Hourly changes needed before a token's jumps can be judged
+const MIN_BASELINE_CHANGES = 6;
+
+// Smallest spread of hourly changes, so steady tokens (MAD ~ 0) aren't flagged for ordinary noise
+const MIN_CHANGE_SCALE: Record<'score' | 'views' | 'posts', number> = { score: 200, views: 1000, posts: 5 };
+
+// Lowest to highest (see TierAssigner)
+const TIER_ORDER = ['COLD', 'ACTIVE', 'WARM', 'HOT', 'VIRAL', 'LEGENDARY'];
+
+interface BaselineSnapshot {
+  snapshotHour: Date;
+  score: number;
+  views: number;
+  posts: number;
+}
+
+/**
+ * Anomaly Detector
+ * Compares each scoring run with the token's recent hourly snapshots and flags statistically
+ * abnormal jumps: a robust z-score of the change in score, views or posts since the latest snapshot
+ * (against the token's hourly changes in the baseline window), and tier jumps of several levels
+ * (e.g. COLD to LEGENDARY within an hour). New tokens have no history to judge changes against, so only
+ * their tier jump from COLD is checked. Each anomaly is flagged once per snapshot hour and stays
+ * pending until reviewed; pending tokens can be held out of epoch submission (EPOCH_HOLD_ANOMALIES).
+ */
+export class AnomalyDetector {
+  private readonly zThreshold = parseFloat(process.env.ANOMALY_Z_THRESHOLD || '4');
+  private readonly tierJumpLevels = parseInt(process.env.ANOMALY_TIER_JUMP_LEVELS || '3');
+  private readonly baselineHours = parseInt(process.env.ANOMALY_BASELINE_HOURS || '24');
+  private baselines = new Map<string, BaselineSnapshot[]>();
+  private flagged = new Set<string>(); // `${symbol}:${type}:${snapshotHour}` already stored
+  private pendingTokens = new Set<string>();
+  private refreshedAt: number | null = null;
+
+  /**
+   * Reload snapshot baselines, already-flagged jumps and pending tokens when older than the refresh interval
+   * Keeps the previous state when the database is unavailable
+   */
+  async refreshIfStale(now: number = Date.now()): Promise<void> {
+    if (this.refreshedAt !== null && now - this.refreshedAt < REFRESH_INTERVAL_MS) return;
+
+    try {
+      const since = new Date(now - (this.baselineHours + 1) * HOUR_MS);
+      const [snapshots, recent, pending] = await Promise.all([
+        db.query.tokenScoreSnapshots.findMany({
+          where: gte(schema.tokenScoreSnapshots.snapshotHour, since),
+          columns: { tokenSymbol: true, snapshotHour: true, score: true, rawViews: true, rawPosts: true },
+        }),
+        db.query.scoreAnomalies.findMany({
+          where: gte(schema.scoreAnomalies.detectedAt, new Date(now - MAX_SNAPSHOT_AGE_HOURS * HOUR_MS)),
+          columns: { tokenSymbol: true, anomalyType: true, metrics: true },
+        }),
+        db.query.scoreAnomalies.findMany({
+          where: eq(schema.scoreAnomalies.status, 'pending'),
+          columns: { tokenSymbol: true },
+        }),
+      ]);
+
+      const baselines = new Map<string, BaselineSnapshot[]>();
+      for (const snapshot of snapshots) {
+        const symbol = snapshot.tokenSymbol.toUpperCase();
+        if (!baselines.has(symbol)) baselines.set(symbol, []);
+        baselines.get(symbol)!.push({
+          snapshotHour: snapshot.snapshotHour,
+          score: snapshot.score,
+          views: snapshot.rawViews ?? 0,
+          posts: snapshot.rawPosts ?? 0,
+        });
+      }
+      for (const series of baselines.values()) {
+        series.sort((a, b) => a.snapshotHour.getTime() - b.snapshotHour.getTime());
+      }
+
+      this.baselines = baselines;
+      this.flagged = new Set(
+        recent.map((anomaly) => {
+          const metrics = JSON.parse(anomaly.metrics) as AnomalyMetrics;
+          return `${anomaly.tokenSymbol}:${anomaly.anomalyType}:${metrics.snapshotHour}`;
+        })
+      );
+      this.pendingTokens = new Set(pending.map((anomaly) => anomaly.tokenSymbol));
+      this.refreshedAt = now;
+    } catch (error) {
+      console.error('[AnomalyDetector] Failed to refresh baselines:', error);
+    }
+  }
+
+  /**
+   * Check a scoring run against the snapshot baselines and store new anomalies
+   * @param scores Final scores by uppercase symbol
+   */
+  async detect(scores: Map<string, number>, metrics: AggregatedMetrics[], now: number = Date.now()): Promise<DetectedAnomaly[]> {
+    await this.refreshIfStale(now);
+
+    const metricsBySymbol = new Map(metrics.map((m) => [m.tokenSymbol.toUpperCase(), m]));
+    const detected: DetectedAnomaly[] = [];
+
+    for (const [tokenSymbol, score] of scores) {
+      const m = metricsBySymbol.get(tokenSymbol);
+      if (!m) continue;
+
+      const series = this.baselines.get(tokenSymbol) ?? [];
+      const recent = series.length > 0 && now - series[series.length - 1].snapshotHour.getTime() <= MAX_SNAPSHOT_AGE_HOURS * HOUR_MS;
+      const latest: BaselineSnapshot = recent
+        ? series[series.length - 1]
+        : { snapshotHour: new Date(Math.floor(now / HOUR_MS) * HOUR_MS), score: 0, views: 0, posts: 0 };
+
+      const snapshotHour = latest.snapshotHour.toISOString();
+      const anomalyMetrics: AnomalyMetrics = {
+        score,
+        posts: m.posts,
+        views: m.views,
+        likes: m.likes,
+        reposts: m.reposts,
+        replies: m.replies,
+        uniqueUsers: m.uniqueUserCount,
+        snapshotHour,
+        snapshotScore: latest.score,
+        snapshotPosts: latest.posts,
+        snapshotViews: latest.views,
+      };
+      const flag = (anomaly: Omit<DetectedAnomaly, 'tokenSymbol' | 'metrics'>): void => {
+        const key = `${tokenSymbol}:${anomaly.anomalyType}:${snapshotHour}`;
+        if (this.flagged.has(key)) return;
+        this.flagged.add(key);
+        detected.push({ tokenSymbol, metrics: anomalyMetrics, ...anomaly });
+      };
+
+      const fromTier = tierAssigner.getTier(latest.score);
+      const toTier = tierAssigner.getTier(score);
+      const levels = TIER_ORDER.indexOf(toTier) - TIER_ORDER.indexOf(fromTier);
+      if (levels >= this.tierJumpLevels) {
+        flag({ anomalyType: 'tierJump', magnitude: levels, observedValue: score, baselineValue: latest.score, fromTier, toTier });
+      }
+
+      if (!recent) continue;
+
+      const current = { score, views: m.views, posts: m.posts };
+      for (const type of ['score', 'views', 'posts'] as const) {
+        const jump = this.getJumpZScore(series, type, current[type]);
+        if (jump && jump.zScore >= this.zThreshold) {
+          flag({
+            anomalyType: type,
+            magnitude: Math.round(jump.zScore * 100) / 100,
+            observedValue: jump.change,
+            baselineValue: jump.medianChange,
+            fromTier,
+            toTier,
+          });
+        }
+      }
+    }
+
+    if (detected.length > 0) {
+      await db.insert(schema.scoreAnomalies).values(detected.map((anomaly) => ({ ...anomaly, metrics: JSON.stringify(anomaly.metrics) })));
+      for (const anomaly of detected) {
+        this.pendingTokens.add(anomaly.tokenSymbol);
+      }
+    }
+
+    return detected;
+  }
+
+  /**
+   * Tokens with anomalies awaiting review
+   */
+  async getPendingTokens(): Promise<Set<string>> {
+    await this.refreshIfStale();
+    return new Set(this.pendingTokens);
+  }
+
+  /**
+   * Recent anomalies, newest first
+   */
+  async getRecent(options: { limit?: number; tokenSymbol?: string; status?: ScoreAnomalyStatus } = {}): Promise<ScoreAnomaly[]> {
+    const { limit = 50, tokenSymbol, status } = options;
+    return db.query.scoreAnomalies.findMany({
+      where: and(
+        tokenSymbol ? eq(schema.scoreAnomalies.tokenSymbol, tokenSymbol.toUpperCase()) : undefined,
+        status ? eq(schema.scoreAnomalies.status, status) : undefined
+      ),
+      orderBy: [desc(schema.scoreAnomalies.detectedAt)],
+      limit,
+    });
+  }
+
+  /**
+   * Review an anomaly (dismissed or confirmed both release the token's epoch hold once
+   * it has no other pending anomalies - confirmed manipulation belongs on the blacklist)
+   * Returns null when the anomaly does not exist
+   */
+  async review(id: number, status: Exclude<ScoreAnomalyStatus, 'pending'>, reviewedBy: string, note: string | null): Promise<ScoreAnomaly | null> {
+    const [updated] = await db
+      .update(schema.scoreAnomalies)
+      .set({ status, reviewedBy, reviewedAt: new Date(), reviewNote: note })
+      .where(eq(schema.scoreAnomalies.id, id))
+      .returning();
+    if (!updated) return null;
+
+    const stillPending = await db.query.scoreAnomalies.findFirst({
+      where: and(eq(schema.scoreAnomalies.tokenSymbol, updated.tokenSymbol), eq(schema.scoreAnomalies.status, 'pending')),
+      columns: { id: true },
+    });
+    if (!stillPending) this.pendingTokens.delete(updated.tokenSymbol);
+
+    return updated;
+  }
+
+  /**
+   * Robust z-score of the change since the latest snapshot against the token's hourly changes
+   * Null when the baseline has too few changes to judge
+   */
+  private getJumpZScore(
+    series: BaselineSnapshot[],
+    type: 'score' | 'views' | 'posts',
+    value: number
+  ): { change: number; medianChange: number; zScore: number } | null {
+    const changes: number[] = [];
+    for (let i = 1; i < series.length; i++) {
+      changes.push(series[i][type] - series[i - 1][type]);
+    }
+    if (changes.length < MIN_BASELINE_CHANGES) return null;
+
+    const sorted = changes.sort((a, b) => a - b);
+    const medianChange = medianOfSorted(sorted);
+    const mad = medianOfSorted(sorted.map((c) => Math.abs(c - medianChange)).sort((a, b) => a - b)) * MAD_TO_STDDEV;
+    const change = value - series[series.length - 1][type];
+    return { change, medianChange, zScore: (change - medianChange) / Math.max(mad, MIN_CHANGE_SCALE[type]) };
+  }
+}
+
+// Singleton instance
+export const anomalyDetector = new AnomalyDetector();
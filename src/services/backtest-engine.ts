@@ -0,0 +1,323 @@
+import { db, schema } from '../db/client';
+import { and, eq, gt, gte, lte, asc, desc } from 'drizzle-orm';
+import { memexCollector } from './memex-collector';
+import { reputationService } from './reputation';
+import { repostTracker } from './repost-tracker';
+import { tokenRegistry } from './token-registry';
+import { tokenBlacklist } from './token-blacklist';
+import { botDetector } from './bot-detector';
+import { tierAssigner } from './tier-assigner';
+import { ScoreCalculator } from './score-calculator';
+import { scoringConfig } from './scoring-config';
+import { epochSubmitter, type ViralPair } from './epoch-submitter';
+import { graphqlClient, type TokenPoolData } from './graphql-client';
+import { buildTokenRankings } from './token-ranking';
+import { getScoringStrategy, applyStrategyOverrides } from '../constants/scoring-strategies';
+import type { MemexPost as DBMemexPost } from '../db/schema';
+import type { ScoringConfigOverrides, ScoringStrategy } from '../types/score';
+import type { BacktestRequest, BacktestTokenScore, BacktestHourResult, BacktestRunReport } from '../types/backtest';
+
+const HOUR_MS = 60 * 60 * 1000;
+const POST_WINDOW_MS = 7 * 24 * HOUR_MS; // Same 7-day window as live aggregation
+const MAX_BACKTEST_HOURS = 14 * 24;
+
+function floorToHour(date: Date): Date {
+  const hour = new Date(date);
+  hour.setMinutes(0, 0, 0);
+  return hour;
+}
+
+/**
+ * Backtest Engine
+ * Replays a past range of memex_posts hour by hour through a scoring configuration and records,
+ * for each simulated hour, the token scores, tiers and the top-3 ViralPair set that would have been submitted
+ *
+ * Limitations (the replay only sees what is stored today):
+ * - Post engagement counts are the latest stored values, not the values at the simulated hour
+ * - Pools/TVL come from the current GraphQL state
+ * - Momentum is not replayed (it depends on snapshots of the production formula)
+ */
+export class BacktestEngine {
+  /**
+   * Validate a backtest request
+   */
+  validate(request: BacktestRequest): string[] {
+    const errors: string[] = [];
+
+    if (!(request.from instanceof Date) || isNaN(request.from.getTime())) {
+      errors.push('from must be a valid date');
+    }
+    if (!(request.to instanceof Date) || isNaN(request.to.getTime())) {
+      errors.push('to must be a valid date');
+    }
+    if (errors.length === 0) {
+      const hours = this.countHours(request.from, request.to);
+      if (request.to.getTime() < request.from.getTime()) {
+        errors.push('to must not be before from');
+      } else if (hours > MAX_BACKTEST_HOURS) {
+        errors.push(`range must be at most ${MAX_BACKTEST_HOURS} hours (got ${hours})`);
+      }
+      if (request.to.getTime() > Date.now()) {
+        errors.push('to must not be in the future');
+      }
+    }
+
+    const overrides = request.overrides ?? {};
+    const { errors: configErrors } = scoringConfig.validate({ strategyVersion: request.strategyVersion, ...overrides });
+    errors.push(...configErrors);
+
+    return errors;
+  }
+
+  /**
+   * Build the strategy to replay (registered strategy + overrides)
+   */
+  resolveStrategy(strategyVersion: string, overrides: ScoringConfigOverrides = {}): ScoringStrategy {
+    return applyStrategyOverrides(getScoringStrategy(strategyVersion), overrides, `${strategyVersion}+backtest`);
+  }
+
+  /**
+   * Record a new run (status: running) and return its id
+   */
+  async createRun(request: BacktestRequest, createdBy: string): Promise<number> {
+    // Groups left out of the request arrive as undefined keys, so only count the ones with values
+    const hasOverrides = Object.values(request.overrides ?? {}).some((group) => group != null);
+
+    const [run] = await db
+      .insert(schema.backtestRuns)
+      .values({
+        strategyVersion: request.strategyVersion,
+        overrides: hasOverrides ? JSON.stringify(request.overrides) : null,
+        rangeStart: floorToHour(request.from),
+        rangeEnd: floorToHour(request.to),
+        status: 'running',
+        createdBy,
+      })
+      .returning({ id: schema.backtestRuns.id });
+
+    return run.id;
+  }
+
+  /**
+   * Replay every hour of a run and store the results
+   * Marks the run completed or failed; never throws
+   */
+  async execute(runId: number, request: BacktestRequest): Promise<void> {
+    const startTime = Date.now();
+    const strategy = this.resolveStrategy(request.strategyVersion, request.overrides);
+    const calculator = new ScoreCalculator(strategy);
+    const firstHour = floorToHour(request.from);
+    const lastHour = floorToHour(request.to);
+    let hoursSimulated = 0;
+
+    console.log(
+      `[Backtest] Run #${runId}: ${strategy.version} from ${firstHour.toISOString()} to ${lastHour.toISOString()}`
+    );
+
+    try {
+      // Load every post that can fall into any simulated window once
+      const posts = await db.query.memexPosts.findMany({
+        where: and(
+          gt(schema.memexPosts.postCreatedAt, new Date(firstHour.getTime() - POST_WINDOW_MS)),
+          lte(schema.memexPosts.postCreatedAt, lastHour)
+        ),
+      });
+      const pools = await graphqlClient.getMemeTokensWithPools();
+      const productionScores = await this.loadProductionScores(firstHour, lastHour);
+      // Reputations and bot flags are current, not as of each simulated hour (reposts are filtered by time seen)
+      await botDetector.ensureLoaded();
+      await reputationService.ensureLoaded();
+      await repostTracker.ensureLoaded();
+      await tokenRegistry.ensureLoaded();
+      await tokenBlacklist.ensureLoaded();
+
+      console.log(`[Backtest] Run #${runId}: ${posts.length} posts, ${pools.length} token pools`);
+
+      for (let hour = firstHour.getTime(); hour <= lastHour.getTime(); hour += HOUR_MS) {
+        const result = await this.simulateHour(calculator, strategy, posts, pools, hour, productionScores.get(hour));
+
+        await db
+          .insert(schema.backtestResults)
+          .values({
+            runId,
+            simulatedHour: new Date(hour),
+            postCount: result.postCount,
+            tokenScores: JSON.stringify(result.tokenScores),
+            viralPairs: JSON.stringify(result.viralPairs),
+            topTokens: JSON.stringify(result.topTokens),
+            productionTopTokens: result.productionTopTokens ? JSON.stringify(result.productionTopTokens) : null,
+          })
+          .onConflictDoNothing();
+
+        hoursSimulated++;
+      }
+
+      await db
+        .update(schema.backtestRuns)
+        .set({ status: 'completed', hoursSimulated, completedAt: new Date() })
+        .where(eq(schema.backtestRuns.id, runId));
+
+      console.log(`[Backtest] Run #${runId} completed: ${hoursSimulated} hours in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Backtest] Run #${runId} failed:`, error);
+
+      await db
+        .update(schema.backtestRuns)
+        .set({ status: 'failed', hoursSimulated, error: message, completedAt: new Date() })
+        .where(eq(schema.backtestRuns.id, runId))
+        .catch((updateError) => console.error(`[Backtest] Failed to mark run #${runId} as failed:`, updateError));
+    }
+  }
+
+  /**
+   * Create and execute a run (blocking), returning its report
+   */
+  async run(request: BacktestRequest, createdBy: string): Promise<BacktestRunReport | null> {
+    const runId = await this.createRun(request, createdBy);
+    await this.execute(runId, request);
+    return this.getRun(runId);
+  }
+
+  /**
+   * Simulate one hour: aggregate the 7-day window ending at the hour, score, tier and pick viral pairs
+   */
+  private async simulateHour(
+    calculator: ScoreCalculator,
+    strategy: ScoringStrategy,
+    posts: DBMemexPost[],
+    pools: TokenPoolData[],
+    hour: number,
+    productionScores: Map<string, number> | undefined
+  ): Promise<Omit<BacktestHourResult, 'simulatedHour'>> {
+    const windowPosts = posts.filter((post) => {
+      const createdAt = post.postCreatedAt.getTime();
+      return createdAt > hour - POST_WINDOW_MS && createdAt <= hour;
+    });
+
+    const metrics = memexCollector.aggregateDBPosts(windowPosts, calculator.getPostWeighting(), hour);
+    const scores = calculator.calculateBatch(metrics, hour, false);
+
+    const tokenScores: BacktestTokenScore[] = Array.from(scores.entries())
+      .map(([tokenSymbol, score]) => ({ tokenSymbol, score, tier: tierAssigner.getTier(score) }))
+      .sort((a, b) => b.score - a.score);
+
+    const { viralPairs, topTokens } = await this.pickViralPairs(scores, pools);
+    const productionTopTokens = productionScores ? (await this.pickViralPairs(productionScores, pools)).topTokens : null;
+
+    return { postCount: windowPosts.length, tokenScores, viralPairs, topTokens, productionTopTokens };
+  }
+
+  /**
+   * Rank tokens with pools and build the ViralPair set epoch submission would have used
+   */
+  private async pickViralPairs(
+    scores: Map<string, number>,
+    pools: TokenPoolData[]
+  ): Promise<{ viralPairs: ViralPair[]; topTokens: string[] }> {
+    if (pools.length === 0) {
+      return { viralPairs: [], topTokens: [] };
+    }
+
+    const rankings = (await buildTokenRankings(scores, { pools, verbose: false })).slice(0, 3);
+    const topTokens = rankings.map(
+      (ranking) =>
+        pools.find((pool) => pool.tokenAddress.toLowerCase() === ranking.tokenAddress.toLowerCase())?.tokenSymbol ??
+        ranking.tokenAddress
+    );
+
+    return { viralPairs: epochSubmitter.buildViralPairs(rankings), topTokens };
+  }
+
+  /**
+   * Load production snapshot scores in the range, keyed by hour
+   */
+  private async loadProductionScores(firstHour: Date, lastHour: Date): Promise<Map<number, Map<string, number>>> {
+    const snapshots = await db.query.tokenScoreSnapshots.findMany({
+      where: and(gte(schema.tokenScoreSnapshots.snapshotHour, firstHour), lte(schema.tokenScoreSnapshots.snapshotHour, lastHour)),
+    });
+
+    const byHour = new Map<number, Map<string, number>>();
+    for (const snapshot of snapshots) {
+      const hour = snapshot.snapshotHour.getTime();
+      if (!byHour.has(hour)) {
+        byHour.set(hour, new Map());
+      }
+      byHour.get(hour)!.set(snapshot.tokenSymbol.toUpperCase(), snapshot.score);
+    }
+
+    return byHour;
+  }
+
+  /**
+   * Get a run with its results and a comparison summary against production
+   */
+  async getRun(runId: number): Promise<BacktestRunReport | null> {
+    const run = await db.query.backtestRuns.findFirst({
+      where: eq(schema.backtestRuns.id, runId),
+    });
+
+    if (!run) {
+      return null;
+    }
+
+    const rows = await db.query.backtestResults.findMany({
+      where: eq(schema.backtestResults.runId, runId),
+      orderBy: [asc(schema.backtestResults.simulatedHour)],
+    });
+
+    const results: BacktestHourResult[] = rows.map((row) => ({
+      simulatedHour: row.simulatedHour.toISOString(),
+      postCount: row.postCount,
+      tokenScores: JSON.parse(row.tokenScores) as BacktestTokenScore[],
+      viralPairs: JSON.parse(row.viralPairs) as ViralPair[],
+      topTokens: JSON.parse(row.topTokens) as string[],
+      productionTopTokens: row.productionTopTokens ? (JSON.parse(row.productionTopTokens) as string[]) : null,
+    }));
+
+    const compared = results.filter((result) => result.productionTopTokens !== null);
+    const totalOverlap = compared.reduce(
+      (sum, result) => sum + result.topTokens.filter((symbol) => result.productionTopTokens!.includes(symbol)).length,
+      0
+    );
+
+    return {
+      id: run.id,
+      strategyVersion: run.strategyVersion,
+      overrides: run.overrides ? (JSON.parse(run.overrides) as ScoringConfigOverrides) : null,
+      rangeStart: run.rangeStart.toISOString(),
+      rangeEnd: run.rangeEnd.toISOString(),
+      status: run.status as BacktestRunReport['status'],
+      hoursSimulated: run.hoursSimulated,
+      error: run.error,
+      createdBy: run.createdBy,
+      createdAt: run.createdAt.toISOString(),
+      completedAt: run.completedAt?.toISOString() ?? null,
+      summary: {
+        hoursCompared: compared.length,
+        topTokensMatched: compared.filter(
+          (result) => result.topTokens.join(',') === result.productionTopTokens!.join(',')
+        ).length,
+        averageTopOverlap: compared.length > 0 ? Math.round((totalOverlap / compared.length) * 100) / 100 : null,
+      },
+      results,
+    };
+  }
+
+  /**
+   * List recent runs (newest first, without results)
+   */
+  async listRuns(limit: number = 20) {
+    return db.query.backtestRuns.findMany({
+      orderBy: [desc(schema.backtestRuns.createdAt)],
+      limit,
+    });
+  }
+
+  private countHours(from: Date, to: Date): number {
+    return Math.floor((floorToHour(to).getTime() - floorToHour(from).getTime()) / HOUR_MS) + 1;
+  }
+}
+
+// Singleton instance
+export const backtestEngine = new BacktestEngine();
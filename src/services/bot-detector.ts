@@ -0,0 +1,488 @@
+import { db, schema } from '../db/client';
+import { and, desc, eq, gte, inArray, isNotNull, sql } from 'drizzle-orm';
+import type { MemexUser } from '../db/schema';
+import type { BotAction, BotReasonCode, BotScanResult, FlaggedUser } from '../types/bot-detection';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Same window as score aggregation
+const DETECTION_WINDOW_DAYS = 7;
+
+// Cadence: humans do not sustain sub-minute posting or clockwork-regular gaps
+const HIGH_FREQUENCY_MIN_POSTS = 20;
+const HIGH_FREQUENCY_MEDIAN_GAP_MS = 60 * 1000;
+const REGULAR_CADENCE_MIN_POSTS = 10;
+const REGULAR_CADENCE_MAX_CV = 0.15; // Coefficient of variation of the gaps between posts
+
+// Burst: many distinct users posting about one token within a few seconds of each other
+const BURST_WINDOW_MS = 30 * 1000;
+const BURST_MIN_USERS = 5;
+const BURST_PARTICIPANT_MIN_POSTS = 3;
+
+// Sybil cluster: accounts whose token sets are (nearly) identical and that also post in lockstep
+// or copy each other's text; every pair in a cluster has to match, not just a chain of pairs
+const SYBIL_MIN_POSTS = 3;
+const SYBIL_MIN_TOKENS = 3;
+const SYBIL_MIN_JACCARD = 0.8;
+const SYBIL_MIN_CLUSTER_SIZE = 3;
+const SYBIL_TIMING_WINDOW_MS = 5 * 60 * 1000;
+const SYBIL_MIN_TIMED_SHARE = 0.5; // Share of each account's shared-token posts made within the window of the other's
+const SYBIL_MIN_SHARED_DUPLICATES = 2; // Near-duplicate clusters both accounts posted into
+
+// Single-token shill: many posts, always the same lone token
+const SINGLE_TOKEN_MIN_POSTS = 8;
+
+// Aggregation weight for down-weighted users and flagged posts
+const DOWNWEIGHT_FACTOR = 0.25;
+
+interface UserActivity {
+  userName: string | null;
+  postTimes: number[];
+  tokens: Set<string>;
+  tokenTimes: Map<string, number[]>; // Post times per mentioned token
+  duplicateClusters: Set<number>; // Near-duplicate clusters of the user's posts (see services/duplicate-detector.ts)
+  singleTokenPosts: number; // Posts that mention exactly one token
+  burstPosts: number;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+/**
+ * Bot Detector
+ * Flags bot-like users and coordinated posts from stored Memex posts.
+ * Flags are persisted with reason codes and cached in memory so aggregation can exclude
+ * or down-weight them synchronously.
+ */
+export class BotDetector {
+  private userActions = new Map<number, BotAction>();
+  private sybilUsers = new Set<number>();
+  private loadedAt: number | null = null;
+  private lastScan: BotScanResult | null = null;
+
+  /**
+   * Load cached user actions from the database (once, or again when forced)
+   */
+  async ensureLoaded(force: boolean = false): Promise<void> {
+    if (this.loadedAt !== null && !force) return;
+
+    try {
+      const users = await db.query.memexUsers.findMany({
+        where: isNotNull(schema.memexUsers.botAction),
+        columns: { userId: true, botAction: true, botReasons: true },
+      });
+      this.userActions = new Map(users.map((u) => [u.userId, u.botAction as BotAction]));
+      this.sybilUsers = new Set(
+        users.filter((u) => u.botReasons && (JSON.parse(u.botReasons) as BotReasonCode[]).includes('SYBIL_CLUSTER')).map((u) => u.userId)
+      );
+      this.loadedAt = Date.now();
+    } catch (error) {
+      console.error('[BotDetector] Failed to load flags:', error);
+    }
+  }
+
+  /**
+   * Aggregation weight for a post: 0 = excluded, DOWNWEIGHT_FACTOR = down-weighted, 1 = clean
+   * @param postBotReasons Stored post-level reason codes (JSON), if any
+   */
+  getPostWeight(userId: number, postBotReasons: string | null = null): number {
+    const action = this.userActions.get(userId);
+    if (action === 'exclude') return 0;
+
+    const flagged = action === 'downweight' || postBotReasons !== null;
+    return flagged ? DOWNWEIGHT_FACTOR : 1;
+  }
+
+  /**
+   * Whether a user was flagged as part of a sybil cluster
+   */
+  isSybil(userId: number): boolean {
+    return this.sybilUsers.has(userId);
+  }
+
+  /**
+   * Result of the most recent scan in this process
+   */
+  getLastScan(): BotScanResult | null {
+    return this.lastScan;
+  }
+
+  /**
+   * Scan the detection window, persist user and post flags and refresh the cache
+   */
+  async scan(now: number = Date.now()): Promise<BotScanResult> {
+    const windowStart = new Date(now - DETECTION_WINDOW_DAYS * DAY_MS);
+
+    const posts = await db.query.memexPosts.findMany({
+      where: gte(schema.memexPosts.postCreatedAt, windowStart),
+      columns: {
+        id: true,
+        userId: true,
+        userName: true,
+        mentionedTokens: true,
+        extractedTickers: true,
+        extractedHashtags: true,
+        duplicateClusterId: true,
+        postCreatedAt: true,
+      },
+    });
+
+    const activity = new Map<number, UserActivity>();
+    const postsByToken = new Map<string, { id: number; userId: number; time: number }[]>();
+
+    for (const post of posts) {
+      const tokens = new Set<string>(
+        [post.mentionedTokens, post.extractedTickers, post.extractedHashtags].flatMap((json) =>
+          json ? (JSON.parse(json) as string[]).map((t) => t.toUpperCase()) : []
+        )
+      );
+      const time = post.postCreatedAt.getTime();
+
+      const entry = activity.get(post.userId) ?? {
+        userName: post.userName,
+        postTimes: [],
+        tokens: new Set<string>(),
+        tokenTimes: new Map<string, number[]>(),
+        duplicateClusters: new Set<number>(),
+        singleTokenPosts: 0,
+        burstPosts: 0,
+        firstSeenAt: post.postCreatedAt,
+        lastSeenAt: post.postCreatedAt,
+      };
+      entry.postTimes.push(time);
+      for (const token of tokens) {
+        entry.tokens.add(token);
+        if (!entry.tokenTimes.has(token)) entry.tokenTimes.set(token, []);
+        entry.tokenTimes.get(token)!.push(time);
+      }
+      if (post.duplicateClusterId !== null) entry.duplicateClusters.add(post.duplicateClusterId);
+      if (tokens.size === 1) entry.singleTokenPosts += 1;
+      if (post.postCreatedAt < entry.firstSeenAt) entry.firstSeenAt = post.postCreatedAt;
+      if (post.postCreatedAt > entry.lastSeenAt) entry.lastSeenAt = post.postCreatedAt;
+      activity.set(post.userId, entry);
+
+      for (const token of tokens) {
+        if (!postsByToken.has(token)) postsByToken.set(token, []);
+        postsByToken.get(token)!.push({ id: post.id, userId: post.userId, time });
+      }
+    }
+
+    // Post-level: coordinated bursts
+    const burstPostIds = this.detectBursts(postsByToken);
+    for (const post of posts) {
+      if (burstPostIds.has(post.id)) {
+        activity.get(post.userId)!.burstPosts += 1;
+      }
+    }
+
+    // User-level reasons
+    const reasons = new Map<number, BotReasonCode[]>();
+    const addReason = (userId: number, reason: BotReasonCode) => {
+      if (!reasons.has(userId)) reasons.set(userId, []);
+      reasons.get(userId)!.push(reason);
+    };
+
+    for (const [userId, entry] of activity) {
+      const cadence = this.detectCadence(entry.postTimes);
+      if (cadence) addReason(userId, cadence);
+
+      if (entry.postTimes.length >= SINGLE_TOKEN_MIN_POSTS && entry.tokens.size === 1 && entry.singleTokenPosts === entry.postTimes.length) {
+        addReason(userId, 'SINGLE_TOKEN');
+      }
+      if (entry.burstPosts >= BURST_PARTICIPANT_MIN_POSTS) {
+        addReason(userId, 'BURST_PARTICIPANT');
+      }
+    }
+
+    const sybilClusters = this.detectSybilClusters(activity);
+    for (const cluster of sybilClusters) {
+      cluster.forEach((userId) => addReason(userId, 'SYBIL_CLUSTER'));
+    }
+
+    await this.persist(reasons, activity, burstPostIds, windowStart, now);
+
+    const reasonCounts: Partial<Record<BotReasonCode, number>> = {};
+    let excludedUsers = 0;
+    for (const userReasons of reasons.values()) {
+      userReasons.forEach((reason) => (reasonCounts[reason] = (reasonCounts[reason] ?? 0) + 1));
+      if (this.getAction(userReasons) === 'exclude') excludedUsers++;
+    }
+    if (burstPostIds.size > 0) {
+      reasonCounts.COORDINATED_BURST = burstPostIds.size;
+    }
+
+    this.lastScan = {
+      scannedAt: new Date(now).toISOString(),
+      scannedPosts: posts.length,
+      scannedUsers: activity.size,
+      flaggedUsers: reasons.size,
+      excludedUsers,
+      flaggedPosts: burstPostIds.size,
+      reasonCounts,
+      sybilClusters,
+    };
+
+    return this.lastScan;
+  }
+
+  /**
+   * List flagged users, most recently flagged first
+   */
+  async listFlaggedUsers(limit: number = 100): Promise<FlaggedUser[]> {
+    const users = await db.query.memexUsers.findMany({
+      where: isNotNull(schema.memexUsers.botAction),
+      orderBy: [desc(schema.memexUsers.botFlaggedAt)],
+      limit,
+    });
+
+    return users.map((user) => this.toFlaggedUser(user));
+  }
+
+  /**
+   * Get a user's stored flags (null if not flagged)
+   */
+  async getUserFlags(userId: number): Promise<FlaggedUser | null> {
+    const user = await db.query.memexUsers.findFirst({
+      where: eq(schema.memexUsers.userId, userId),
+    });
+    return user?.botAction ? this.toFlaggedUser(user) : null;
+  }
+
+  /**
+   * Count flagged posts per reason code in the detection window
+   */
+  async countFlaggedPosts(now: number = Date.now()): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ reasons: schema.memexPosts.botReasons, count: sql<number>`count(*)::int` })
+      .from(schema.memexPosts)
+      .where(
+        and(
+          isNotNull(schema.memexPosts.botReasons),
+          gte(schema.memexPosts.postCreatedAt, new Date(now - DETECTION_WINDOW_DAYS * DAY_MS))
+        )
+      )
+      .groupBy(schema.memexPosts.botReasons);
+
+    const counts: Record<string, number> = {};
+    for (const row of rows) {
+      for (const reason of JSON.parse(row.reasons!) as string[]) {
+        counts[reason] = (counts[reason] ?? 0) + row.count;
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Two independent reasons exclude, one down-weights (a sybil cluster alone can still be a group of
+   * real fans, so it only down-weights)
+   */
+  private getAction(reasons: BotReasonCode[]): BotAction {
+    return reasons.length >= 2 ? 'exclude' : 'downweight';
+  }
+
+  /**
+   * Flag posts in any BURST_WINDOW_MS window where BURST_MIN_USERS distinct users posted about the same token
+   */
+  private detectBursts(postsByToken: Map<string, { id: number; userId: number; time: number }[]>): Set<number> {
+    const flagged = new Set<number>();
+
+    for (const tokenPosts of postsByToken.values()) {
+      if (tokenPosts.length < BURST_MIN_USERS) continue;
+      tokenPosts.sort((a, b) => a.time - b.time);
+
+      let start = 0;
+      for (let end = 0; end < tokenPosts.length; end++) {
+        while (tokenPosts[end].time - tokenPosts[start].time > BURST_WINDOW_MS) start++;
+
+        const window = tokenPosts.slice(start, end + 1);
+        if (new Set(window.map((p) => p.userId)).size >= BURST_MIN_USERS) {
+          window.forEach((p) => flagged.add(p.id));
+        }
+      }
+    }
+
+    return flagged;
+  }
+
+  /**
+   * Posting cadence check on a user's post times
+   */
+  private detectCadence(postTimes: number[]): BotReasonCode | null {
+    if (postTimes.length < REGULAR_CADENCE_MIN_POSTS) return null;
+
+    const sorted = [...postTimes].sort((a, b) => a - b);
+    const gaps = sorted.slice(1).map((time, i) => time - sorted[i]);
+
+    const medianGap = [...gaps].sort((a, b) => a - b)[Math.floor(gaps.length / 2)];
+    if (postTimes.length >= HIGH_FREQUENCY_MIN_POSTS && medianGap < HIGH_FREQUENCY_MEDIAN_GAP_MS) {
+      return 'HIGH_FREQUENCY';
+    }
+
+    const mean = gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length;
+    if (mean === 0) return 'HIGH_FREQUENCY';
+    const std = Math.sqrt(gaps.reduce((sum, gap) => sum + (gap - mean) ** 2, 0) / gaps.length);
+    return std / mean < REGULAR_CADENCE_MAX_CV ? 'REGULAR_CADENCE' : null;
+  }
+
+  /**
+   * Group accounts into sybil clusters: sets of accounts where every pair matches (see isSybilPair)
+   * Clusters are grown greedily from the best-connected account, so an account joins at most one cluster
+   */
+  private detectSybilClusters(activity: Map<number, UserActivity>): number[][] {
+    const candidates = Array.from(activity.entries())
+      .filter(([, entry]) => entry.postTimes.length >= SYBIL_MIN_POSTS && entry.tokens.size >= SYBIL_MIN_TOKENS)
+      .map(([userId, entry]) => ({ userId, entry }));
+
+    const neighbors = new Map<number, Set<number>>(candidates.map((c) => [c.userId, new Set<number>()]));
+    for (let i = 0; i < candidates.length; i++) {
+      for (let j = i + 1; j < candidates.length; j++) {
+        if (this.isSybilPair(candidates[i].entry, candidates[j].entry)) {
+          neighbors.get(candidates[i].userId)!.add(candidates[j].userId);
+          neighbors.get(candidates[j].userId)!.add(candidates[i].userId);
+        }
+      }
+    }
+
+    const byDegree = candidates
+      .map((c) => c.userId)
+      .filter((userId) => neighbors.get(userId)!.size >= SYBIL_MIN_CLUSTER_SIZE - 1)
+      .sort((a, b) => neighbors.get(b)!.size - neighbors.get(a)!.size || a - b);
+    const assigned = new Set<number>();
+    const clusters: number[][] = [];
+    for (const seed of byDegree) {
+      if (assigned.has(seed)) continue;
+
+      const cluster = [seed];
+      for (const userId of byDegree) {
+        if (userId === seed || assigned.has(userId)) continue;
+        if (cluster.every((member) => neighbors.get(member)!.has(userId))) cluster.push(userId);
+      }
+      if (cluster.length >= SYBIL_MIN_CLUSTER_SIZE) {
+        cluster.forEach((userId) => assigned.add(userId));
+        clusters.push(cluster);
+      }
+    }
+
+    return clusters;
+  }
+
+  /**
+   * Two accounts match when their token sets overlap almost completely (Jaccard similarity) and they
+   * either post about the shared tokens within minutes of each other or post the same near-duplicate text
+   */
+  private isSybilPair(a: UserActivity, b: UserActivity): boolean {
+    // Jaccard ≥ threshold is impossible when the set sizes differ too much
+    if (Math.min(a.tokens.size, b.tokens.size) / Math.max(a.tokens.size, b.tokens.size) < SYBIL_MIN_JACCARD) return false;
+
+    const sharedTokens = Array.from(a.tokens).filter((token) => b.tokens.has(token));
+    if (sharedTokens.length / (a.tokens.size + b.tokens.size - sharedTokens.length) < SYBIL_MIN_JACCARD) return false;
+
+    let sharedDuplicates = 0;
+    a.duplicateClusters.forEach((clusterId) => b.duplicateClusters.has(clusterId) && sharedDuplicates++);
+    if (sharedDuplicates >= SYBIL_MIN_SHARED_DUPLICATES) return true;
+
+    return this.timedShare(a, b, sharedTokens) >= SYBIL_MIN_TIMED_SHARE && this.timedShare(b, a, sharedTokens) >= SYBIL_MIN_TIMED_SHARE;
+  }
+
+  /**
+   * Share of `a`'s posts about the shared tokens made within SYBIL_TIMING_WINDOW_MS of a post by `b` about the same token
+   */
+  private timedShare(a: UserActivity, b: UserActivity, sharedTokens: string[]): number {
+    let posts = 0;
+    let timed = 0;
+    for (const token of sharedTokens) {
+      const otherTimes = b.tokenTimes.get(token)!;
+      for (const time of a.tokenTimes.get(token)!) {
+        posts++;
+        if (otherTimes.some((other) => Math.abs(other - time) <= SYBIL_TIMING_WINDOW_MS)) timed++;
+      }
+    }
+    return posts > 0 ? timed / posts : 0;
+  }
+
+  /**
+   * Store user and post flags, clearing flags that no longer apply, then refresh the cache
+   */
+  private async persist(
+    reasons: Map<number, BotReasonCode[]>,
+    activity: Map<number, UserActivity>,
+    burstPostIds: Set<number>,
+    windowStart: Date,
+    now: number
+  ): Promise<void> {
+    const flaggedAt = new Date(now);
+
+    // All or nothing, so a failed scan never leaves flags half cleared
+    await db.transaction(async (tx) => {
+      // Users flagged previously but clean in this scan
+      const previouslyFlagged = await tx.query.memexUsers.findMany({
+        where: isNotNull(schema.memexUsers.botAction),
+        columns: { userId: true },
+      });
+      const cleared = previouslyFlagged.map((u) => u.userId).filter((userId) => !reasons.has(userId));
+      if (cleared.length > 0) {
+        await tx
+          .update(schema.memexUsers)
+          .set({ botReasons: null, botAction: null, botFlaggedAt: null })
+          .where(inArray(schema.memexUsers.userId, cleared));
+      }
+
+      for (const [userId, userReasons] of reasons) {
+        const entry = activity.get(userId)!;
+        const flags = {
+          botReasons: JSON.stringify(userReasons),
+          botAction: this.getAction(userReasons),
+          botFlaggedAt: flaggedAt,
+        };
+
+        await tx
+          .insert(schema.memexUsers)
+          .values({
+            userId,
+            userName: entry.userName,
+            firstSeenAt: entry.firstSeenAt,
+            lastSeenAt: entry.lastSeenAt,
+            postCount: entry.postTimes.length,
+            ...flags,
+          })
+          .onConflictDoUpdate({ target: schema.memexUsers.userId, set: flags });
+      }
+
+      // Post flags are rebuilt for the whole window
+      await tx
+        .update(schema.memexPosts)
+        .set({ botReasons: null })
+        .where(and(isNotNull(schema.memexPosts.botReasons), gte(schema.memexPosts.postCreatedAt, windowStart)));
+
+      const burstIds = Array.from(burstPostIds);
+      const BATCH_SIZE = 1000;
+      for (let i = 0; i < burstIds.length; i += BATCH_SIZE) {
+        await tx
+          .update(schema.memexPosts)
+          .set({ botReasons: JSON.stringify(['COORDINATED_BURST'] satisfies BotReasonCode[]) })
+          .where(inArray(schema.memexPosts.id, burstIds.slice(i, i + BATCH_SIZE)));
+      }
+    });
+
+    this.userActions = new Map(Array.from(reasons.entries()).map(([userId, userReasons]) => [userId, this.getAction(userReasons)]));
+    this.sybilUsers = new Set(
+      Array.from(reasons.entries())
+        .filter(([, userReasons]) => userReasons.includes('SYBIL_CLUSTER'))
+        .map(([userId]) => userId)
+    );
+    this.loadedAt = now;
+  }
+
+  private toFlaggedUser(user: MemexUser): FlaggedUser {
+    return {
+      userId: user.userId,
+      userName: user.userName,
+      reasons: user.botReasons ? (JSON.parse(user.botReasons) as BotReasonCode[]) : [],
+      action: user.botAction as BotAction,
+      postCount: user.postCount,
+      flaggedAt: (user.botFlaggedAt ?? user.updatedAt).toISOString(),
+    };
+  }
+}
+
+// Singleton instance
+export const botDetector = new BotDetector();
@@ -0,0 +1,291 @@
+import { db, schema } from '../db/client';
+import { gte, lt } from 'drizzle-orm';
+import type {
+  CoMentionCluster,
+  CoMentionEdge,
+  CoMentionNeighbor,
+  CoMentionPairCandidate,
+  CoMentionWindow,
+} from '../types/score';
+import { botDetector } from './bot-detector';
+import { tokenRegistry } from './token-registry';
+import { getPairKey, scoreCalculator } from './score-calculator';
+import { detectCommunities } from '../utils/community';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const CO_MENTION_WINDOWS: Record<CoMentionWindow, number> = { '1h': 1, '1d': 24, '7d': 168 };
+
+// Buckets are kept for the longest window
+const RETENTION_HOURS = CO_MENTION_WINDOWS['7d'];
+
+// Routine refreshes rebuild only recent hours (posts keep arriving for the current and previous hour)
+const REBUILD_HOURS = 2;
+
+const INSERT_BATCH_SIZE = 500;
+
+type Bucket = Map<string, CoMentionEdge>; // Pair key -> edge within one hour
+
+/**
+ * Co-Mention Graph
+ * Tokens mentioned in the same post are linked; each post adds 1 to the pair's post count and
+ * 1/(k-1) to its weight for a post naming k tokens (so ticker lists don't outweigh real discussion),
+ * scaled by the author's bot weight. Edges are kept per hour in `token_co_mentions` and summed over
+ * rolling windows in memory.
+ */
+export class CoMentionGraph {
+  private buckets = new Map<number, Bucket>(); // Hour start (ms) -> edges
+  private loaded = false;
+  private rebuilt = false;
+  private loading: Promise<void> | null = null;
+  private inFlight: Promise<void> | null = null;
+
+  /**
+   * Load stored buckets (once)
+   * Never rebuilds: until the scheduled refresh has stored edges, the graph is empty
+   */
+  async ensureLoaded(now: number = Date.now()): Promise<void> {
+    if (this.loaded) return;
+    // Concurrent callers (scheduler and API requests) share one load
+    if (!this.loading) {
+      this.loading = this.load(now).finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Rebuild recent buckets from stored posts and persist them
+   * @param full Rebuild the whole retention window (e.g. after a backfill)
+   */
+  async refresh(full: boolean = false, now: number = Date.now()): Promise<void> {
+    // Overlapping scheduled refreshes share one rebuild
+    if (!this.inFlight) {
+      this.inFlight = this.rebuild(full, now).finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async load(now: number): Promise<void> {
+    const oldestHour = Math.floor(now / HOUR_MS) * HOUR_MS - (RETENTION_HOURS - 1) * HOUR_MS;
+    const stored = await db.query.tokenCoMentions.findMany({
+      where: gte(schema.tokenCoMentions.bucketHour, new Date(oldestHour)),
+    });
+    for (const row of stored) {
+      this.bucketAt(row.bucketHour.getTime()).set(getPairKey(row.tokenX, row.tokenY), {
+        tokenX: row.tokenX,
+        tokenY: row.tokenY,
+        posts: row.posts,
+        weight: row.weight,
+      });
+    }
+    this.loaded = true;
+    console.log(`[CoMentionGraph] Loaded ${stored.length} hourly edges`);
+  }
+
+  private async rebuild(full: boolean, now: number): Promise<void> {
+    const currentHour = Math.floor(now / HOUR_MS) * HOUR_MS;
+    const oldestHour = currentHour - (RETENTION_HOURS - 1) * HOUR_MS;
+
+    // The first rebuild after startup builds the whole retention window when nothing is stored yet
+    await this.ensureLoaded(now);
+    full = full || (!this.rebuilt && this.buckets.size === 0);
+
+    const fromHour = full ? oldestHour : currentHour - (REBUILD_HOURS - 1) * HOUR_MS;
+    const rebuilt = await this.buildBuckets(fromHour);
+
+    const rows = Array.from(rebuilt.entries()).flatMap(([hour, bucket]) =>
+      Array.from(bucket.values()).map((edge) => ({ ...edge, bucketHour: new Date(hour) }))
+    );
+
+    // Replace the rebuilt hours and drop hours past retention in one transaction, so a failed insert
+    // can't leave the rebuilt hours empty
+    await db.transaction(async (tx) => {
+      await tx.delete(schema.tokenCoMentions).where(gte(schema.tokenCoMentions.bucketHour, new Date(fromHour)));
+      await tx.delete(schema.tokenCoMentions).where(lt(schema.tokenCoMentions.bucketHour, new Date(oldestHour)));
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        await tx.insert(schema.tokenCoMentions).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+      }
+    });
+
+    for (const hour of Array.from(this.buckets.keys())) {
+      if (hour < oldestHour || hour >= fromHour) this.buckets.delete(hour);
+    }
+    for (const [hour, bucket] of rebuilt) {
+      this.buckets.set(hour, bucket);
+    }
+    this.rebuilt = true;
+
+    if (full) {
+      console.log(`[CoMentionGraph] Rebuilt ${rows.length} hourly edges over ${RETENTION_HOURS}h`);
+    }
+  }
+
+  /**
+   * Edges summed over a rolling window, keyed by pair key
+   */
+  getEdges(window: CoMentionWindow = '7d', now: number = Date.now()): Map<string, CoMentionEdge> {
+    const fromHour = Math.floor(now / HOUR_MS) * HOUR_MS - (CO_MENTION_WINDOWS[window] - 1) * HOUR_MS;
+    const edges = new Map<string, CoMentionEdge>();
+
+    for (const [hour, bucket] of this.buckets) {
+      if (hour < fromHour) continue;
+      for (const [pairKey, edge] of bucket) {
+        const total = edges.get(pairKey) ?? { tokenX: edge.tokenX, tokenY: edge.tokenY, posts: 0, weight: 0 };
+        total.posts += edge.posts;
+        total.weight += edge.weight;
+        edges.set(pairKey, total);
+      }
+    }
+
+    return edges;
+  }
+
+  /**
+   * Posts mentioning both tokens of each pair over a window (coMention pair score policy)
+   */
+  getCoMentionCounts(window: CoMentionWindow = '7d'): Map<string, number> {
+    return new Map(Array.from(this.getEdges(window).entries()).map(([pairKey, edge]) => [pairKey, edge.posts]));
+  }
+
+  /**
+   * Tokens most discussed alongside a token, by co-mention weight
+   */
+  getNeighbors(tokenSymbol: string, window: CoMentionWindow = '7d', limit: number = 20): CoMentionNeighbor[] {
+    const symbol = tokenSymbol.toUpperCase();
+    const neighbors: Omit<CoMentionNeighbor, 'share'>[] = [];
+
+    for (const edge of this.getEdges(window).values()) {
+      if (edge.tokenX === symbol) neighbors.push({ tokenSymbol: edge.tokenY, posts: edge.posts, weight: edge.weight });
+      else if (edge.tokenY === symbol) neighbors.push({ tokenSymbol: edge.tokenX, posts: edge.posts, weight: edge.weight });
+    }
+
+    const totalWeight = neighbors.reduce((sum, n) => sum + n.weight, 0);
+    return neighbors
+      .sort((a, b) => b.weight - a.weight || b.posts - a.posts)
+      .slice(0, limit)
+      .map((n) => ({ ...n, weight: round(n.weight), share: totalWeight > 0 ? round(n.weight / totalWeight) : 0 }));
+  }
+
+  /**
+   * Communities of tokens discussed together (edges with at least `minPosts` joint posts)
+   */
+  getClusters(window: CoMentionWindow = '7d', minPosts: number = 2): CoMentionCluster[] {
+    const edges = Array.from(this.getEdges(window).values()).filter((edge) => edge.posts >= minPosts);
+    const communities = detectCommunities(edges.map((edge) => ({ a: edge.tokenX, b: edge.tokenY, weight: edge.weight })));
+
+    const clusters: CoMentionCluster[] = [];
+    for (const members of communities) {
+      if (members.length < 2) continue;
+
+      const inCluster = new Set(members);
+      const degree = new Map(members.map((token) => [token, 0]));
+      let internalWeight = 0;
+      for (const edge of edges) {
+        if (!inCluster.has(edge.tokenX) || !inCluster.has(edge.tokenY)) continue;
+        internalWeight += edge.weight;
+        degree.set(edge.tokenX, degree.get(edge.tokenX)! + edge.weight);
+        degree.set(edge.tokenY, degree.get(edge.tokenY)! + edge.weight);
+      }
+
+      clusters.push({
+        tokens: members.sort((a, b) => degree.get(b)! - degree.get(a)! || a.localeCompare(b)),
+        internalWeight: round(internalWeight),
+      });
+    }
+
+    return clusters.sort((a, b) => b.internalWeight - a.internalWeight);
+  }
+
+  /**
+   * Most co-mentioned pairs with their social pair score, for pool discovery
+   * @param tokenScores Current token scores (both tokens must be scored unless includeUnscored)
+   */
+  async getPairCandidates(
+    tokenScores: Map<string, number>,
+    options: { window?: CoMentionWindow; limit?: number; includeUnscored?: boolean } = {}
+  ): Promise<CoMentionPairCandidate[]> {
+    const { window = '7d', limit = 20, includeUnscored = false } = options;
+
+    const pools = await db.query.pairPools.findMany({ columns: { tokenXSymbol: true, tokenYSymbol: true } });
+    const pooled = new Set(pools.map((pool) => getPairKey(pool.tokenXSymbol, pool.tokenYSymbol)));
+
+    return Array.from(this.getEdges(window).entries())
+      .filter(([, edge]) => includeUnscored || (tokenScores.has(edge.tokenX) && tokenScores.has(edge.tokenY)))
+      .sort(([, a], [, b]) => b.weight - a.weight || b.posts - a.posts)
+      .slice(0, limit)
+      .map(([pairKey, edge]) => ({
+        ...edge,
+        weight: round(edge.weight),
+        pairScore: scoreCalculator.calculatePairScore(0, 0, 'coMention', { coMentions: edge.posts }),
+        tokenXScore: tokenScores.get(edge.tokenX) ?? null,
+        tokenYScore: tokenScores.get(edge.tokenY) ?? null,
+        hasPool: pooled.has(pairKey),
+      }));
+  }
+
+  /**
+   * Build hourly buckets from stored posts created since `fromHour`
+   * Uses the same token columns and registry resolution as aggregation; posts of excluded bot users are skipped
+   */
+  private async buildBuckets(fromHour: number): Promise<Map<number, Bucket>> {
+    await botDetector.ensureLoaded();
+    await tokenRegistry.ensureLoaded();
+
+    const posts = await db.query.memexPosts.findMany({
+      where: gte(schema.memexPosts.postCreatedAt, new Date(fromHour)),
+      columns: {
+        userId: true,
+        botReasons: true,
+        mentionedTokens: true,
+        extractedTickers: true,
+        extractedHashtags: true,
+        postCreatedAt: true,
+      },
+    });
+
+    const buckets = new Map<number, Bucket>();
+    for (const post of posts) {
+      const botWeight = botDetector.getPostWeight(post.userId, post.botReasons);
+      if (botWeight <= 0) continue;
+
+      const mentions: string[] = post.mentionedTokens ? JSON.parse(post.mentionedTokens) : [];
+      const tickers: string[] = post.extractedTickers ? JSON.parse(post.extractedTickers) : [];
+      const hashtags: string[] = post.extractedHashtags ? JSON.parse(post.extractedHashtags) : [];
+      const tokens = tokenRegistry.resolveSymbols([...mentions, ...tickers, ...hashtags]).sort();
+      if (tokens.length < 2) continue;
+
+      const hour = Math.floor(post.postCreatedAt.getTime() / HOUR_MS) * HOUR_MS;
+      if (!buckets.has(hour)) buckets.set(hour, new Map());
+      const bucket = buckets.get(hour)!;
+      const weight = botWeight / (tokens.length - 1);
+
+      for (let i = 0; i < tokens.length; i++) {
+        for (let j = i + 1; j < tokens.length; j++) {
+          const pairKey = getPairKey(tokens[i], tokens[j]);
+          const edge = bucket.get(pairKey) ?? { tokenX: tokens[i], tokenY: tokens[j], posts: 0, weight: 0 };
+          edge.posts += 1;
+          edge.weight += weight;
+          bucket.set(pairKey, edge);
+        }
+      }
+    }
+
+    return buckets;
+  }
+
+  private bucketAt(hour: number): Bucket {
+    if (!this.buckets.has(hour)) this.buckets.set(hour, new Map());
+    return this.buckets.get(hour)!;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Singleton instance
+export const coMentionGraph = new CoMentionGraph();
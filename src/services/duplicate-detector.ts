@@ -0,0 +1,134 @@
+import { db, schema } from '../db/client';
+import { and, gte, isNotNull } from 'drizzle-orm';
+import type { MemexPost } from '../types/memex';
+import { computeMinHash, minHashSimilarity, lshBandKeys } from '../utils/minhash';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fingerprints are kept for the aggregation window
+const FINGERPRINT_WINDOW_DAYS = 7;
+
+// Estimated Jaccard similarity at which two posts are the same copypasta
+const DUPLICATE_SIMILARITY = 0.7;
+
+interface FingerprintEntry {
+  memexPostId: number;
+  clusterId: number;
+  signature: number[];
+  postedAt: number;
+}
+
+/**
+ * Duplicate Detector
+ * Fingerprints post text with MinHash and groups near-duplicates into clusters.
+ * A cluster id is the memexPostId of the first post seen with that text.
+ * The LSH index is in memory (rebuilt from stored fingerprints on startup).
+ */
+export class DuplicateDetector {
+  private bands = new Map<string, FingerprintEntry[]>();
+  private clusterByPost = new Map<number, number>();
+  private loaded = false;
+
+  /**
+   * Rebuild the index from fingerprints stored in the window (once)
+   */
+  async ensureLoaded(): Promise<void> {
+    if (this.loaded) return;
+
+    try {
+      const posts = await db.query.memexPosts.findMany({
+        where: and(
+          isNotNull(schema.memexPosts.textFingerprint),
+          gte(schema.memexPosts.postCreatedAt, new Date(Date.now() - FINGERPRINT_WINDOW_DAYS * DAY_MS))
+        ),
+        columns: { memexPostId: true, textFingerprint: true, duplicateClusterId: true, postCreatedAt: true },
+      });
+
+      for (const post of posts) {
+        this.register({
+          memexPostId: post.memexPostId,
+          clusterId: post.duplicateClusterId ?? post.memexPostId,
+          signature: JSON.parse(post.textFingerprint!) as number[],
+          postedAt: post.postCreatedAt.getTime(),
+        });
+      }
+
+      this.loaded = true;
+      console.log(`[DuplicateDetector] Loaded ${posts.length} fingerprints`);
+    } catch (error) {
+      console.error('[DuplicateDetector] Failed to load fingerprints:', error);
+    }
+  }
+
+  /**
+   * Fingerprint a post and assign it to a near-duplicate cluster
+   * Synchronous so concurrent saves in one batch see each other's fingerprints
+   * Returns nulls for posts whose text is too short to fingerprint
+   */
+  assignCluster(post: MemexPost): { fingerprint: string | null; clusterId: number | null } {
+    const signature = computeMinHash(this.getPostText(post));
+    if (!signature) {
+      return { fingerprint: null, clusterId: null };
+    }
+
+    const fingerprint = JSON.stringify(signature);
+    const known = this.clusterByPost.get(post.id);
+    if (known !== undefined) {
+      return { fingerprint, clusterId: known };
+    }
+
+    // Most similar earlier post among LSH candidates
+    let best: FingerprintEntry | null = null;
+    let bestSimilarity = 0;
+    for (const key of lshBandKeys(signature)) {
+      for (const candidate of this.bands.get(key) ?? []) {
+        const similarity = minHashSimilarity(signature, candidate.signature);
+        if (similarity > bestSimilarity) {
+          best = candidate;
+          bestSimilarity = similarity;
+        }
+      }
+    }
+
+    const clusterId = best && bestSimilarity >= DUPLICATE_SIMILARITY ? best.clusterId : post.id;
+    this.register({ memexPostId: post.id, clusterId, signature, postedAt: new Date(post.createdAt).getTime() });
+    return { fingerprint, clusterId };
+  }
+
+  /**
+   * Drop fingerprints older than the window
+   */
+  prune(now: number = Date.now()): void {
+    const cutoff = now - FINGERPRINT_WINDOW_DAYS * DAY_MS;
+    for (const [key, entries] of this.bands) {
+      const kept = entries.filter((entry) => entry.postedAt >= cutoff);
+      if (kept.length === entries.length) continue;
+
+      entries.forEach((entry) => entry.postedAt < cutoff && this.clusterByPost.delete(entry.memexPostId));
+      if (kept.length === 0) {
+        this.bands.delete(key);
+      } else {
+        this.bands.set(key, kept);
+      }
+    }
+  }
+
+  private register(entry: FingerprintEntry): void {
+    this.clusterByPost.set(entry.memexPostId, entry.clusterId);
+    for (const key of lshBandKeys(entry.signature)) {
+      if (!this.bands.has(key)) this.bands.set(key, []);
+      this.bands.get(key)!.push(entry);
+    }
+  }
+
+  /**
+   * Full post text, including mentions and hashtags (campaigns paste those too)
+   */
+  private getPostText(post: MemexPost): string {
+    const parts = (post.body ?? []).map((item) => item.value);
+    return parts.length > 0 ? parts.join(' ') : post.value || '';
+  }
+}
+
+// Singleton instance
+export const duplicateDetector = new DuplicateDetector();
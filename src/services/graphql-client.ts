@@ -263,22 +263,6 @@ export class GraphQLClient {
       tvlUSD: p.tvlUSD,
     }));
   }
-
-  /**
-   * Get token symbol to address mapping
-   */
-  async getTokenAddressMap(): Promise<Map<string, Address>> {
-    const pairs = await this.fetchAllPairs();
-    const map = new Map<string, Address>();
-
-    for (const pair of pairs) {
-      // Normalize addresses to lowercase for consistency
-      map.set(pair.tokenX.symbol.toUpperCase(), pair.tokenX.address.toLowerCase() as Address);
-      map.set(pair.tokenY.symbol.toUpperCase(), pair.tokenY.address.toLowerCase() as Address);
-    }
-
-    return map;
-  }
 }
 
 // Singleton instance
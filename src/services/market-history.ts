@@ -0,0 +1,75 @@
+import { db, schema } from '../db/client';
+import { and, gte, lte } from 'drizzle-orm';
+import { graphqlClient } from './graphql-client';
+import { memexCollector } from './memex-collector';
+import { tokenRegistry } from './token-registry';
+import type { NewTokenMarketSnapshot, TokenMarketSnapshot } from '../db/schema';
+
+/**
+ * Market History Service
+ * Records hourly market state per token (pool TVL from GraphQL, volume/holders/price from the
+ * Memex leaderboard), so scoring can later be evaluated against what happened to each token.
+ * Rows are keyed by the token's canonical registry symbol.
+ */
+export class MarketHistoryService {
+  /**
+   * Capture market state for the given hour
+   * Either source may fail independently; the other is still recorded
+   */
+  async captureSnapshot(snapshotHour: Date): Promise<number> {
+    await tokenRegistry.ensureLoaded();
+
+    const rows = new Map<string, NewTokenMarketSnapshot>();
+    const rowFor = (token: { tokenAddress: string; tokenSymbol: string }): NewTokenMarketSnapshot => {
+      const key = tokenRegistry.getByAddress(token.tokenAddress)?.symbol ?? token.tokenSymbol.toUpperCase();
+      let row = rows.get(key);
+      if (!row) {
+        row = { tokenSymbol: key, snapshotHour, tvlUsd: null, volume: null, holders: null, priceUsd: null };
+        rows.set(key, row);
+      }
+      return row;
+    };
+
+    try {
+      const pools = await graphqlClient.getMemeTokensWithPools();
+      for (const token of pools) {
+        const row = rowFor(token);
+        row.tvlUsd = (row.tvlUsd ?? 0) + token.totalTvlUSD;
+      }
+    } catch (error) {
+      console.error('[MarketHistory] Failed to fetch pool TVL:', error);
+    }
+
+    const leaderboard = await memexCollector.fetchLeaderboard({ limit: 500 });
+    for (const token of leaderboard?.data ?? []) {
+      const row = rowFor(token);
+      row.volume = token.volume;
+      row.holders = token.holder;
+      row.priceUsd = parseFloat(token.tokenUsdPriceNow) || null;
+    }
+
+    for (const row of rows.values()) {
+      await db
+        .insert(schema.tokenMarketSnapshots)
+        .values(row)
+        .onConflictDoUpdate({
+          target: [schema.tokenMarketSnapshots.tokenSymbol, schema.tokenMarketSnapshots.snapshotHour],
+          set: { tvlUsd: row.tvlUsd, volume: row.volume, holders: row.holders, priceUsd: row.priceUsd },
+        });
+    }
+
+    return rows.size;
+  }
+
+  /**
+   * Get market snapshots in a time range (inclusive)
+   */
+  async getHistory(from: Date, to: Date): Promise<TokenMarketSnapshot[]> {
+    return db.query.tokenMarketSnapshots.findMany({
+      where: and(gte(schema.tokenMarketSnapshots.snapshotHour, from), lte(schema.tokenMarketSnapshots.snapshotHour, to)),
+    });
+  }
+}
+
+// Singleton instance
+export const marketHistory = new MarketHistoryService();
@@ -0,0 +1,105 @@
+import { db, schema } from '../db/client';
+import { and, gte, lte } from 'drizzle-orm';
+import type { AggregatedMetrics, TokenMarketSignals } from '../types/memex';
+import { memexCollector } from './memex-collector';
+import { tokenRegistry } from './token-registry';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// The leaderboard changes slowly compared to the scoring interval
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+// Holder growth compares against the market snapshot taken this long ago
+// (the newest one in a 2h window, in case an hourly capture was missed)
+const HOLDER_GROWTH_HOURS = 24;
+const HOLDER_BASELINE_WINDOW_HOURS = 2;
+
+/**
+ * Market Signals Service
+ * Joins the current Memex leaderboard (volume, holders, transactions) to aggregated token metrics
+ * for the marketSignals scoring stage. Holder growth is measured against the hourly market snapshots.
+ * Tokens are keyed by their canonical registry symbol (looked up by contract address).
+ */
+export class MarketSignalsService {
+  private signals = new Map<string, TokenMarketSignals>();
+  private refreshedAt: number | null = null;
+
+  /**
+   * Refetch the leaderboard when the cached signals are older than the refresh interval
+   * Keeps the previous signals when the leaderboard is unavailable, and waits out the interval before retrying
+   */
+  async refreshIfStale(now: number = Date.now()): Promise<void> {
+    if (this.refreshedAt !== null && now - this.refreshedAt < REFRESH_INTERVAL_MS) return;
+    this.refreshedAt = now;
+
+    const leaderboard = await memexCollector.fetchLeaderboard({ limit: 500 });
+    if (!leaderboard?.data) return;
+
+    const baseline = await this.getHolderBaseline(now);
+    const signals = new Map<string, TokenMarketSignals>();
+
+    await tokenRegistry.ensureLoaded();
+    for (const token of leaderboard.data) {
+      const symbol = tokenRegistry.getByAddress(token.tokenAddress)?.symbol ?? token.tokenSymbol.toUpperCase();
+      const previousHolders = baseline.get(symbol);
+      const entry: TokenMarketSignals = {
+        volume: token.volume,
+        holders: token.holder,
+        holderGrowth: previousHolders !== undefined ? token.holder - previousHolders : null,
+        transactions: token.transactions,
+        priceChange24hPercent: token.tokenUsdPrice24hChangePercent,
+        bondingCurveProgress: token.bondingCurveProgress,
+      };
+      signals.set(symbol, entry);
+    }
+
+    this.signals = signals;
+    console.log(`[MarketSignals] Loaded ${leaderboard.data.length} leaderboard tokens (${baseline.size} with holder baseline)`);
+  }
+
+  /**
+   * Attach current market signals to aggregated metrics (null for tokens not on the leaderboard)
+   */
+  attach(metrics: AggregatedMetrics[]): void {
+    for (const m of metrics) {
+      m.market = this.signals.get(m.tokenSymbol.toUpperCase()) ?? null;
+    }
+  }
+
+  /**
+   * Current market signals of a token
+   */
+  getSignals(tokenSymbol: string): TokenMarketSignals | null {
+    return this.signals.get(tokenSymbol.toUpperCase()) ?? null;
+  }
+
+  /**
+   * Holder counts from the newest market snapshot around HOLDER_GROWTH_HOURS ago
+   */
+  private async getHolderBaseline(now: number): Promise<Map<string, number>> {
+    const baseline = new Map<string, number>();
+    const to = now - HOLDER_GROWTH_HOURS * HOUR_MS;
+
+    try {
+      const snapshots = await db.query.tokenMarketSnapshots.findMany({
+        where: and(
+          gte(schema.tokenMarketSnapshots.snapshotHour, new Date(to - HOLDER_BASELINE_WINDOW_HOURS * HOUR_MS)),
+          lte(schema.tokenMarketSnapshots.snapshotHour, new Date(to))
+        ),
+        columns: { tokenSymbol: true, snapshotHour: true, holders: true },
+        orderBy: (snapshots, { asc }) => [asc(snapshots.snapshotHour)],
+      });
+
+      for (const snapshot of snapshots) {
+        if (snapshot.holders !== null) baseline.set(snapshot.tokenSymbol, snapshot.holders);
+      }
+    } catch (error) {
+      console.error('[MarketSignals] Failed to load holder baseline:', error);
+    }
+
+    return baseline;
+  }
+}
+
+// Singleton instance
+export const marketSignals = new MarketSignalsService();
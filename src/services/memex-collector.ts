@@ -6,14 +6,103 @@ import type {
   ExtractedTokens,
   MemexLeaderboardResponse,
   TokenImageInfo,
+  PostWeighting,
 } from '../types/memex';
 import { db, schema } from '../db/client';
 import { eq, gte, desc } from 'drizzle-orm';
 import type { MemexPost as DBMemexPost } from '../db/schema';
+import { calculateDecayFactor, sumUserWeights } from './score-calculator';
+import { sentimentAnalyzer, NEGATIVE_SENTIMENT_THRESHOLD } from './sentiment-analyzer';
+import { reputationService } from './reputation';
+import { botDetector } from './bot-detector';
+import { duplicateDetector } from './duplicate-detector';
+import { repostTracker } from './repost-tracker';
+import { tokenRegistry } from './token-registry';
+import { tokenBlacklist } from './token-blacklist';
+import { buildThreadGraph, type ConversationStats } from '../utils/thread-graph';
 
 const MEMEX_API_BASE = process.env.MEMEX_API_BASE || 'https://app.memex.xyz/api/service/public';
 const MEMEX_LEADERBOARD_API = 'https://app.memex.xyz/api/leaderboard/public/rank/v2.1/getRank';
 
+// Per-post weighting for callers without a scoring strategy (scoring passes the strategy's own,
+// so the half-life is versioned with the strategy rather than configured per deployment)
+const DEFAULT_POST_WEIGHTING: PostWeighting = {
+  halfLifeHours: 24,
+  reputationWeight: 0,
+  replyCreditWeight: 0,
+};
+
+// Each further copy of near-duplicate text counts half as much as the previous one
+const DUPLICATE_COPY_DECAY = 0.5;
+
+/**
+ * Sizes of clusters with 2+ posts, largest first
+ */
+function getDuplicateClusterSizes(clusters: Map<number, number>): number[] {
+  return Array.from(clusters.values())
+    .filter((size) => size > 1)
+    .sort((a, b) => b - a);
+}
+
+/**
+ * When a token was first seen: its registration or its earliest post in the window, whichever is older
+ * The window alone would make a token that went quiet for longer than the window look new again
+ */
+function resolveFirstSeenAt(symbol: string, windowFirstSeenAt: Date): Date {
+  const registeredAt = tokenRegistry.getBySymbol(symbol)?.firstSeenAt;
+  return registeredAt && registeredAt < windowFirstSeenAt ? registeredAt : windowFirstSeenAt;
+}
+
+/**
+ * Conversation depth/breadth summary over a token's conversation roots
+ */
+function summarizeConversations(
+  roots: Set<number>,
+  conversations: Map<number, ConversationStats>
+): { conversationCount: number; avgConversationDepth: number; maxConversationDepth: number; avgConversationBreadth: number } {
+  let totalDepth = 0;
+  let maxDepth = 0;
+  let totalBreadth = 0;
+  for (const root of roots) {
+    const stats = conversations.get(root);
+    totalDepth += stats?.depth ?? 0;
+    maxDepth = Math.max(maxDepth, stats?.depth ?? 0);
+    totalBreadth += stats?.participants ?? 0;
+  }
+  return {
+    conversationCount: roots.size,
+    avgConversationDepth: roots.size > 0 ? totalDepth / roots.size : 0,
+    maxConversationDepth: maxDepth,
+    avgConversationBreadth: roots.size > 0 ? totalBreadth / roots.size : 0,
+  };
+}
+
+/**
+ * Distinct reposters and their reputation-weighted reach
+ */
+function summarizeAmplification(reposterWeights: Map<number, number>): { distinctReposters: number; amplificationReach: number } {
+  let reach = 0;
+  for (const [reposterId, weight] of reposterWeights) {
+    reach += weight * reputationService.getReputation(reposterId);
+  }
+  return { distinctReposters: reposterWeights.size, amplificationReach: reach };
+}
+
+/**
+ * API posts plus the thread posts embedded in them (each post once)
+ */
+function withThreadPosts(posts: MemexPost[]): MemexPost[] {
+  const byId = new Map<number, MemexPost>();
+  const pending = [...posts];
+  while (pending.length > 0) {
+    const post = pending.shift()!;
+    if (byId.has(post.id)) continue;
+    byId.set(post.id, post);
+    pending.push(...(post.threads ?? []));
+  }
+  return Array.from(byId.values());
+}
+
 /**
  * Memex Data Collector
  * Fetches and processes social media data from Memex API
@@ -75,11 +164,12 @@ export class MemexCollector {
   }
 
   /**
-   * Extract mentioned tokens from a post (legacy method for compatibility)
+   * Extract mentioned tokens from a post, resolved to canonical symbols through the token registry
+   * (unregistered references are dropped while token validation is active, as are tokens blacklisted from scoring)
    */
   extractMentionedTokens(post: MemexPost): string[] {
     const extracted = this.extractTokensEnhanced(post);
-    return extracted.all;
+    return tokenRegistry.resolveSymbols(extracted.all).filter((symbol) => !tokenBlacklist.isBlacklisted(symbol, 'scoring'));
   }
 
   /**
@@ -133,15 +223,29 @@ export class MemexCollector {
   /**
    * Aggregate metrics by token from API posts
    * Used for immediate processing before DB save
+   * Near-duplicate clusters come from the duplicate detector's index (see duplicateDetector.ensureLoaded)
    */
-  aggregateByToken(posts: MemexPost[]): Map<string, TokenMetrics> {
+  aggregateByToken(posts: MemexPost[], weighting: PostWeighting = DEFAULT_POST_WEIGHTING): Map<string, TokenMetrics> {
     const metrics = new Map<string, TokenMetrics>();
     let processedCount = 0;
     let totalTokensExtracted = 0;
+    const now = Date.now();
+
+    // Oldest first, so the original of a near-duplicate cluster counts fully and later copies decay
+    const sortedPosts = [...posts].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    for (const post of sortedPosts) {
+      // Posts from users flagged as bots are excluded or down-weighted
+      const botWeight = botDetector.getPostWeight(post.user.id);
+      if (botWeight === 0) continue;
 
-    for (const post of posts) {
       const tokens = this.extractMentionedTokens(post);
       totalTokensExtracted += tokens.length;
+      const decay =
+        calculateDecayFactor(new Date(post.createdAt), weighting.halfLifeHours, now) *
+        reputationService.getPostWeight(post.user.id, weighting.reputationWeight) *
+        botWeight;
+      const sentiment = sentimentAnalyzer.analyzePost(post);
+      const { clusterId } = duplicateDetector.assignCluster(post);
 
       for (const token of tokens) {
         const existing = metrics.get(token) || {
@@ -151,38 +255,87 @@ export class MemexCollector {
           likes: 0,
           reposts: 0,
           replies: 0,
-          uniqueUsers: new Set<number>(),
+          uniqueUsers: new Map<number, number>(),
           latestPostTime: new Date(0),
+          firstSeenAt: new Date(post.createdAt),
           avgBondingCurveProgress: 0,
           graduatedPostCount: 0,
           postsWithImages: 0,
           totalPriceFluctuation: 0,
           preOrderedUserPosts: 0,
+          decayedPosts: 0,
+          decayedViews: 0,
+          decayedLikes: 0,
+          decayedReposts: 0,
+          decayedReplies: 0,
+          totalSentiment: 0,
+          negativePosts: 0,
+          duplicateClusters: new Map<number, number>(),
+          conversationRoots: new Set<number>(),
+          creditedReplies: 0,
+          reposterWeights: new Map<number, number>(),
+          postContributions: [],
         };
 
-        existing.posts += 1;
-        existing.views += post.viewCount;
-        existing.likes += post.likeCount;
-        existing.reposts += post.repostCount;
-        existing.replies += post.replyCount;
-        existing.uniqueUsers.add(post.user.id);
+        // Near-duplicate copies decay geometrically within the token's cluster
+        let copyWeight = 1;
+        if (clusterId !== null) {
+          const copies = existing.duplicateClusters.get(clusterId) ?? 0;
+          existing.duplicateClusters.set(clusterId, copies + 1);
+          copyWeight = Math.pow(DUPLICATE_COPY_DECAY, copies);
+        }
+        const weight = decay * copyWeight;
+        const countWeight = botWeight * copyWeight;
+        // Authors of copies are not new users; flagged users count for less
+        const userWeight = copyWeight === 1 ? botWeight : 0;
+
+        // Flagged posts and copies count for less in the raw counters and per-post ratios too, not just the decayed metrics
+        existing.posts += countWeight;
+        existing.views += post.viewCount * countWeight;
+        existing.likes += post.likeCount * countWeight;
+        existing.reposts += post.repostCount * countWeight;
+        existing.replies += post.replyCount * countWeight;
+        existing.uniqueUsers.set(post.user.id, Math.max(existing.uniqueUsers.get(post.user.id) ?? 0, userWeight));
+
+        existing.decayedPosts += weight;
+        existing.decayedViews += post.viewCount * weight;
+        existing.decayedLikes += post.likeCount * weight;
+        existing.decayedReposts += post.repostCount * weight;
+        existing.decayedReplies += post.replyCount * weight;
+        existing.postContributions.push({
+          userId: post.user.id,
+          weight,
+          views: post.viewCount,
+          likes: post.likeCount,
+          reposts: post.repostCount,
+          replies: post.replyCount,
+          countWeight,
+          userWeight,
+        });
+        existing.totalSentiment += sentiment.score * countWeight;
+        if (sentiment.isNegative) {
+          existing.negativePosts += countWeight;
+        }
 
-        existing.avgBondingCurveProgress += post.bondingCurveProgress;
+        existing.avgBondingCurveProgress += post.bondingCurveProgress * countWeight;
         if (post.bondingCurveProgress === 100) {
-          existing.graduatedPostCount += 1;
+          existing.graduatedPostCount += countWeight;
         }
         if (post.imageSrc && post.imageSrc.length > 0) {
-          existing.postsWithImages += 1;
+          existing.postsWithImages += countWeight;
         }
-        existing.totalPriceFluctuation += Math.abs(post.priceFluctuationRange);
+        existing.totalPriceFluctuation += Math.abs(post.priceFluctuationRange) * countWeight;
         if (post.user.isPreOrdered) {
-          existing.preOrderedUserPosts += 1;
+          existing.preOrderedUserPosts += countWeight;
         }
 
         const postTime = new Date(post.createdAt);
         if (postTime > existing.latestPostTime) {
           existing.latestPostTime = postTime;
         }
+        if (postTime < existing.firstSeenAt) {
+          existing.firstSeenAt = postTime;
+        }
 
         metrics.set(token, existing);
       }
@@ -200,8 +353,9 @@ export class MemexCollector {
   /**
    * Aggregate metrics from DB posts (7 days window)
    * This uses the latest metrics from DB, reflecting real-time updates
+   * Each post's engagement is also weighted by its own age (and author reputation) into the decayed* metrics
    */
-  async aggregateFromDB(): Promise<AggregatedMetrics[]> {
+  async aggregateFromDB(weighting: PostWeighting = DEFAULT_POST_WEIGHTING): Promise<AggregatedMetrics[]> {
     const sevenDaysAgo = new Date();
     sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
 
@@ -218,16 +372,65 @@ export class MemexCollector {
       return [];
     }
 
+    // Reputations are also needed for amplification reach, even without reputation weighting
+    await botDetector.ensureLoaded();
+    await reputationService.ensureLoaded();
+    await repostTracker.ensureLoaded();
+    await tokenRegistry.ensureLoaded();
+    await tokenBlacklist.ensureLoaded();
+
+    const aggregated = this.aggregateDBPosts(dbPosts, weighting);
+
+    console.log(`[MemexCollector] DB aggregation complete: ${aggregated.length} tokens`);
+    return aggregated;
+  }
+
+  /**
+   * Aggregate metrics by token from DB posts as of a point in time
+   * `now` is the reference time for per-post decay (used by historical replay)
+   * Reputation, bot weighting and reposts use each service's cache (see ensureLoaded on each service)
+   */
+  aggregateDBPosts(dbPosts: DBMemexPost[], weighting: PostWeighting = DEFAULT_POST_WEIGHTING, now: number = Date.now()): AggregatedMetrics[] {
     // Aggregate metrics by token from DB posts
     const metrics = new Map<string, TokenMetrics>();
-    const usersByToken = new Map<string, Set<number>>();
 
-    for (const post of dbPosts) {
-      // Parse stored token arrays and normalize to uppercase for consistency
-      const mentions: string[] = post.mentionedTokens ? JSON.parse(post.mentionedTokens).map((t: string) => t.toUpperCase()) : [];
-      const tickers: string[] = post.extractedTickers ? JSON.parse(post.extractedTickers).map((t: string) => t.toUpperCase()) : [];
-      const hashtags: string[] = post.extractedHashtags ? JSON.parse(post.extractedHashtags).map((t: string) => t.toUpperCase()) : [];
-      const allTokens = [...new Set([...mentions, ...tickers, ...hashtags])];
+    // Oldest first, so the original of a near-duplicate cluster counts fully and later copies decay
+    // Flagged bot users are excluded; flagged users and posts are otherwise down-weighted
+    const includedPosts = [...dbPosts]
+      .sort((a, b) => a.postCreatedAt.getTime() - b.postCreatedAt.getTime())
+      .map((post) => ({ post, botWeight: botDetector.getPostWeight(post.userId, post.botReasons) }))
+      .filter(({ botWeight }) => botWeight > 0);
+
+    // Parse stored token arrays (kept as extracted) and resolve them to canonical symbols,
+    // dropping tokens blacklisted from scoring
+    const tokensByPost = new Map<number, string[]>();
+    for (const { post } of includedPosts) {
+      const mentions: string[] = post.mentionedTokens ? JSON.parse(post.mentionedTokens) : [];
+      const tickers: string[] = post.extractedTickers ? JSON.parse(post.extractedTickers) : [];
+      const hashtags: string[] = post.extractedHashtags ? JSON.parse(post.extractedHashtags) : [];
+      const tokens = tokenRegistry.resolveSymbols([...mentions, ...tickers, ...hashtags]);
+      tokensByPost.set(
+        post.memexPostId,
+        tokens.filter((symbol) => !tokenBlacklist.isBlacklisted(symbol, 'scoring', now))
+      );
+    }
+
+    const graph = buildThreadGraph(
+      includedPosts.map(({ post }) => ({
+        postId: post.memexPostId,
+        userId: post.userId,
+        parentPostId: post.parentPostId,
+        prevPostId: post.prevPostId,
+      }))
+    );
+
+    for (const { post, botWeight } of includedPosts) {
+      const allTokens = tokensByPost.get(post.memexPostId)!;
+      const rootPostId = graph.rootOf.get(post.memexPostId)!;
+      const decay =
+        calculateDecayFactor(post.postCreatedAt, weighting.halfLifeHours, now) *
+        reputationService.getPostWeight(post.userId, weighting.reputationWeight) *
+        botWeight;
 
       for (const token of allTokens) {
         const existing = metrics.get(token) || {
@@ -237,52 +440,125 @@ export class MemexCollector {
           likes: 0,
           reposts: 0,
           replies: 0,
-          uniqueUsers: new Set<number>(),
+          uniqueUsers: new Map<number, number>(),
           latestPostTime: new Date(0),
+          firstSeenAt: post.postCreatedAt,
           avgBondingCurveProgress: 0,
           graduatedPostCount: 0,
           postsWithImages: 0,
           totalPriceFluctuation: 0,
           preOrderedUserPosts: 0,
+          decayedPosts: 0,
+          decayedViews: 0,
+          decayedLikes: 0,
+          decayedReposts: 0,
+          decayedReplies: 0,
+          totalSentiment: 0,
+          negativePosts: 0,
+          duplicateClusters: new Map<number, number>(),
+          conversationRoots: new Set<number>(),
+          creditedReplies: 0,
+          reposterWeights: new Map<number, number>(),
+          postContributions: [],
         };
 
-        // Get or create user set for this token
-        if (!usersByToken.has(token)) {
-          usersByToken.set(token, new Set<number>());
+        // Near-duplicate copies decay geometrically within the token's cluster
+        let copyWeight = 1;
+        if (post.duplicateClusterId !== null) {
+          const copies = existing.duplicateClusters.get(post.duplicateClusterId) ?? 0;
+          existing.duplicateClusters.set(post.duplicateClusterId, copies + 1);
+          copyWeight = Math.pow(DUPLICATE_COPY_DECAY, copies);
+        }
+        const weight = decay * copyWeight;
+        const countWeight = botWeight * copyWeight;
+
+        // Authors of copies are not new users; flagged users count for less
+        const userWeight = copyWeight === 1 ? botWeight : 0;
+        existing.uniqueUsers.set(post.userId, Math.max(existing.uniqueUsers.get(post.userId) ?? 0, userWeight));
+
+        // Flagged posts and copies count for less in the raw counters and per-post ratios too, not just the decayed metrics
+        existing.posts += countWeight;
+        existing.views += (post.viewCount ?? 0) * countWeight;
+        existing.likes += (post.likeCount ?? 0) * countWeight;
+        existing.reposts += (post.repostCount ?? 0) * countWeight;
+        existing.replies += (post.replyCount ?? 0) * countWeight;
+
+        existing.decayedPosts += weight;
+        existing.decayedViews += (post.viewCount ?? 0) * weight;
+        existing.decayedLikes += (post.likeCount ?? 0) * weight;
+        existing.decayedReposts += (post.repostCount ?? 0) * weight;
+        existing.decayedReplies += (post.replyCount ?? 0) * weight;
+        existing.postContributions.push({
+          userId: post.userId,
+          weight,
+          views: post.viewCount ?? 0,
+          likes: post.likeCount ?? 0,
+          reposts: post.repostCount ?? 0,
+          replies: post.replyCount ?? 0,
+          countWeight,
+          userWeight,
+        });
+        existing.totalSentiment += (post.sentimentScore ?? 0) * countWeight;
+        if ((post.sentimentScore ?? 0) <= NEGATIVE_SENTIMENT_THRESHOLD) {
+          existing.negativePosts += countWeight;
         }
-        usersByToken.get(token)!.add(post.userId);
-
-        existing.posts += 1;
-        existing.views += post.viewCount ?? 0;
-        existing.likes += post.likeCount ?? 0;
-        existing.reposts += post.repostCount ?? 0;
-        existing.replies += post.replyCount ?? 0;
 
-        existing.avgBondingCurveProgress += post.bondingCurveProgress ?? 0;
+        existing.avgBondingCurveProgress += (post.bondingCurveProgress ?? 0) * countWeight;
         if (post.bondingCurveProgress === 100) {
-          existing.graduatedPostCount += 1;
+          existing.graduatedPostCount += countWeight;
         }
         if (post.hasImage) {
-          existing.postsWithImages += 1;
+          existing.postsWithImages += countWeight;
         }
-        existing.totalPriceFluctuation += Math.abs(post.priceFluctuationRange ?? 0);
+        existing.totalPriceFluctuation += Math.abs(post.priceFluctuationRange ?? 0) * countWeight;
         if (post.userIsPreOrdered) {
-          existing.preOrderedUserPosts += 1;
+          existing.preOrderedUserPosts += countWeight;
         }
 
         const postTime = post.postCreatedAt;
         if (postTime > existing.latestPostTime) {
           existing.latestPostTime = postTime;
         }
+        if (postTime < existing.firstSeenAt) {
+          existing.firstSeenAt = postTime;
+        }
+        existing.conversationRoots.add(rootPostId);
+        for (const repost of repostTracker.getReposts(post.memexPostId, now)) {
+          const repostWeight = repostTracker.getRepostWeight(repost);
+          existing.reposterWeights.set(repost.reposterId, Math.max(existing.reposterWeights.get(repost.reposterId) ?? 0, repostWeight));
+        }
 
         metrics.set(token, existing);
       }
+
+      // Replies credit the tokens of the post that started the conversation, even without repeating the ticker
+      if (rootPostId !== post.memexPostId && weighting.replyCreditWeight > 0) {
+        for (const token of tokensByPost.get(rootPostId) ?? []) {
+          const existing = metrics.get(token);
+          if (!existing || allTokens.includes(token)) continue; // Already counted directly
+
+          // Copied replies decay within the root token's cluster like direct mentions
+          let copyWeight = 1;
+          if (post.duplicateClusterId !== null) {
+            const copies = existing.duplicateClusters.get(post.duplicateClusterId) ?? 0;
+            existing.duplicateClusters.set(post.duplicateClusterId, copies + 1);
+            copyWeight = Math.pow(DUPLICATE_COPY_DECAY, copies);
+          }
+          const replyWeight = decay * weighting.replyCreditWeight * copyWeight;
+          if (replyWeight <= 0) continue;
+
+          existing.creditedReplies += 1;
+          existing.decayedViews += (post.viewCount ?? 0) * replyWeight;
+          existing.decayedLikes += (post.likeCount ?? 0) * replyWeight;
+          existing.decayedReposts += (post.repostCount ?? 0) * replyWeight;
+          existing.decayedReplies += (post.replyCount ?? 0) * replyWeight;
+        }
+      }
     }
 
-    // Convert to AggregatedMetrics with correct uniqueUserCount
+    // Convert to AggregatedMetrics
     const aggregated: AggregatedMetrics[] = [];
-    for (const [token, m] of metrics.entries()) {
-      const uniqueUserCount = usersByToken.get(token)?.size ?? 0;
+    for (const m of metrics.values()) {
       aggregated.push({
         tokenSymbol: m.tokenSymbol.toUpperCase(), // Normalize to uppercase for consistent matching
         posts: m.posts,
@@ -290,17 +566,30 @@ export class MemexCollector {
         likes: m.likes,
         reposts: m.reposts,
         replies: m.replies,
-        uniqueUserCount,
+        uniqueUserCount: sumUserWeights(m.uniqueUsers),
         latestPostTime: m.latestPostTime,
+        firstSeenAt: resolveFirstSeenAt(m.tokenSymbol, m.firstSeenAt),
         avgBondingCurveProgress: m.posts > 0 ? m.avgBondingCurveProgress / m.posts : 0,
         graduatedPostRatio: m.posts > 0 ? m.graduatedPostCount / m.posts : 0,
         imagePostRatio: m.posts > 0 ? m.postsWithImages / m.posts : 0,
         avgPriceFluctuation: m.posts > 0 ? m.totalPriceFluctuation / m.posts : 0,
         preOrderedUserRatio: m.posts > 0 ? m.preOrderedUserPosts / m.posts : 0,
+        decayedPosts: m.decayedPosts,
+        decayedViews: m.decayedViews,
+        decayedLikes: m.decayedLikes,
+        decayedReposts: m.decayedReposts,
+        decayedReplies: m.decayedReplies,
+        avgSentiment: m.posts > 0 ? m.totalSentiment / m.posts : 0,
+        negativePostRatio: m.posts > 0 ? m.negativePosts / m.posts : 0,
+        duplicateClusterSizes: getDuplicateClusterSizes(m.duplicateClusters),
+        ...summarizeConversations(m.conversationRoots, graph.conversations),
+        creditedReplies: m.creditedReplies,
+        ...summarizeAmplification(m.reposterWeights),
+        postContributions: m.postContributions,
+        market: null,
       });
     }
 
-    console.log(`[MemexCollector] DB aggregation complete: ${aggregated.length} tokens`);
     return aggregated;
   }
 
@@ -316,14 +605,29 @@ export class MemexCollector {
       likes: m.likes,
       reposts: m.reposts,
       replies: m.replies,
-      uniqueUserCount: m.uniqueUsers.size,
+      uniqueUserCount: sumUserWeights(m.uniqueUsers),
       latestPostTime: m.latestPostTime,
+      firstSeenAt: resolveFirstSeenAt(m.tokenSymbol, m.firstSeenAt),
       // Enhanced metrics (computed ratios)
       avgBondingCurveProgress: m.posts > 0 ? m.avgBondingCurveProgress / m.posts : 0,
       graduatedPostRatio: m.posts > 0 ? m.graduatedPostCount / m.posts : 0,
       imagePostRatio: m.posts > 0 ? m.postsWithImages / m.posts : 0,
       avgPriceFluctuation: m.posts > 0 ? m.totalPriceFluctuation / m.posts : 0,
       preOrderedUserRatio: m.posts > 0 ? m.preOrderedUserPosts / m.posts : 0,
+      decayedPosts: m.decayedPosts,
+      decayedViews: m.decayedViews,
+      decayedLikes: m.decayedLikes,
+      decayedReposts: m.decayedReposts,
+      decayedReplies: m.decayedReplies,
+      avgSentiment: m.posts > 0 ? m.totalSentiment / m.posts : 0,
+      negativePostRatio: m.posts > 0 ? m.negativePosts / m.posts : 0,
+      duplicateClusterSizes: getDuplicateClusterSizes(m.duplicateClusters),
+      // API posts carry no reply graph or repost events (built in aggregateDBPosts), so these are 0
+      ...summarizeConversations(m.conversationRoots, new Map()),
+      creditedReplies: m.creditedReplies,
+      ...summarizeAmplification(m.reposterWeights),
+      postContributions: m.postContributions,
+      market: null,
     }));
   }
 
@@ -331,8 +635,14 @@ export class MemexCollector {
    * Save processed posts to database for auditing (optimized with concurrency)
    * Now includes enhanced metrics for analysis
    */
-  async saveProcessedPosts(posts: MemexPost[]): Promise<void> {
-    if (posts.length === 0) return;
+  async saveProcessedPosts(apiPosts: MemexPost[]): Promise<void> {
+    if (apiPosts.length === 0) return;
+
+    // Thread posts embedded in a post are stored like any other post
+    const posts = withThreadPosts(apiPosts);
+
+    // Near-duplicate clustering needs the fingerprints of recent posts
+    await duplicateDetector.ensureLoaded();
 
     const CONCURRENT_SAVES = parseInt(process.env.DB_CONCURRENT_SAVES || '10');
     let savedCount = 0;
@@ -346,6 +656,8 @@ export class MemexCollector {
       const results = await Promise.allSettled(
         batch.map(async (post) => {
           const extracted = this.extractTokensEnhanced(post);
+          const sentiment = sentimentAnalyzer.analyzePost(post);
+          const duplicate = duplicateDetector.assignCluster(post);
 
           await db
             .insert(schema.memexPosts)
@@ -355,6 +667,10 @@ export class MemexCollector {
               userName: post.user.userName,
               userIsPreOrdered: post.user.isPreOrdered,
               contentType: post.contentType,
+              parentPostId: post.parentId,
+              prevPostId: post.prevId,
+              nextPostId: post.nextId,
+              threadCount: post.totalThreadCount ?? 0,
               viewCount: post.viewCount,
               likeCount: post.likeCount,
               repostCount: post.repostCount,
@@ -369,17 +685,25 @@ export class MemexCollector {
               tokenCexListed: post.tokenCexListed,
               // Content analysis
               hasImage: post.imageSrc && post.imageSrc.length > 0,
+              sentimentScore: sentiment.score,
+              textFingerprint: duplicate.fingerprint,
+              duplicateClusterId: duplicate.clusterId,
               postCreatedAt: new Date(post.createdAt),
             })
             .onConflictDoUpdate({
               target: schema.memexPosts.memexPostId,
               set: {
+                nextPostId: post.nextId, // Threads grow after the first save
+                threadCount: post.totalThreadCount ?? 0,
                 viewCount: post.viewCount,
                 likeCount: post.likeCount,
                 repostCount: post.repostCount,
                 replyCount: post.replyCount,
                 bondingCurveProgress: post.bondingCurveProgress,
                 priceFluctuationRange: post.priceFluctuationRange,
+                sentimentScore: sentiment.score, // Backfills posts saved before sentiment existed
+                textFingerprint: duplicate.fingerprint,
+                duplicateClusterId: duplicate.clusterId,
                 processedAt: new Date(),
               },
             });
@@ -409,6 +733,23 @@ export class MemexCollector {
     if (posts.length > 0) {
       console.log(`[MemexCollector] Database save: ${savedCount} posts saved/updated, ${errorCount} errors (total: ${posts.length} posts)`);
     }
+
+    // Track authors for the reputation model (non-fatal)
+    try {
+      await reputationService.upsertAuthors(posts);
+    } catch (error) {
+      console.error('[MemexCollector] Failed to record post authors:', error);
+    }
+
+    // Record who reposted what (non-fatal)
+    try {
+      const reposts = await repostTracker.recordReposts(posts);
+      if (reposts > 0) {
+        console.log(`[MemexCollector] Recorded ${reposts} new reposts`);
+      }
+    } catch (error) {
+      console.error('[MemexCollector] Failed to record reposts:', error);
+    }
   }
 
   /**
@@ -437,12 +778,12 @@ export class MemexCollector {
    * Fetch and aggregate - collects new posts and returns DB-based aggregation
    * This ensures we always use the latest metrics from DB
    */
-  async collectAndAggregate(): Promise<AggregatedMetrics[]> {
+  async collectAndAggregate(weighting?: PostWeighting): Promise<AggregatedMetrics[]> {
     // Step 1: Fetch and save new posts to DB
     await this.collectLatestPosts();
 
     // Step 2: Aggregate from DB (uses latest metrics including updates)
-    const aggregated = await this.aggregateFromDB();
+    const aggregated = await this.aggregateFromDB(weighting);
 
     if (aggregated.length > 0) {
       const totalViews = aggregated.reduce((sum, m) => sum + m.views, 0);
@@ -538,6 +879,7 @@ export class MemexCollector {
     const aggregatePostsMetrics = (posts: MemexPost[]): void => {
       for (const post of posts) {
         const tokens = this.extractMentionedTokens(post);
+        const sentiment = sentimentAnalyzer.analyzePost(post);
 
         for (const token of tokens) {
           const existing = allMetrics.get(token) || {
@@ -547,13 +889,26 @@ export class MemexCollector {
             likes: 0,
             reposts: 0,
             replies: 0,
-            uniqueUsers: new Set<number>(),
+            uniqueUsers: new Map<number, number>(),
             latestPostTime: new Date(0),
+            firstSeenAt: new Date(post.createdAt),
             avgBondingCurveProgress: 0,
             graduatedPostCount: 0,
             postsWithImages: 0,
             totalPriceFluctuation: 0,
             preOrderedUserPosts: 0,
+            decayedPosts: 0,
+            decayedViews: 0,
+            decayedLikes: 0,
+            decayedReposts: 0,
+            decayedReplies: 0,
+            totalSentiment: 0,
+            negativePosts: 0,
+            duplicateClusters: new Map<number, number>(),
+            conversationRoots: new Set<number>(),
+            creditedReplies: 0,
+            reposterWeights: new Map<number, number>(),
+            postContributions: [],
           };
 
           existing.posts += 1;
@@ -561,17 +916,22 @@ export class MemexCollector {
           existing.likes += post.likeCount;
           existing.reposts += post.repostCount;
           existing.replies += post.replyCount;
-          existing.uniqueUsers.add(post.user.id);
+          existing.uniqueUsers.set(post.user.id, 1);
           existing.avgBondingCurveProgress += post.bondingCurveProgress;
           if (post.bondingCurveProgress === 100) existing.graduatedPostCount += 1;
           if (post.imageSrc?.length > 0) existing.postsWithImages += 1;
           existing.totalPriceFluctuation += Math.abs(post.priceFluctuationRange);
           if (post.user.isPreOrdered) existing.preOrderedUserPosts += 1;
+          existing.totalSentiment += sentiment.score;
+          if (sentiment.isNegative) existing.negativePosts += 1;
 
           const postTime = new Date(post.createdAt);
           if (postTime > existing.latestPostTime) {
             existing.latestPostTime = postTime;
           }
+          if (postTime < existing.firstSeenAt) {
+            existing.firstSeenAt = postTime;
+          }
 
           allMetrics.set(token, existing);
         }
@@ -877,6 +1237,7 @@ export class MemexCollector {
 
     return statsMap;
   }
+
   /**
    * Fetch leaderboard data from Memex API
    * This includes token images and additional market data
@@ -913,16 +1274,14 @@ export class MemexCollector {
    * Refresh token image cache from leaderboard API
    * Should be called periodically to keep images up-to-date
    *
-   * Note: We store multiple keys for each token to handle different naming conventions:
-   * - tokenSymbol (e.g., "MXT")
-   * - tokenName (e.g., "MEMETERN")
-   * - userName (e.g., "MEMETERN")
-   * This allows matching regardless of how the token is referenced in posts.
+   * Entries are keyed by canonical registry symbol; lookups resolve tickers, names and creator
+   * userNames through the token registry, so matching works however the token is referenced in posts.
+   * @param prefetched Leaderboard already fetched by the caller (e.g. for seeding the registry)
    */
-  async refreshTokenImageCache(): Promise<number> {
+  async refreshTokenImageCache(prefetched?: MemexLeaderboardResponse | null): Promise<number> {
     console.log('[MemexCollector] Refreshing token image cache...');
 
-    const leaderboard = await this.fetchLeaderboard({ limit: 500 });
+    const leaderboard = prefetched ?? (await this.fetchLeaderboard({ limit: 500 }));
 
     if (!leaderboard || !leaderboard.data) {
       console.error('[MemexCollector] Failed to refresh token image cache');
@@ -932,10 +1291,9 @@ export class MemexCollector {
     let newCount = 0;
     let updatedCount = 0;
 
+    await tokenRegistry.ensureLoaded();
     for (const token of leaderboard.data) {
-      const symbol = token.tokenSymbol.toUpperCase();
-      const tokenName = token.tokenName.toUpperCase();
-      const userName = token.user.userName.toUpperCase();
+      const symbol = tokenRegistry.getByAddress(token.tokenAddress)?.symbol ?? token.tokenSymbol.toUpperCase();
 
       const imageInfo: TokenImageInfo = {
         tokenSymbol: symbol,
@@ -954,19 +1312,7 @@ export class MemexCollector {
         updatedCount++;
       }
 
-      // Store with multiple keys for better matching
-      // Primary key: tokenSymbol (e.g., "MXT")
       this.tokenImageCache.set(symbol, imageInfo);
-
-      // Secondary key: tokenName (e.g., "MEMETERN") - if different from symbol
-      if (tokenName !== symbol) {
-        this.tokenImageCache.set(tokenName, imageInfo);
-      }
-
-      // Tertiary key: userName (e.g., "MEMETERN") - if different from both
-      if (userName !== symbol && userName !== tokenName) {
-        this.tokenImageCache.set(userName, imageInfo);
-      }
     }
 
     this.tokenImageCacheUpdatedAt = new Date();
@@ -979,10 +1325,10 @@ export class MemexCollector {
   }
 
   /**
-   * Get token image info from cache
+   * Get token image info from cache (any registered reference to the token)
    */
   getTokenImageInfo(tokenSymbol: string): TokenImageInfo | undefined {
-    return this.tokenImageCache.get(tokenSymbol.toUpperCase());
+    return this.tokenImageCache.get(tokenRegistry.resolveSymbol(tokenSymbol));
   }
 
   /**
@@ -1006,8 +1352,7 @@ export class MemexCollector {
    * Get image URL for a token symbol
    */
   getTokenImageSrc(tokenSymbol: string): string | null {
-    const info = this.tokenImageCache.get(tokenSymbol.toUpperCase());
-    return info?.imageSrc ?? null;
+    return this.getTokenImageInfo(tokenSymbol)?.imageSrc ?? null;
   }
 
   /**
@@ -0,0 +1,191 @@
+import type { AggregatedMetrics } from '../types/memex';
+import type { MetricDeltas, TokenMomentum } from '../types/score';
+import { db, schema } from '../db/client';
+import { inArray } from 'drizzle-orm';
+
+const MAX_SCORE = 10000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Relative weight of each metric's growth in the momentum score
+const MOMENTUM_WEIGHTS: MetricDeltas = {
+  posts: 0.4,
+  views: 0.2,
+  uniqueUsers: 0.4,
+};
+
+// Minimum base used when computing relative growth
+// Keeps a token going from 1 → 3 posts from looking like 200% growth
+const GROWTH_BASE_FLOOR: MetricDeltas = {
+  posts: 5,
+  views: 500,
+  uniqueUsers: 3,
+};
+
+// Growth ratio at which the momentum score reaches 5000 (half of max)
+const MOMENTUM_NORMALIZER = 1;
+
+interface SnapshotMetrics {
+  posts: number;
+  views: number;
+  uniqueUsers: number;
+}
+
+/**
+ * Momentum Calculator
+ * Measures how fast a token's engagement is growing using hourly snapshot history
+ * Snapshot history is cached per hour, since snapshots are only written once per hour
+ */
+export class MomentumCalculator {
+  private historyHour: number | null = null;
+  private history: {
+    oneHourAgo: Map<string, SnapshotMetrics>;
+    sixHoursAgo: Map<string, SnapshotMetrics>;
+    twelveHoursAgo: Map<string, SnapshotMetrics>;
+  } = {
+    oneHourAgo: new Map(),
+    sixHoursAgo: new Map(),
+    twelveHoursAgo: new Map(),
+  };
+
+  /**
+   * Load snapshots at 1h, 6h and 12h before the current hour (cached until the hour changes)
+   */
+  private async loadHistory(now: Date): Promise<void> {
+    const currentHour = new Date(now);
+    currentHour.setMinutes(0, 0, 0);
+
+    if (this.historyHour === currentHour.getTime()) {
+      return;
+    }
+
+    const oneHourAgo = new Date(currentHour.getTime() - HOUR_MS);
+    const sixHoursAgo = new Date(currentHour.getTime() - 6 * HOUR_MS);
+    const twelveHoursAgo = new Date(currentHour.getTime() - 12 * HOUR_MS);
+
+    const snapshots = await db.query.tokenScoreSnapshots.findMany({
+      where: inArray(schema.tokenScoreSnapshots.snapshotHour, [oneHourAgo, sixHoursAgo, twelveHoursAgo]),
+    });
+
+    const byHour = new Map<number, Map<string, SnapshotMetrics>>([
+      [oneHourAgo.getTime(), new Map()],
+      [sixHoursAgo.getTime(), new Map()],
+      [twelveHoursAgo.getTime(), new Map()],
+    ]);
+
+    for (const snapshot of snapshots) {
+      byHour.get(snapshot.snapshotHour.getTime())?.set(snapshot.tokenSymbol.toUpperCase(), {
+        posts: snapshot.rawPosts ?? 0,
+        views: snapshot.rawViews ?? 0,
+        uniqueUsers: snapshot.rawUniqueUsers ?? 0,
+      });
+    }
+
+    this.history = {
+      oneHourAgo: byHour.get(oneHourAgo.getTime())!,
+      sixHoursAgo: byHour.get(sixHoursAgo.getTime())!,
+      twelveHoursAgo: byHour.get(twelveHoursAgo.getTime())!,
+    };
+    this.historyHour = currentHour.getTime();
+
+    console.log(
+      `[MomentumCalculator] Loaded snapshot history: 1h=${this.history.oneHourAgo.size}, ` +
+        `6h=${this.history.sixHoursAgo.size}, 12h=${this.history.twelveHoursAgo.size} tokens`
+    );
+  }
+
+  /**
+   * Difference between two metric points
+   * Null when the earlier point is missing (first hour, snapshot gap, after a deploy), so missing
+   * history never reads as growth from zero
+   */
+  private delta(current: SnapshotMetrics, previous: SnapshotMetrics | undefined): MetricDeltas | null {
+    if (!previous) return null;
+    return {
+      posts: current.posts - previous.posts,
+      views: current.views - previous.views,
+      uniqueUsers: current.uniqueUsers - previous.uniqueUsers,
+    };
+  }
+
+  /**
+   * Weighted relative growth of a delta against its base (0 without a delta)
+   */
+  private relativeGrowth(delta: MetricDeltas | null, base: SnapshotMetrics | undefined): number {
+    if (!delta) return 0;
+    let growth = 0;
+    for (const key of Object.keys(MOMENTUM_WEIGHTS) as (keyof MetricDeltas)[]) {
+      const baseValue = Math.max(base?.[key] ?? 0, GROWTH_BASE_FLOOR[key]);
+      growth += MOMENTUM_WEIGHTS[key] * (delta[key] / baseValue);
+    }
+    return growth;
+  }
+
+  /**
+   * Calculate momentum for a single token against the loaded history
+   */
+  calculateTokenMomentum(metrics: AggregatedMetrics): TokenMomentum {
+    const symbol = metrics.tokenSymbol.toUpperCase();
+    const current: SnapshotMetrics = {
+      posts: metrics.posts,
+      views: metrics.views,
+      uniqueUsers: metrics.uniqueUserCount,
+    };
+
+    const oneHourAgo = this.history.oneHourAgo.get(symbol);
+    const sixHoursAgo = this.history.sixHoursAgo.get(symbol);
+    const twelveHoursAgo = this.history.twelveHoursAgo.get(symbol);
+
+    const hourOverHour = this.delta(current, oneHourAgo);
+    const sixHourDelta = this.delta(current, sixHoursAgo);
+    const previousSixHourDelta = sixHoursAgo ? this.delta(sixHoursAgo, twelveHoursAgo) : null;
+    const sixHourOverSixHour: MetricDeltas | null =
+      sixHourDelta && previousSixHourDelta
+        ? {
+            posts: sixHourDelta.posts - previousSixHourDelta.posts,
+            views: sixHourDelta.views - previousSixHourDelta.views,
+            uniqueUsers: sixHourDelta.uniqueUsers - previousSixHourDelta.uniqueUsers,
+          }
+        : null;
+
+    // Growth in the last hour and last 6h, plus a bonus when growth is accelerating
+    // (terms without history contribute nothing; a token with no history has no momentum)
+    const growth =
+      this.relativeGrowth(hourOverHour, oneHourAgo) +
+      this.relativeGrowth(sixHourDelta, sixHoursAgo) +
+      Math.max(0, this.relativeGrowth(sixHourOverSixHour, sixHoursAgo));
+
+    return {
+      tokenSymbol: symbol,
+      hourOverHour,
+      sixHourDelta,
+      sixHourOverSixHour,
+      momentumScore: this.normalizeMomentum(growth),
+    };
+  }
+
+  /**
+   * Normalize growth ratio to 0-10000 (shrinking tokens have zero momentum)
+   */
+  normalizeMomentum(growth: number): number {
+    if (growth <= 0) return 0;
+    return Math.round((growth / (growth + MOMENTUM_NORMALIZER)) * MAX_SCORE);
+  }
+
+  /**
+   * Calculate momentum for all tokens
+   */
+  async calculateBatch(metricsArray: AggregatedMetrics[], now: Date = new Date()): Promise<Map<string, TokenMomentum>> {
+    await this.loadHistory(now);
+
+    const momentum = new Map<string, TokenMomentum>();
+    for (const metrics of metricsArray) {
+      const tokenMomentum = this.calculateTokenMomentum(metrics);
+      momentum.set(tokenMomentum.tokenSymbol, tokenMomentum);
+    }
+
+    return momentum;
+  }
+}
+
+// Singleton instance
+export const momentumCalculator = new MomentumCalculator();
@@ -0,0 +1,198 @@
+import { db, schema } from '../db/client';
+import { eq, sql } from 'drizzle-orm';
+import { coMentionGraph } from './co-mention-graph';
+import { PAIR_SCORE_POLICIES, getPairKey, scoreCalculator } from './score-calculator';
+import { graphqlClient, type TokenPoolData } from './graphql-client';
+import type { NewPairScore } from '../db/schema';
+import type { PairScorePolicy, PairScoreOptions, PoolPairScorePolicy } from '../types/score';
+
+/**
+ * Check whether a value is a known pair score policy
+ */
+export function isPairScorePolicy(value: unknown): value is PairScorePolicy {
+  return typeof value === 'string' && PAIR_SCORE_POLICIES.includes(value as PairScorePolicy);
+}
+
+/**
+ * Global policy from PAIR_SCORE_POLICY (falls back to average when unset or unknown)
+ */
+function getGlobalPolicy(): PairScorePolicy {
+  const policy = process.env.PAIR_SCORE_POLICY || 'average';
+  if (!isPairScorePolicy(policy)) {
+    console.warn(`[PairScorePolicy] Unknown PAIR_SCORE_POLICY "${policy}", using average`);
+    return 'average';
+  }
+  return policy;
+}
+
+/**
+ * Pair Score Policy Service
+ * Resolves how pair scores are combined: a global policy (PAIR_SCORE_POLICY) with overrides per
+ * registered pool (pair_pools) stored in the database, plus the TVL and co-mention inputs those
+ * policies need. Pools of the same two tokens share one pair score, so among their overrides the
+ * most recently updated applies; recorded pool scores use each pool's own policy.
+ */
+export class PairScorePolicyService {
+  private readonly globalPolicy = getGlobalPolicy();
+  private poolPolicies: PoolPairScorePolicy[] = []; // Most recently updated first
+
+  /**
+   * Reload per-pool overrides from the database
+   * Keeps the previous overrides when the database is unavailable
+   */
+  async refresh(): Promise<void> {
+    try {
+      const rows = await db
+        .select({
+          poolId: schema.pairScorePolicies.poolId,
+          tokenX: schema.pairPools.tokenXSymbol,
+          tokenY: schema.pairPools.tokenYSymbol,
+          policy: schema.pairScorePolicies.policy,
+          updatedAt: schema.pairScorePolicies.updatedAt,
+        })
+        .from(schema.pairScorePolicies)
+        .innerJoin(schema.pairPools, eq(schema.pairPools.poolId, schema.pairScorePolicies.poolId));
+      this.poolPolicies = rows
+        .filter((row) => isPairScorePolicy(row.policy))
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+        .map((row) => ({
+          poolId: row.poolId,
+          tokenX: row.tokenX.toUpperCase(),
+          tokenY: row.tokenY.toUpperCase(),
+          policy: row.policy as PairScorePolicy,
+        }));
+    } catch (error) {
+      console.error('[PairScorePolicy] Failed to load pool policies:', error);
+    }
+  }
+
+  getGlobalPolicy(): PairScorePolicy {
+    return this.globalPolicy;
+  }
+
+  /**
+   * Per-pool overrides, most recently updated first
+   */
+  getPoolPolicies(): PoolPairScorePolicy[] {
+    return [...this.poolPolicies];
+  }
+
+  /**
+   * Build pair scoring options, loading TVL and co-mentions only when a policy in use needs them
+   * @param pools Token pools with TVL for tvlWeighted (fetched when not given)
+   */
+  async buildOptions(pools?: TokenPoolData[]): Promise<PairScoreOptions> {
+    await this.refresh();
+
+    const inUse = new Set<PairScorePolicy>([this.globalPolicy, ...this.poolPolicies.map((entry) => entry.policy)]);
+    const pairPolicies = new Map<string, PairScorePolicy>();
+    for (const entry of this.poolPolicies) {
+      const pairKey = getPairKey(entry.tokenX, entry.tokenY);
+      if (!pairPolicies.has(pairKey)) pairPolicies.set(pairKey, entry.policy);
+    }
+    const options: PairScoreOptions = {
+      policy: this.globalPolicy,
+      poolPolicies: pairPolicies,
+    };
+
+    if (inUse.has('tvlWeighted')) {
+      const tokenPools = pools ?? (await graphqlClient.getMemeTokensWithPools());
+      options.tvlUSD = new Map(tokenPools.map((pool) => [pool.tokenSymbol.toUpperCase(), pool.totalTvlUSD]));
+    }
+    if (inUse.has('coMention')) {
+      await coMentionGraph.ensureLoaded();
+      options.coMentions = coMentionGraph.getCoMentionCounts('7d');
+    }
+
+    return options;
+  }
+
+  /**
+   * Set a registered pool's policy override (stored under the pool's id as registered)
+   * Returns null when the pool is not registered
+   */
+  async setPoolPolicy(poolId: string, policy: PairScorePolicy, updatedBy: string): Promise<PoolPairScorePolicy | null> {
+    const pool = await db.query.pairPools.findFirst({ where: sql`lower(${schema.pairPools.poolId}) = ${poolId.toLowerCase()}` });
+    if (!pool) return null;
+
+    await db
+      .insert(schema.pairScorePolicies)
+      .values({ poolId: pool.poolId, policy, updatedBy })
+      .onConflictDoUpdate({
+        target: schema.pairScorePolicies.poolId,
+        set: { policy, updatedBy, updatedAt: new Date() },
+      });
+
+    await this.refresh();
+    console.log(`[PairScorePolicy] ${pool.poolId} (${pool.tokenXSymbol}/${pool.tokenYSymbol}) → ${policy} (by ${updatedBy})`);
+    return { poolId: pool.poolId, tokenX: pool.tokenXSymbol.toUpperCase(), tokenY: pool.tokenYSymbol.toUpperCase(), policy };
+  }
+
+  /**
+   * Remove a pool's override (the pool falls back to the global policy)
+   * Returns false when the pool had no override
+   */
+  async clearPoolPolicy(poolId: string, updatedBy: string): Promise<boolean> {
+    const deleted = await db
+      .delete(schema.pairScorePolicies)
+      .where(sql`lower(${schema.pairScorePolicies.poolId}) = ${poolId.toLowerCase()}`)
+      .returning({ id: schema.pairScorePolicies.id });
+
+    await this.refresh();
+    if (deleted.length > 0) {
+      console.log(`[PairScorePolicy] ${poolId} override cleared (by ${updatedBy})`);
+    }
+    return deleted.length > 0;
+  }
+
+  /**
+   * Normalize a pool id (0x-prefixed 32-byte hex, lowercase)
+   * Throws when the id is malformed
+   */
+  normalizePoolId(poolId: string): string {
+    const normalized = poolId.trim().toLowerCase();
+    if (!/^0x[0-9a-f]{64}$/.test(normalized)) {
+      throw new Error(`Invalid pool id "${poolId}" (expected a 0x-prefixed 32-byte hex pool id)`);
+    }
+    return normalized;
+  }
+
+  /**
+   * Record the pair score of every registered pool whose tokens both have a score, with the policy that produced it
+   * Returns the number of pools recorded
+   */
+  async recordPoolScores(tokenScores: Map<string, number>, now: number = Date.now()): Promise<number> {
+    const pools = await db.query.pairPools.findMany();
+    const options = await this.buildOptions();
+    const overrides = new Map(this.poolPolicies.map((entry) => [entry.poolId, entry.policy]));
+
+    const rows: NewPairScore[] = [];
+    for (const pool of pools) {
+      const result = scoreCalculator.getPairScore(tokenScores, pool.tokenXSymbol, pool.tokenYSymbol, {
+        ...options,
+        policy: overrides.get(pool.poolId) ?? this.globalPolicy,
+        poolPolicies: undefined,
+      });
+      if (!result) continue;
+
+      rows.push({
+        poolId: pool.poolId,
+        tokenXSymbol: result.tokenX,
+        tokenYSymbol: result.tokenY,
+        tokenXScore: result.tokenXScore,
+        tokenYScore: result.tokenYScore,
+        pairScore: result.pairScore,
+        policy: result.policy,
+        timestamp: Math.floor(now / 1000),
+      });
+    }
+
+    if (rows.length > 0) {
+      await db.insert(schema.pairScores).values(rows);
+    }
+    return rows.length;
+  }
+}
+
+// Singleton instance
+export const pairScorePolicy = new PairScorePolicyService();
@@ -0,0 +1,126 @@
+import { db, schema } from '../db/client';
+import { gte } from 'drizzle-orm';
+import type { MemexPost } from '../types/memex';
+import { botDetector } from './bot-detector';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reposts are kept for the aggregation window
+const REPOST_WINDOW_DAYS = 7;
+
+// Authors reposting their own post, and reposters in flagged sybil clusters, barely amplify anything
+const SELF_REPOST_WEIGHT = 0.1;
+const SYBIL_REPOST_WEIGHT = 0.1;
+
+export interface RepostEntry {
+  reposterId: number;
+  authorId: number;
+  seenAt: number;
+}
+
+/**
+ * Repost Tracker
+ * Records who reposted which post (feed items with `rePoster` set) and weighs each reposter's
+ * amplification. Reposts in the window are cached in memory so aggregation stays synchronous.
+ */
+export class RepostTracker {
+  private repostsByPost = new Map<number, RepostEntry[]>();
+  private loaded = false;
+
+  /**
+   * Load reposts seen in the window (once)
+   */
+  async ensureLoaded(): Promise<void> {
+    if (this.loaded) return;
+
+    try {
+      const reposts = await db.query.memexReposts.findMany({
+        where: gte(schema.memexReposts.firstSeenAt, new Date(Date.now() - REPOST_WINDOW_DAYS * DAY_MS)),
+      });
+
+      for (const repost of reposts) {
+        this.add(repost.memexPostId, {
+          reposterId: repost.reposterId,
+          authorId: repost.authorId,
+          seenAt: repost.firstSeenAt.getTime(),
+        });
+      }
+
+      this.loaded = true;
+      console.log(`[RepostTracker] Loaded ${reposts.length} reposts`);
+    } catch (error) {
+      console.error('[RepostTracker] Failed to load reposts:', error);
+    }
+  }
+
+  /**
+   * Record repost events from API posts
+   * Returns the number of reposts not seen before
+   */
+  async recordReposts(posts: MemexPost[], now: number = Date.now()): Promise<number> {
+    await this.ensureLoaded();
+
+    let recorded = 0;
+    for (const post of posts) {
+      if (!post.rePoster) continue;
+      if (this.repostsByPost.get(post.id)?.some((entry) => entry.reposterId === post.rePoster!.id)) continue;
+
+      const inserted = await db
+        .insert(schema.memexReposts)
+        .values({
+          memexPostId: post.id,
+          authorId: post.user.id,
+          reposterId: post.rePoster.id,
+          reposterName: post.rePoster.userName,
+          firstSeenAt: new Date(now),
+        })
+        .onConflictDoNothing()
+        .returning({ id: schema.memexReposts.id });
+
+      this.add(post.id, { reposterId: post.rePoster.id, authorId: post.user.id, seenAt: now });
+      recorded += inserted.length;
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Reposts of a post seen up to `now` (historical replay ignores later ones)
+   */
+  getReposts(memexPostId: number, now: number = Date.now()): RepostEntry[] {
+    return (this.repostsByPost.get(memexPostId) ?? []).filter((entry) => entry.seenAt <= now);
+  }
+
+  /**
+   * Amplification weight of a repost (1 = full, discounted for self-reposts and sybil reposters)
+   */
+  getRepostWeight(repost: RepostEntry): number {
+    let weight = 1;
+    if (repost.reposterId === repost.authorId) weight *= SELF_REPOST_WEIGHT;
+    if (botDetector.isSybil(repost.reposterId)) weight *= SYBIL_REPOST_WEIGHT;
+    return weight;
+  }
+
+  /**
+   * Drop reposts seen before the window
+   */
+  prune(now: number = Date.now()): void {
+    const cutoff = now - REPOST_WINDOW_DAYS * DAY_MS;
+    for (const [memexPostId, entries] of this.repostsByPost) {
+      const kept = entries.filter((entry) => entry.seenAt >= cutoff);
+      if (kept.length === 0) {
+        this.repostsByPost.delete(memexPostId);
+      } else if (kept.length !== entries.length) {
+        this.repostsByPost.set(memexPostId, kept);
+      }
+    }
+  }
+
+  private add(memexPostId: number, entry: RepostEntry): void {
+    if (!this.repostsByPost.has(memexPostId)) this.repostsByPost.set(memexPostId, []);
+    this.repostsByPost.get(memexPostId)!.push(entry);
+  }
+}
+
+// Singleton instance
+export const repostTracker = new RepostTracker();
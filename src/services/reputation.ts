@@ -0,0 +1,293 @@
+import { db, schema } from '../db/client';
+import { and, eq, gte, sql } from 'drizzle-orm';
+import type { MemexPost } from '../types/memex';
+import type { MemexUser } from '../db/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// History window used to build reputation
+const REPUTATION_WINDOW_DAYS = 30;
+
+// A token call succeeds when the token reaches this score (HOT tier) within the horizon after the post
+const CALL_SUCCESS_SCORE = 4000;
+const CALL_HORIZON_HOURS = 24;
+
+// Bayesian prior for call success: new callers start at PRIOR_HITS / PRIOR_CALLS
+const PRIOR_CALLS = 10;
+const PRIOR_HITS = 2;
+
+// Account age at which the age component saturates
+const MATURE_ACCOUNT_DAYS = 30;
+
+// Average engagement (likes + reposts + replies) at which the engagement component reaches 0.5
+const ENGAGEMENT_MIDPOINT = 10;
+
+const USER_TYPE_SCORES: Record<string, number> = {
+  OFFICIAL: 1,
+  VERIFIED: 0.8,
+  GENERAL: 0.3,
+};
+
+// Composite weights (sum to 1) - past calls matter most
+const COMPONENT_WEIGHTS = {
+  age: 0.2,
+  userType: 0.2,
+  engagement: 0.25,
+  calls: 0.35,
+};
+
+// Reputation assumed for authors we have no record of (roughly a fresh general account)
+const DEFAULT_REPUTATION = 0.25;
+
+// Post weight range at full reputationWeight: reputation 0 → 0.5x, 0.5 → 1x, 1 → 2x
+const MAX_WEIGHT_LOG2 = 1;
+
+/**
+ * Reputation Service
+ * Builds a 0-1 reputation per Memex author from their history and turns it into a per-post
+ * weight for aggregation. Reputations are cached in memory so aggregation stays synchronous.
+ */
+export class ReputationService {
+  private reputations = new Map<number, number>();
+  private loadedAt: number | null = null;
+
+  /**
+   * Load cached reputations from the database (once, or again when forced)
+   */
+  async ensureLoaded(force: boolean = false): Promise<void> {
+    if (this.loadedAt !== null && !force) return;
+
+    try {
+      const users = await db.query.memexUsers.findMany({
+        columns: { userId: true, reputation: true },
+      });
+      this.reputations = new Map(users.map((u) => [u.userId, u.reputation]));
+      this.loadedAt = Date.now();
+    } catch (error) {
+      console.error('[Reputation] Failed to load reputations:', error);
+    }
+  }
+
+  /**
+   * Get an author's reputation (0-1)
+   */
+  getReputation(userId: number): number {
+    return this.reputations.get(userId) ?? DEFAULT_REPUTATION;
+  }
+
+  /**
+   * Per-post weight for an author
+   * @param reputationWeight 0 disables weighting (always 1), 1 applies the full 0.5x-2x range
+   */
+  getPostWeight(userId: number, reputationWeight: number): number {
+    if (reputationWeight <= 0) return 1;
+    const centered = (this.getReputation(userId) - 0.5) * 2; // -1 to 1
+    return Math.pow(2, centered * MAX_WEIGHT_LOG2 * reputationWeight);
+  }
+
+  /**
+   * Record authors seen in API posts (profile fields only; history is rebuilt by recompute)
+   */
+  async upsertAuthors(posts: MemexPost[]): Promise<void> {
+    const authors = new Map<number, { post: MemexPost; firstSeenAt: Date; lastSeenAt: Date }>();
+    for (const post of posts) {
+      const createdAt = new Date(post.createdAt);
+      const existing = authors.get(post.user.id);
+      if (!existing) {
+        authors.set(post.user.id, { post, firstSeenAt: createdAt, lastSeenAt: createdAt });
+      } else {
+        if (createdAt < existing.firstSeenAt) existing.firstSeenAt = createdAt;
+        if (createdAt > existing.lastSeenAt) existing.lastSeenAt = createdAt;
+      }
+    }
+
+    if (authors.size === 0) return;
+
+    // One statement per batch; conflicting rows take the incoming values via excluded
+    await db
+      .insert(schema.memexUsers)
+      .values(
+        Array.from(authors.values()).map(({ post, firstSeenAt, lastSeenAt }) => ({
+          userId: post.user.id,
+          userName: post.user.userName,
+          userType: post.user.userType,
+          isPreOrdered: post.user.isPreOrdered,
+          firstSeenAt,
+          lastSeenAt,
+          reputation: DEFAULT_REPUTATION,
+        }))
+      )
+      .onConflictDoUpdate({
+        target: schema.memexUsers.userId,
+        set: {
+          userName: sql`excluded.user_name`,
+          userType: sql`excluded.user_type`,
+          isPreOrdered: sql`excluded.is_pre_ordered`,
+          firstSeenAt: sql`least(${schema.memexUsers.firstSeenAt}, excluded.first_seen_at)`,
+          lastSeenAt: sql`greatest(${schema.memexUsers.lastSeenAt}, excluded.last_seen_at)`,
+        },
+      });
+  }
+
+  /**
+   * Rebuild every author's history and reputation from stored posts and score snapshots
+   */
+  async recompute(now: number = Date.now()): Promise<number> {
+    const windowStart = new Date(now - REPUTATION_WINDOW_DAYS * DAY_MS);
+
+    const posts = await db.query.memexPosts.findMany({
+      where: gte(schema.memexPosts.postCreatedAt, windowStart),
+      columns: {
+        userId: true,
+        userName: true,
+        userIsPreOrdered: true,
+        likeCount: true,
+        repostCount: true,
+        replyCount: true,
+        mentionedTokens: true,
+        extractedTickers: true,
+        extractedHashtags: true,
+        postCreatedAt: true,
+      },
+    });
+
+    // Only high-scoring snapshots matter for call success
+    const hits = await db.query.tokenScoreSnapshots.findMany({
+      where: and(gte(schema.tokenScoreSnapshots.snapshotHour, windowStart), gte(schema.tokenScoreSnapshots.score, CALL_SUCCESS_SCORE)),
+      columns: { tokenSymbol: true, snapshotHour: true },
+    });
+    const hitHours = new Map<string, number[]>();
+    for (const hit of hits) {
+      const symbol = hit.tokenSymbol.toUpperCase();
+      if (!hitHours.has(symbol)) hitHours.set(symbol, []);
+      hitHours.get(symbol)!.push(hit.snapshotHour.getTime());
+    }
+
+    const existingUsers = await db.query.memexUsers.findMany();
+    const existingById = new Map<number, MemexUser>(existingUsers.map((u) => [u.userId, u]));
+
+    const stats = new Map<
+      number,
+      { userName: string | null; isPreOrdered: boolean; firstSeenAt: Date; lastSeenAt: Date; posts: number; engagement: number; calls: number; hits: number }
+    >();
+
+    for (const post of posts) {
+      const entry = stats.get(post.userId) ?? {
+        userName: post.userName,
+        isPreOrdered: post.userIsPreOrdered ?? false,
+        firstSeenAt: post.postCreatedAt,
+        lastSeenAt: post.postCreatedAt,
+        posts: 0,
+        engagement: 0,
+        calls: 0,
+        hits: 0,
+      };
+
+      entry.posts += 1;
+      entry.engagement += (post.likeCount ?? 0) + (post.repostCount ?? 0) + (post.replyCount ?? 0);
+      if (post.postCreatedAt < entry.firstSeenAt) entry.firstSeenAt = post.postCreatedAt;
+      if (post.postCreatedAt > entry.lastSeenAt) entry.lastSeenAt = post.postCreatedAt;
+
+      // Calls can only be judged once the horizon has passed
+      const postTime = post.postCreatedAt.getTime();
+      if (postTime + CALL_HORIZON_HOURS * HOUR_MS <= now) {
+        const tokens = new Set<string>(
+          [post.mentionedTokens, post.extractedTickers, post.extractedHashtags].flatMap((json) =>
+            json ? (JSON.parse(json) as string[]).map((t) => t.toUpperCase()) : []
+          )
+        );
+        for (const token of tokens) {
+          entry.calls += 1;
+          const hours = hitHours.get(token);
+          if (hours?.some((hour) => hour > postTime && hour <= postTime + CALL_HORIZON_HOURS * HOUR_MS)) {
+            entry.hits += 1;
+          }
+        }
+      }
+
+      stats.set(post.userId, entry);
+    }
+
+    const reputations = new Map<number, number>();
+    for (const [userId, entry] of stats) {
+      const existing = existingById.get(userId);
+      const firstSeenAt = existing && existing.firstSeenAt < entry.firstSeenAt ? existing.firstSeenAt : entry.firstSeenAt;
+      const avgEngagement = entry.posts > 0 ? entry.engagement / entry.posts : 0;
+      const reputation = this.calculateReputation({
+        accountAgeDays: (now - firstSeenAt.getTime()) / DAY_MS,
+        userType: existing?.userType ?? 'GENERAL',
+        avgEngagement,
+        tokenCalls: entry.calls,
+        successfulCalls: entry.hits,
+      });
+      reputations.set(userId, reputation);
+
+      const values = {
+        userName: entry.userName,
+        isPreOrdered: entry.isPreOrdered,
+        firstSeenAt,
+        lastSeenAt: existing && existing.lastSeenAt > entry.lastSeenAt ? existing.lastSeenAt : entry.lastSeenAt,
+        postCount: entry.posts,
+        avgEngagement,
+        tokenCalls: entry.calls,
+        successfulCalls: entry.hits,
+        reputation,
+        updatedAt: new Date(now),
+      };
+
+      await db
+        .insert(schema.memexUsers)
+        .values({ userId, ...values })
+        .onConflictDoUpdate({ target: schema.memexUsers.userId, set: values });
+    }
+
+    // Authors without posts in the window keep their stored reputation
+    for (const user of existingUsers) {
+      if (!reputations.has(user.userId)) {
+        reputations.set(user.userId, user.reputation);
+      }
+    }
+
+    this.reputations = reputations;
+    this.loadedAt = now;
+    return stats.size;
+  }
+
+  /**
+   * Composite reputation (0-1) from an author's history
+   */
+  calculateReputation(history: {
+    accountAgeDays: number;
+    userType: string;
+    avgEngagement: number;
+    tokenCalls: number;
+    successfulCalls: number;
+  }): number {
+    const age = Math.min(1, Math.max(0, history.accountAgeDays) / MATURE_ACCOUNT_DAYS);
+    const userType = USER_TYPE_SCORES[history.userType] ?? USER_TYPE_SCORES.GENERAL;
+    const engagement = history.avgEngagement / (history.avgEngagement + ENGAGEMENT_MIDPOINT);
+    const calls = (history.successfulCalls + PRIOR_HITS) / (history.tokenCalls + PRIOR_CALLS);
+
+    const reputation =
+      COMPONENT_WEIGHTS.age * age +
+      COMPONENT_WEIGHTS.userType * userType +
+      COMPONENT_WEIGHTS.engagement * engagement +
+      COMPONENT_WEIGHTS.calls * calls;
+
+    return Math.round(Math.min(1, Math.max(0, reputation)) * 1000) / 1000;
+  }
+
+  /**
+   * Get a user's stored reputation record
+   */
+  async getUser(userId: number): Promise<MemexUser | null> {
+    const user = await db.query.memexUsers.findFirst({
+      where: eq(schema.memexUsers.userId, userId),
+    });
+    return user ?? null;
+  }
+}
+
+// Singleton instance
+export const reputationService = new ReputationService();
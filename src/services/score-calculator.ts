@@ -1,32 +1,21 @@
-import type { AggregatedMetrics } from '../types/memex';
-import type { ScoreWeights, EnhancedScoreMultipliers } from '../types/score';
-
-/**
- * Default scoring weights
- * Adjust these to tune the viral score algorithm
- */
-const DEFAULT_WEIGHTS: ScoreWeights = {
-  posts: 100, // Each post is worth 100 points
-  views: 1, // Each view is worth 1 point
-  likes: 20, // Each like is worth 20 points
-  reposts: 50, // Each repost is worth 50 points (high viral indicator)
-  replies: 30, // Each reply is worth 30 points (engagement)
-  uniqueUsers: 200, // Each unique user is worth 200 points (reach)
-};
-
-/**
- * Enhanced multipliers based on 50-page Memex data analysis
- * Key findings:
- * - Graduated (100% bonding) posts have 2.25x higher engagement (1286 vs 572)
- * - Posts with images have 1.28x higher engagement (715 vs 558)
- * - Price volatility indicates active trading
- */
-const DEFAULT_MULTIPLIERS: EnhancedScoreMultipliers = {
-  graduatedTokenBonus: 1.5, // 50% bonus for fully graduated tokens
-  imagePostBonus: 1.2, // 20% bonus for image-rich content
-  priceVolatilityBonus: 1.1, // 10% bonus for price movement (capped)
-  preOrderedUserWeight: 1.0, // Neutral weight (analysis showed 0.96x ratio)
-};
+import type { AggregatedMetrics, PostWeighting } from '../types/memex';
+import type {
+  ScoreWeights,
+  EnhancedScoreMultipliers,
+  ScoreThresholds,
+  ScoringStrategy,
+  ScoringStageId,
+  NormalizationMode,
+  ScoreBreakdown,
+  ScoreComponent,
+  ScorePenalty,
+  ScoreMultiplierFactor,
+  PairScorePolicy,
+  PairScoreOptions,
+  PairScoreResult,
+} from '../types/score';
+import { getScoringStrategy } from '../constants/scoring-strategies';
+import { createRandom, hashString } from '../utils/random';
 
 /**
  * Score calculation constants
@@ -35,76 +24,241 @@ const MAX_SCORE = 10000; // Maximum score in basis points
 const MIN_SCORE = 0;
 const SCORE_NORMALIZER = 10000; // Normalizer to bring raw scores to 0-10000 range
 
+// Anti-gaming penalties stack up to this cap
+const MAX_PENALTY = 0.5;
+
+// Sentiment dampener: negative-post share tolerated before dampening, and the dampening cap
+const NEGATIVE_SENTIMENT_TOLERANCE = 0.2;
+const MAX_SENTIMENT_DAMPENING = 0.5;
+
+// Cold start: tokens first seen within COLD_START_HOURS score on engagement rate since first appearance
+// (extrapolated to COLD_START_REFERENCE_HOURS) plus a boost; both fade linearly to nothing at COLD_START_HOURS
+const COLD_START_HOURS = 72;
+const COLD_START_REFERENCE_HOURS = 24;
+const COLD_START_MIN_AGE_HOURS = 3; // Rate is measured over at least this long (caps extrapolation at 8x)
+const MAX_COLD_START_BOOST = 0.5;
+const MAX_COLD_START_MULTIPLIER = 2; // Extrapolation and boost combined
+
+// Conversation bonus per doubling of average reply depth / breadth (capped), see calculateConversationBonus
+const CONVERSATION_DEPTH_BONUS = 0.15;
+const CONVERSATION_BREADTH_BONUS = 0.1;
+const MAX_CONVERSATION_BONUS = 0.5;
+
+// Pair scoring
+export const PAIR_SCORE_POLICIES: PairScorePolicy[] = ['average', 'minimum', 'geometricMean', 'tvlWeighted', 'coMention'];
+const CO_MENTION_MIDPOINT = 5; // Joint posts at which the co-mention score reaches 5000
+
+/**
+ * Sorted pair key for two token symbols ("TOKENX/TOKENY")
+ */
+export function getPairKey(tokenX: string, tokenY: string): string {
+  return [tokenX.toUpperCase(), tokenY.toUpperCase()].sort().join('/');
+}
+
+// Relative normalization constants
+const MIN_RELATIVE_POPULATION = 5; // Fewer tokens than this falls back to absolute normalization
+export const MAD_TO_STDDEV = 1.4826; // Scales MAD to a standard deviation for normally distributed data
+const ROBUST_Z_SCALE = 1.5; // z-score at which robustZ reaches ~82% of max (logistic slope)
+
+// Confidence intervals: Poisson bootstrap over each token's posts
+const INTERVAL_CONFIDENCE = 0.9;
+const BOOTSTRAP_SAMPLES = 200;
+
 // Time decay constants
 const TIME_DECAY_HALF_LIFE_HOURS = 24; // Score halves every 24 hours
 const MAX_AGE_HOURS = 168; // 7 days - posts older than this get minimal weight
 
-// Enhanced scoring thresholds
-const GRADUATED_THRESHOLD = 0.3; // 30% of posts from graduated tokens = bonus
-const IMAGE_THRESHOLD = 0.5; // 50% posts with images = bonus
-const VOLATILITY_THRESHOLD = 1.0; // 1% avg price change = bonus
+/**
+ * Calculate exponential time decay factor for a point in time
+ * Returns 0 for anything older than 7 days
+ */
+export function calculateDecayFactor(time: Date, halfLifeHours: number, now: number = Date.now()): number {
+  const ageHours = Math.max(0, (now - time.getTime()) / (1000 * 60 * 60));
+
+  // If post is too old (> 7 days), return 0 (100% decay)
+  if (ageHours > MAX_AGE_HOURS) {
+    return 0;
+  }
+
+  // Exponential decay: e^(-t * ln2 / halfLife)
+  return Math.exp((-ageHours * Math.LN2) / halfLifeHours);
+}
+
+/**
+ * Median of an ascending-sorted array
+ */
+export function medianOfSorted(sorted: number[]): number {
+  if (sorted.length === 0) return 0;
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Linearly interpolated quantile (0-1) of an ascending-sorted array
+ */
+function quantileOfSorted(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = q * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Unique user count with each user counted at their weight (userId -> weight)
+ */
+export function sumUserWeights(users: Map<number, number>): number {
+  let total = 0;
+  users.forEach((weight) => (total += weight));
+  return total;
+}
+
+/**
+ * Draw from a Poisson(1) distribution (Knuth's method)
+ */
+function poissonOne(random: () => number): number {
+  let k = 0;
+  let p = random();
+  while (p > Math.exp(-1)) {
+    k++;
+    p *= random();
+  }
+  return k;
+}
 
 /**
  * Viral Score Calculator
  * Calculates viral scores based on social media engagement metrics
- * Enhanced with multipliers based on 50-page Memex data analysis
+ * The formula (weights, multipliers, stage pipeline) comes from a versioned scoring strategy
  */
 export class ScoreCalculator {
+  private strategy: ScoringStrategy;
   private weights: ScoreWeights;
   private multipliers: EnhancedScoreMultipliers;
+  private thresholds: ScoreThresholds;
+
+  constructor(strategy: ScoringStrategy = getScoringStrategy()) {
+    this.strategy = strategy;
+    this.weights = strategy.weights;
+    this.multipliers = strategy.multipliers;
+    this.thresholds = strategy.thresholds;
+  }
+
+  /**
+   * Get the version of the strategy this calculator scores with
+   */
+  getStrategyVersion(): string {
+    return this.strategy.version;
+  }
+
+  /**
+   * Get the strategy this calculator scores with
+   */
+  getStrategy(): ScoringStrategy {
+    return this.strategy;
+  }
 
-  constructor(weights: ScoreWeights = DEFAULT_WEIGHTS, multipliers: EnhancedScoreMultipliers = DEFAULT_MULTIPLIERS) {
-    this.weights = weights;
-    this.multipliers = multipliers;
+  /**
+   * Per-post weighting (decay half-life and author reputation) used when aggregating for this strategy
+   */
+  getPostWeighting(): PostWeighting {
+    return {
+      halfLifeHours: this.strategy.postDecayHalfLifeHours,
+      reputationWeight: this.strategy.reputationWeight,
+      replyCreditWeight: this.strategy.replyCreditWeight,
+    };
+  }
+
+  /**
+   * Get the normalization mode this calculator scores with
+   */
+  getNormalizationMode(): NormalizationMode {
+    return this.strategy.normalizationMode;
+  }
+
+  /**
+   * Weighted components of the raw score
+   * In perPost decay mode, engagement counts are the per-post decayed sums
+   */
+  calculateScoreComponents(metrics: AggregatedMetrics): ScoreComponent[] {
+    const perPost = this.strategy.decayMode === 'perPost';
+    const values: Record<keyof ScoreWeights, number> = {
+      posts: perPost ? metrics.decayedPosts : metrics.posts,
+      views: perPost ? metrics.decayedViews : metrics.views,
+      likes: perPost ? metrics.decayedLikes : metrics.likes,
+      reposts: perPost ? metrics.decayedReposts : metrics.reposts,
+      replies: perPost ? metrics.decayedReplies : metrics.replies,
+      uniqueUsers: metrics.uniqueUserCount,
+    };
+
+    return (Object.keys(values) as (keyof ScoreWeights)[]).map((metric) => ({
+      metric,
+      value: values[metric],
+      weight: this.weights[metric],
+      points: values[metric] * this.weights[metric],
+    }));
   }
 
   /**
    * Calculate raw score from metrics
    */
   calculateRawScore(metrics: AggregatedMetrics): number {
-    return (
-      metrics.posts * this.weights.posts +
-      metrics.views * this.weights.views +
-      metrics.likes * this.weights.likes +
-      metrics.reposts * this.weights.reposts +
-      metrics.replies * this.weights.replies +
-      metrics.uniqueUserCount * this.weights.uniqueUsers
-    );
+    return this.calculateScoreComponents(metrics).reduce((sum, c) => sum + c.points, 0);
   }
 
   /**
    * Calculate enhanced multiplier based on token metrics
    * Based on 50-page analysis findings
    */
-  calculateEnhancedMultiplier(metrics: AggregatedMetrics): { multiplier: number; factors: string[] } {
+  calculateEnhancedMultiplier(metrics: AggregatedMetrics): {
+    multiplier: number;
+    factors: string[];
+    details: ScoreMultiplierFactor[];
+  } {
     let multiplier = 1.0;
     const factors: string[] = [];
+    const details: ScoreMultiplierFactor[] = [];
 
     // Graduated token bonus (100% bonding curve)
     // Analysis showed 2.25x engagement for graduated tokens
-    if (metrics.graduatedPostRatio >= GRADUATED_THRESHOLD) {
+    if (metrics.graduatedPostRatio >= this.thresholds.graduated) {
       const bonus = 1 + (this.multipliers.graduatedTokenBonus - 1) * Math.min(metrics.graduatedPostRatio / 0.5, 1);
       multiplier *= bonus;
       factors.push(`graduated:${(bonus * 100 - 100).toFixed(0)}%`);
+      details.push({
+        factor: 'graduated',
+        multiplier: bonus,
+        reason: `${(metrics.graduatedPostRatio * 100).toFixed(0)}% of posts from graduated tokens`,
+      });
     }
 
     // Image post bonus
     // Analysis showed 1.28x engagement for posts with images
-    if (metrics.imagePostRatio >= IMAGE_THRESHOLD) {
+    if (metrics.imagePostRatio >= this.thresholds.image) {
       const bonus = 1 + (this.multipliers.imagePostBonus - 1) * Math.min(metrics.imagePostRatio, 1);
       multiplier *= bonus;
       factors.push(`image:${(bonus * 100 - 100).toFixed(0)}%`);
+      details.push({
+        factor: 'image',
+        multiplier: bonus,
+        reason: `${(metrics.imagePostRatio * 100).toFixed(0)}% of posts have images`,
+      });
     }
 
     // Price volatility bonus (indicates active trading)
-    if (metrics.avgPriceFluctuation >= VOLATILITY_THRESHOLD) {
+    if (metrics.avgPriceFluctuation >= this.thresholds.volatility) {
       const volatilityFactor = Math.min(metrics.avgPriceFluctuation / 5, 1); // Cap at 5%
       const bonus = 1 + (this.multipliers.priceVolatilityBonus - 1) * volatilityFactor;
       multiplier *= bonus;
       factors.push(`volatility:${(bonus * 100 - 100).toFixed(0)}%`);
+      details.push({
+        factor: 'volatility',
+        multiplier: bonus,
+        reason: `${metrics.avgPriceFluctuation.toFixed(2)}% average price fluctuation`,
+      });
     }
 
-    return { multiplier, factors };
+    return { multiplier, factors, details };
   }
 
   /**
@@ -112,28 +266,19 @@ export class ScoreCalculator {
    * Newer posts get higher weight, older posts decay exponentially
    * Posts older than 7 days get 100% decay (score = 0)
    */
-  calculateTimeDecay(latestPostTime: Date): number {
-    const now = Date.now();
-    const postTime = latestPostTime.getTime();
-    const ageHours = (now - postTime) / (1000 * 60 * 60);
-
-    // If post is too old (> 7 days), return 0 (100% decay)
-    if (ageHours > MAX_AGE_HOURS) {
-      return 0;
-    }
-
-    // Exponential decay: e^(-t / halfLife)
-    const decayFactor = Math.exp((-ageHours * Math.LN2) / TIME_DECAY_HALF_LIFE_HOURS);
-
-    return decayFactor; // No minimum - can decay to 0
+  calculateTimeDecay(latestPostTime: Date, now: number = Date.now()): number {
+    return calculateDecayFactor(latestPostTime, TIME_DECAY_HALF_LIFE_HOURS, now);
   }
 
   /**
    * Apply anti-gaming adjustments
    * Detects suspicious patterns and reduces score accordingly
    */
-  applyAntiGaming(metrics: AggregatedMetrics, rawScore: number): { score: number; penalty: number } {
-    let penalty = 0;
+  applyAntiGaming(
+    metrics: AggregatedMetrics,
+    rawScore: number
+  ): { score: number; penalty: number; penalties: ScorePenalty[] } {
+    const penalties: ScorePenalty[] = [];
 
     // Check for suspicious view-to-engagement ratio
     // If views are very high but engagement is low, it might be botted
@@ -142,24 +287,171 @@ export class ScoreCalculator {
 
       if (engagementRate < 0.001) {
         // Less than 0.1% engagement
-        penalty += 0.3; // 30% penalty
+        penalties.push({
+          code: 'LOW_ENGAGEMENT_RATE',
+          reason: `${metrics.views} views with ${(engagementRate * 100).toFixed(3)}% engagement (< 0.1%)`,
+          penalty: 0.3, // 30% penalty
+        });
       }
     }
 
     // Check for suspicious single-user dominance
     // If most posts are from few users, reduce score
     if (metrics.posts > 10 && metrics.uniqueUserCount < 3) {
-      penalty += 0.2; // 20% penalty
+      penalties.push({
+        code: 'FEW_USERS',
+        reason: `${metrics.posts} posts from only ${metrics.uniqueUserCount} users`,
+        penalty: 0.2, // 20% penalty
+      });
     }
 
     // Check for spam-like behavior (too many posts in short time)
     // This would need historical data, simplified here
     if (metrics.posts > 50) {
-      penalty += 0.1; // 10% penalty for potential spam
+      penalties.push({
+        code: 'HIGH_POST_VOLUME',
+        reason: `${metrics.posts} posts (> 50) in window`,
+        penalty: 0.1, // 10% penalty for potential spam
+      });
+    }
+
+    const penalty = penalties.reduce((sum, p) => sum + p.penalty, 0);
+    const adjustedScore = rawScore * (1 - Math.min(penalty, MAX_PENALTY)); // Max 50% penalty
+    return { score: adjustedScore, penalty, penalties };
+  }
+
+  /**
+   * Calculate the negative-sentiment dampener
+   * Tokens whose posts are mostly negative ("rug", "scam", 떡락...) lose up to 50% of their score,
+   * since that engagement is people warning each other, not viral interest
+   */
+  calculateSentimentDampener(metrics: AggregatedMetrics): { multiplier: number; detail: ScoreMultiplierFactor | null } {
+    if (metrics.negativePostRatio <= NEGATIVE_SENTIMENT_TOLERANCE) {
+      return { multiplier: 1, detail: null };
+    }
+
+    const excess = (metrics.negativePostRatio - NEGATIVE_SENTIMENT_TOLERANCE) / (1 - NEGATIVE_SENTIMENT_TOLERANCE);
+    const multiplier = 1 - MAX_SENTIMENT_DAMPENING * excess;
+    return {
+      multiplier,
+      detail: {
+        factor: 'negativeSentiment',
+        multiplier,
+        reason: `${(metrics.negativePostRatio * 100).toFixed(0)}% of posts negative (avg sentiment ${metrics.avgSentiment.toFixed(2)})`,
+      },
+    };
+  }
+
+  /**
+   * Calculate the conversation bonus
+   * Averages are taken over every conversation the token's posts belong to (isolated posts count
+   * as depth 0), so tokens that start long, many-participant reply threads earn up to +50%
+   */
+  calculateConversationBonus(metrics: AggregatedMetrics): { multiplier: number; detail: ScoreMultiplierFactor | null } {
+    if (metrics.avgConversationDepth <= 0 && metrics.avgConversationBreadth <= 0) {
+      return { multiplier: 1, detail: null };
+    }
+
+    const bonus = Math.min(
+      MAX_CONVERSATION_BONUS,
+      CONVERSATION_DEPTH_BONUS * Math.log2(1 + metrics.avgConversationDepth) +
+        CONVERSATION_BREADTH_BONUS * Math.log2(1 + metrics.avgConversationBreadth)
+    );
+    const multiplier = 1 + bonus;
+    return {
+      multiplier,
+      detail: {
+        factor: 'conversation',
+        multiplier,
+        reason: `${metrics.conversationCount} conversations: avg depth ${metrics.avgConversationDepth.toFixed(1)} (max ${metrics.maxConversationDepth}), avg ${metrics.avgConversationBreadth.toFixed(1)} participants`,
+      },
+    };
+  }
+
+  /**
+   * Calculate market signal contributions from the current Memex leaderboard
+   * Holder growth, volume and transactions each add a bonus that saturates at its configured cap
+   * (half the bonus at the reference threshold). A listed token with neither volume nor transactions
+   * is buzz without trading behind it and gets the no-trading penalty instead.
+   * Tokens without market data (not on the leaderboard, historical replays) are left unchanged.
+   */
+  calculateMarketSignals(metrics: AggregatedMetrics): { multiplier: number; details: ScoreMultiplierFactor[] } {
+    const market = metrics.market;
+    if (!market) {
+      return { multiplier: 1, details: [] };
+    }
+
+    if (market.volume <= 0 && market.transactions <= 0) {
+      const multiplier = this.multipliers.noTradingPenalty;
+      return {
+        multiplier,
+        details: [{ factor: 'noTrading', multiplier, reason: `no volume or transactions (${market.holders} holders)` }],
+      };
+    }
+
+    const contributions = [
+      {
+        factor: 'holderGrowth',
+        value: market.holderGrowth ?? 0,
+        bonus: this.multipliers.holderGrowthBonus,
+        reference: this.thresholds.holderGrowth,
+        reason: `+${market.holderGrowth} holders in 24h (${market.holders} total)`,
+      },
+      {
+        factor: 'marketVolume',
+        value: market.volume,
+        bonus: this.multipliers.volumeBonus,
+        reference: this.thresholds.volume,
+        reason: `volume ${market.volume.toFixed(0)}`,
+      },
+      {
+        factor: 'transactions',
+        value: market.transactions,
+        bonus: this.multipliers.transactionBonus,
+        reference: this.thresholds.transactions,
+        reason: `${market.transactions} transactions`,
+      },
+    ];
+
+    let multiplier = 1;
+    const details: ScoreMultiplierFactor[] = [];
+    for (const { factor, value, bonus, reference, reason } of contributions) {
+      if (value <= 0) continue;
+      const contribution = 1 + (bonus - 1) * (value / (value + Math.max(reference, 1)));
+      multiplier *= contribution;
+      details.push({ factor, multiplier: contribution, reason });
     }
 
-    const adjustedScore = rawScore * (1 - Math.min(penalty, 0.5)); // Max 50% penalty
-    return { score: adjustedScore, penalty };
+    return { multiplier, details };
+  }
+
+  /**
+   * Calculate the cold-start multiplier for young tokens
+   * A token's window totals only cover its lifetime, so a token seen for 3 hours is scored as if
+   * it kept its hourly engagement rate for a day, plus a launch boost. Both fade as the token ages.
+   */
+  calculateColdStart(metrics: AggregatedMetrics, now: number = Date.now()): { multiplier: number; detail: ScoreMultiplierFactor | null } {
+    const ageHours = Math.max(0, (now - metrics.firstSeenAt.getTime()) / (60 * 60 * 1000));
+    if (ageHours >= COLD_START_HOURS) {
+      return { multiplier: 1, detail: null };
+    }
+
+    const fade = 1 - ageHours / COLD_START_HOURS;
+    const rateFactor = Math.max(1, COLD_START_REFERENCE_HOURS / Math.max(ageHours, COLD_START_MIN_AGE_HOURS));
+    const extrapolation = 1 + (rateFactor - 1) * fade;
+    const boost = 1 + MAX_COLD_START_BOOST * fade;
+    const multiplier = Math.min(extrapolation * boost, MAX_COLD_START_MULTIPLIER);
+
+    return {
+      multiplier,
+      detail: {
+        factor: 'coldStart',
+        multiplier,
+        reason:
+          `first seen ${ageHours.toFixed(1)}h ago: engagement rate x${extrapolation.toFixed(2)}, launch boost +${((boost - 1) * 100).toFixed(0)}%` +
+          (multiplier < extrapolation * boost ? `, capped at x${MAX_COLD_START_MULTIPLIER}` : ''),
+      },
+    };
   }
 
   /**
@@ -173,56 +465,384 @@ export class ScoreCalculator {
   }
 
   /**
-   * Calculate final viral score with enhanced multipliers
+   * Apply a single pipeline stage to the running score, recording its effect in the breakdown
    */
-  calculate(metrics: AggregatedMetrics): number {
+  private applyStage(
+    stage: ScoringStageId,
+    metrics: AggregatedMetrics,
+    score: number,
+    breakdown: ScoreBreakdown,
+    now: number,
+    verbose: boolean
+  ): number {
+    switch (stage) {
+      case 'coldStart': {
+        const { multiplier, detail } = this.calculateColdStart(metrics, now);
+        if (detail) {
+          breakdown.multipliers.push(detail);
+          breakdown.totalMultiplier *= multiplier;
+        }
+        return score * multiplier;
+      }
+      case 'timeDecay': {
+        const timeDecay = this.calculateTimeDecay(metrics.latestPostTime, now);
+        breakdown.decayFactor = timeDecay;
+        return score * timeDecay;
+      }
+      case 'antiGaming': {
+        const { score: adjustedScore, penalty, penalties } = this.applyAntiGaming(metrics, score);
+        breakdown.penalties.push(...penalties);
+        breakdown.totalPenalty = Math.min(penalty, MAX_PENALTY);
+        if (verbose && penalty > 0) {
+          console.log(`[ScoreCalculator] Applied ${(penalty * 100).toFixed(0)}% penalty to ${metrics.tokenSymbol}`);
+        }
+        return adjustedScore;
+      }
+      case 'enhancedMultiplier': {
+        const { multiplier, factors, details } = this.calculateEnhancedMultiplier(metrics);
+        breakdown.multipliers.push(...details);
+        breakdown.totalMultiplier *= multiplier;
+        if (verbose && factors.length > 0) {
+          console.log(`[ScoreCalculator] ${metrics.tokenSymbol} bonuses: ${factors.join(', ')}`);
+        }
+        return score * multiplier;
+      }
+      case 'sentimentDampener': {
+        const { multiplier, detail } = this.calculateSentimentDampener(metrics);
+        if (detail) {
+          breakdown.multipliers.push(detail);
+          breakdown.totalMultiplier *= multiplier;
+          if (verbose) console.log(`[ScoreCalculator] ${metrics.tokenSymbol} sentiment dampener: ${(multiplier * 100).toFixed(0)}%`);
+        }
+        return score * multiplier;
+      }
+      case 'conversation': {
+        const { multiplier, detail } = this.calculateConversationBonus(metrics);
+        if (detail) {
+          breakdown.multipliers.push(detail);
+          breakdown.totalMultiplier *= multiplier;
+        }
+        return score * multiplier;
+      }
+      case 'marketSignals': {
+        const { multiplier, details } = this.calculateMarketSignals(metrics);
+        breakdown.multipliers.push(...details);
+        breakdown.totalMultiplier *= multiplier;
+        if (verbose && multiplier < 1) {
+          console.log(`[ScoreCalculator] ${metrics.tokenSymbol} has no trading activity: ${(multiplier * 100).toFixed(0)}%`);
+        }
+        return score * multiplier;
+      }
+    }
+  }
+
+  /**
+   * Run raw score and the strategy's stage pipeline (everything before normalization)
+   * Returns a breakdown with absolute normalization applied
+   */
+  private runPipeline(metrics: AggregatedMetrics, now: number, verbose: boolean = true): ScoreBreakdown {
     // 1. Calculate raw score
-    let rawScore = this.calculateRawScore(metrics);
+    const components = this.calculateScoreComponents(metrics);
+    const rawScore = components.reduce((sum, c) => sum + c.points, 0);
+
+    const breakdown: ScoreBreakdown = {
+      tokenSymbol: metrics.tokenSymbol,
+      strategyVersion: this.strategy.version,
+      normalizationMode: 'absolute',
+      components,
+      rawScore,
+      stages: [],
+      decayFactor: null,
+      penalties: [],
+      totalPenalty: 0,
+      multipliers: [],
+      totalMultiplier: 1,
+      preNormalizationScore: rawScore,
+      normalizedScore: 0,
+      momentumScore: null,
+      finalScore: 0,
+      interval: null,
+    };
 
-    // 2. Apply time decay
-    const timeDecay = this.calculateTimeDecay(metrics.latestPostTime);
-    rawScore *= timeDecay;
+    // 2. Apply strategy stages in order
+    let score = rawScore;
+    for (const stage of this.strategy.stages) {
+      const scoreBefore = score;
+      score = this.applyStage(stage, metrics, score, breakdown, now, verbose);
+      breakdown.stages.push({ stage, scoreBefore, scoreAfter: score });
+    }
 
-    // 3. Apply anti-gaming adjustments
-    const { score: adjustedScore, penalty } = this.applyAntiGaming(metrics, rawScore);
+    // 3. Normalize to 0-10000
+    breakdown.preNormalizationScore = score;
+    breakdown.normalizedScore = this.normalizeScore(score);
+    breakdown.finalScore = breakdown.normalizedScore;
 
-    if (penalty > 0) {
-      console.log(`[ScoreCalculator] Applied ${(penalty * 100).toFixed(0)}% penalty to ${metrics.tokenSymbol}`);
+    return breakdown;
+  }
+
+  /**
+   * Calculate final viral score with a full breakdown of how it was produced
+   * Always uses absolute normalization - relative modes need the whole population (see calculateBatchWithBreakdown)
+   */
+  explain(metrics: AggregatedMetrics, now: number = Date.now(), verbose: boolean = true): ScoreBreakdown {
+    const breakdown = this.runPipeline(metrics, now, verbose);
+
+    if (verbose) {
+      console.log(
+        `[ScoreCalculator] ${metrics.tokenSymbol} (${this.strategy.version}): raw=${breakdown.rawScore.toFixed(0)}, ` +
+          `adjusted=${breakdown.preNormalizationScore.toFixed(0)}, final=${breakdown.finalScore}`
+      );
     }
 
-    // 4. Apply enhanced multipliers (new!)
-    const { multiplier, factors } = this.calculateEnhancedMultiplier(metrics);
-    const enhancedScore = adjustedScore * multiplier;
+    return breakdown;
+  }
+
+  /**
+   * Calculate final viral score by running the strategy's stage pipeline
+   * Always uses absolute normalization - relative modes need the whole population (see calculateBatch)
+   */
+  calculate(metrics: AggregatedMetrics, now: number = Date.now()): number {
+    return this.explain(metrics, now).finalScore;
+  }
 
-    if (factors.length > 0) {
-      console.log(`[ScoreCalculator] ${metrics.tokenSymbol} bonuses: ${factors.join(', ')}`);
+  /**
+   * Bootstrap the adjusted (pre-normalization) score over the token's own posts
+   * Each resample draws every post Poisson(1) times and reruns the stage pipeline, so the post count
+   * varies too: a token resting on 1-2 posts gets a wide interval, one with 200 posts a narrow one.
+   * Engagement not tied to the token's own posts (credited replies) and the ratio inputs stay fixed.
+   * Returns null when the metrics carry no per-post contributions
+   */
+  bootstrapAdjustedScore(metrics: AggregatedMetrics, now: number = Date.now()): { lower: number; upper: number } | null {
+    const contributions = metrics.postContributions;
+    if (contributions.length === 0) return null;
+
+    // Whatever the posts don't account for is carried into every resample unchanged
+    const observed = { posts: 0, views: 0, likes: 0, reposts: 0, replies: 0, weight: 0, decayedViews: 0, decayedLikes: 0, decayedReposts: 0, decayedReplies: 0 };
+    const observedUsers = new Map<number, number>();
+    for (const post of contributions) {
+      observed.posts += post.countWeight;
+      observed.views += post.views * post.countWeight;
+      observed.likes += post.likes * post.countWeight;
+      observed.reposts += post.reposts * post.countWeight;
+      observed.replies += post.replies * post.countWeight;
+      observed.weight += post.weight;
+      observed.decayedViews += post.views * post.weight;
+      observed.decayedLikes += post.likes * post.weight;
+      observed.decayedReposts += post.reposts * post.weight;
+      observed.decayedReplies += post.replies * post.weight;
+      observedUsers.set(post.userId, Math.max(observedUsers.get(post.userId) ?? 0, post.userWeight));
     }
 
-    // 5. Normalize to 0-10000
-    const finalScore = this.normalizeScore(enhancedScore);
+    // Seeded by token, so an interval is stable between runs on the same data
+    const random = createRandom(hashString(metrics.tokenSymbol));
+    const adjustedScores: number[] = [];
+    for (let sample = 0; sample < BOOTSTRAP_SAMPLES; sample++) {
+      const totals = { posts: 0, views: 0, likes: 0, reposts: 0, replies: 0, weight: 0, decayedViews: 0, decayedLikes: 0, decayedReposts: 0, decayedReplies: 0 };
+      const users = new Map<number, number>();
+      for (const post of contributions) {
+        const draws = poissonOne(random);
+        if (draws === 0) continue;
+        totals.posts += post.countWeight * draws;
+        totals.views += post.views * post.countWeight * draws;
+        totals.likes += post.likes * post.countWeight * draws;
+        totals.reposts += post.reposts * post.countWeight * draws;
+        totals.replies += post.replies * post.countWeight * draws;
+        totals.weight += post.weight * draws;
+        totals.decayedViews += post.views * post.weight * draws;
+        totals.decayedLikes += post.likes * post.weight * draws;
+        totals.decayedReposts += post.reposts * post.weight * draws;
+        totals.decayedReplies += post.replies * post.weight * draws;
+        users.set(post.userId, Math.max(users.get(post.userId) ?? 0, post.userWeight));
+      }
 
-    console.log(
-      `[ScoreCalculator] ${metrics.tokenSymbol}: raw=${rawScore.toFixed(0)}, ` +
-        `decay=${timeDecay.toFixed(2)}, mult=${multiplier.toFixed(2)}, final=${finalScore}`
-    );
+      const resampled: AggregatedMetrics = {
+        ...metrics,
+        posts: metrics.posts - observed.posts + totals.posts,
+        views: metrics.views - observed.views + totals.views,
+        likes: metrics.likes - observed.likes + totals.likes,
+        reposts: metrics.reposts - observed.reposts + totals.reposts,
+        replies: metrics.replies - observed.replies + totals.replies,
+        uniqueUserCount: metrics.uniqueUserCount - sumUserWeights(observedUsers) + sumUserWeights(users),
+        decayedPosts: metrics.decayedPosts - observed.weight + totals.weight,
+        decayedViews: metrics.decayedViews - observed.decayedViews + totals.decayedViews,
+        decayedLikes: metrics.decayedLikes - observed.decayedLikes + totals.decayedLikes,
+        decayedReposts: metrics.decayedReposts - observed.decayedReposts + totals.decayedReposts,
+        decayedReplies: metrics.decayedReplies - observed.decayedReplies + totals.decayedReplies,
+      };
+      adjustedScores.push(Math.max(0, this.runPipeline(resampled, now, false).preNormalizationScore));
+    }
 
-    return finalScore;
+    adjustedScores.sort((a, b) => a - b);
+    const tail = (1 - INTERVAL_CONFIDENCE) / 2;
+    return { lower: quantileOfSorted(adjustedScores, tail), upper: quantileOfSorted(adjustedScores, 1 - tail) };
   }
 
   /**
-   * Calculate scores for multiple tokens
+   * Attach a confidence interval to a breakdown, mapping bootstrap bounds with the score's own normalization
    */
-  calculateBatch(metricsArray: AggregatedMetrics[]): Map<string, number> {
-    const scores = new Map<string, number>();
+  private attachInterval(breakdown: ScoreBreakdown, metrics: AggregatedMetrics, now: number, normalize: (adjusted: number) => number): void {
+    const bounds = this.bootstrapAdjustedScore(metrics, now);
+    if (!bounds) return;
+
+    breakdown.interval = {
+      lower: Math.min(normalize(bounds.lower), breakdown.normalizedScore),
+      upper: Math.max(normalize(bounds.upper), breakdown.normalizedScore),
+      confidence: INTERVAL_CONFIDENCE,
+      samples: BOOTSTRAP_SAMPLES,
+    };
+  }
+
+  /**
+   * Percentile rank of each value within the population (ties share their average rank)
+   * Zero engagement always maps to 0
+   */
+  normalizePercentile(values: number[]): number[] {
+    const sorted = [...values].sort((a, b) => a - b);
+    const n = sorted.length;
+
+    return values.map((value) => {
+      if (value <= 0) return MIN_SCORE;
+
+      // Average rank position of this value among ties
+      let below = 0;
+      while (below < n && sorted[below] < value) below++;
+      let upTo = below;
+      while (upTo < n && sorted[upTo] === value) upTo++;
+      const rank = (below + upTo - 1) / 2;
+
+      return Math.round((rank / Math.max(n - 1, 1)) * MAX_SCORE);
+    });
+  }
 
-    for (const metrics of metricsArray) {
-      const score = this.calculate(metrics);
-      scores.set(metrics.tokenSymbol, score);
+  /**
+   * Robust z-score of each value (median / MAD), mapped to 0-10000 with a logistic curve
+   * The population median maps to 5000; falls back to percentile when MAD is zero
+   */
+  normalizeRobustZ(values: number[]): number[] {
+    const sorted = [...values].sort((a, b) => a - b);
+    const median = medianOfSorted(sorted);
+    const deviations = values.map((v) => Math.abs(v - median)).sort((a, b) => a - b);
+    const mad = medianOfSorted(deviations) * MAD_TO_STDDEV;
+
+    if (mad === 0) {
+      return this.normalizePercentile(values);
     }
 
+    return values.map((value) => {
+      if (value <= 0) return MIN_SCORE;
+      const z = (value - median) / mad;
+      const normalized = MAX_SCORE / (1 + Math.exp(-z / ROBUST_Z_SCALE));
+      return Math.round(Math.min(MAX_SCORE, Math.max(MIN_SCORE, normalized)));
+    });
+  }
+
+  /**
+   * Normalize a single value against a population, as normalizePercentile / normalizeRobustZ would
+   * if it were a member (used to map interval bounds)
+   */
+  private relativeNormalizer(population: number[], mode: Exclude<NormalizationMode, 'absolute'>): (value: number) => number {
+    const sorted = [...population].sort((a, b) => a - b);
+    const n = sorted.length;
+
+    const percentile = (value: number): number => {
+      if (value <= 0) return MIN_SCORE;
+      let below = 0;
+      while (below < n && sorted[below] < value) below++;
+      let upTo = below;
+      while (upTo < n && sorted[upTo] === value) upTo++;
+      const rank = Math.min(n - 1, Math.max(0, (below + upTo - 1) / 2));
+      return Math.round((rank / Math.max(n - 1, 1)) * MAX_SCORE);
+    };
+
+    const median = medianOfSorted(sorted);
+    const mad = medianOfSorted(population.map((v) => Math.abs(v - median)).sort((a, b) => a - b)) * MAD_TO_STDDEV;
+    if (mode === 'percentile' || mad === 0) {
+      return percentile;
+    }
+
+    return (value: number): number => {
+      if (value <= 0) return MIN_SCORE;
+      const normalized = MAX_SCORE / (1 + Math.exp(-(value - median) / mad / ROBUST_Z_SCALE));
+      return Math.round(Math.min(MAX_SCORE, Math.max(MIN_SCORE, normalized)));
+    };
+  }
+
+  /**
+   * Calculate scores with breakdowns for multiple tokens
+   * Relative normalization modes score each token against the rest of this batch
+   * `now` is the reference time for time decay (defaults to the current time)
+   * @param withIntervals Also bootstrap a confidence interval for each score (costs BOOTSTRAP_SAMPLES pipeline runs per token)
+   * @param verbose Log each token's score (off for bulk replays such as backtests and weight optimization)
+   */
+  calculateBatchWithBreakdown(
+    metricsArray: AggregatedMetrics[],
+    now: number = Date.now(),
+    withIntervals: boolean = false,
+    verbose: boolean = true
+  ): Map<string, ScoreBreakdown> {
+    const breakdowns = new Map<string, ScoreBreakdown>();
+    const mode = this.strategy.normalizationMode;
+
+    if (mode === 'absolute' || metricsArray.length < MIN_RELATIVE_POPULATION) {
+      for (const metrics of metricsArray) {
+        const breakdown = this.explain(metrics, now, verbose);
+        if (withIntervals) {
+          this.attachInterval(breakdown, metrics, now, (adjusted) => this.normalizeScore(adjusted));
+        }
+        breakdowns.set(metrics.tokenSymbol, breakdown);
+      }
+      return breakdowns;
+    }
+
+    const pipelines = metricsArray.map((metrics) => this.runPipeline(metrics, now, verbose));
+    // Engagement is heavy-tailed, so compare tokens on a log scale
+    const logScores = pipelines.map((b) => Math.log1p(Math.max(0, b.preNormalizationScore)));
+    const normalized = mode === 'percentile' ? this.normalizePercentile(logScores) : this.normalizeRobustZ(logScores);
+    const normalizeBound = withIntervals ? this.relativeNormalizer(logScores, mode) : null;
+
+    pipelines.forEach((breakdown, i) => {
+      breakdown.normalizationMode = mode;
+      breakdown.normalizedScore = normalized[i];
+      breakdown.finalScore = normalized[i];
+      if (normalizeBound) {
+        this.attachInterval(breakdown, metricsArray[i], now, (adjusted) => normalizeBound(Math.log1p(Math.max(0, adjusted))));
+      }
+      breakdowns.set(breakdown.tokenSymbol, breakdown);
+      if (verbose) {
+        console.log(
+          `[ScoreCalculator] ${breakdown.tokenSymbol} (${this.strategy.version}/${mode}): raw=${breakdown.rawScore.toFixed(0)}, ` +
+            `adjusted=${breakdown.preNormalizationScore.toFixed(0)}, final=${breakdown.finalScore}`
+        );
+      }
+    });
+
+    return breakdowns;
+  }
+
+  /**
+   * Calculate scores for multiple tokens
+   * @param verbose Log each token's score (see calculateBatchWithBreakdown)
+   */
+  calculateBatch(metricsArray: AggregatedMetrics[], now: number = Date.now(), verbose: boolean = true): Map<string, number> {
+    const scores = new Map<string, number>();
+    for (const [tokenSymbol, breakdown] of this.calculateBatchWithBreakdown(metricsArray, now, false, verbose)) {
+      scores.set(tokenSymbol, breakdown.finalScore);
+    }
     return scores;
   }
 
+  /**
+   * Blend momentum into a final score using the strategy's momentum weight
+   * Returns the score unchanged when the strategy does not use momentum
+   */
+  applyMomentum(score: number, momentumScore: number): number {
+    const weight = this.strategy.momentumWeight;
+    if (weight <= 0) return score;
+
+    const blended = Math.round(score * (1 - weight) + momentumScore * weight);
+    return Math.min(MAX_SCORE, Math.max(MIN_SCORE, blended));
+  }
+
   /**
    * Get score tier based on score value
    */
@@ -249,46 +869,59 @@ export class ScoreCalculator {
   }
 
   /**
-   * Calculate pair score from two token scores
-   * Uses average of both scores (can be changed to min, weighted, etc.)
+   * Calculate pair score from two token scores with the given policy
+   * @param context TVL per token (tvlWeighted) and joint post count (coMention)
    */
-  calculatePairScore(tokenXScore: number, tokenYScore: number): number {
-    // Average of both scores
-    const avgScore = Math.round((tokenXScore + tokenYScore) / 2);
-    return Math.min(MAX_SCORE, Math.max(MIN_SCORE, avgScore));
+  calculatePairScore(
+    tokenXScore: number,
+    tokenYScore: number,
+    policy: PairScorePolicy = 'average',
+    context: { tokenXTvlUSD?: number; tokenYTvlUSD?: number; coMentions?: number } = {}
+  ): number {
+    let score: number;
+    switch (policy) {
+      case 'minimum':
+        score = Math.min(tokenXScore, tokenYScore);
+        break;
+      case 'geometricMean':
+        score = Math.sqrt(Math.max(0, tokenXScore) * Math.max(0, tokenYScore));
+        break;
+      case 'tvlWeighted': {
+        const tvlX = context.tokenXTvlUSD ?? 0;
+        const tvlY = context.tokenYTvlUSD ?? 0;
+        score = tvlX + tvlY > 0 ? (tokenXScore * tvlX + tokenYScore * tvlY) / (tvlX + tvlY) : (tokenXScore + tokenYScore) / 2;
+        break;
+      }
+      case 'coMention': {
+        const joint = context.coMentions ?? 0;
+        score = (MAX_SCORE * joint) / (joint + CO_MENTION_MIDPOINT);
+        break;
+      }
+      case 'average':
+      default:
+        score = (tokenXScore + tokenYScore) / 2;
+    }
+
+    return Math.min(MAX_SCORE, Math.max(MIN_SCORE, Math.round(score)));
   }
 
   /**
    * Calculate pair scores for all possible pairs from token scores
+   * The policy is the pool's override when set, otherwise the global policy
    */
-  calculateAllPairScores(
-    tokenScores: Map<string, number>
-  ): Map<string, { tokenX: string; tokenY: string; pairScore: number; tokenXScore: number; tokenYScore: number }> {
-    const pairScores = new Map<string, { tokenX: string; tokenY: string; pairScore: number; tokenXScore: number; tokenYScore: number }>();
+  calculateAllPairScores(tokenScores: Map<string, number>, options: PairScoreOptions = {}): Map<string, PairScoreResult> {
+    const pairScores = new Map<string, PairScoreResult>();
 
     const tokens = Array.from(tokenScores.keys());
 
     // Generate all unique pairs
     for (let i = 0; i < tokens.length; i++) {
       for (let j = i + 1; j < tokens.length; j++) {
-        const tokenX = tokens[i];
-        const tokenY = tokens[j];
-        const tokenXScore = tokenScores.get(tokenX) || 0;
-        const tokenYScore = tokenScores.get(tokenY) || 0;
-
-        // Sort tokens for consistent pair ID
-        const [sortedX, sortedY] = [tokenX, tokenY].sort();
-        const pairKey = `${sortedX}/${sortedY}`;
-
-        const pairScore = this.calculatePairScore(tokenXScore, tokenYScore);
-
-        pairScores.set(pairKey, {
-          tokenX: sortedX,
-          tokenY: sortedY,
-          pairScore,
-          tokenXScore: sortedX === tokenX ? tokenXScore : tokenYScore,
-          tokenYScore: sortedY === tokenY ? tokenYScore : tokenXScore,
-        });
+        const [tokenX, tokenY] = [tokens[i], tokens[j]].sort();
+        const result = this.getPairScore(tokenScores, tokenX, tokenY, options);
+        if (result) {
+          pairScores.set(getPairKey(result.tokenX, result.tokenY), result);
+        }
       }
     }
 
@@ -296,29 +929,38 @@ export class ScoreCalculator {
   }
 
   /**
-   * Get pair score for a specific token pair
+   * Get pair score for a specific token pair (tokens stay in the caller's order)
    */
-  getPairScore(
-    tokenScores: Map<string, number>,
-    tokenX: string,
-    tokenY: string
-  ): { pairScore: number; tokenXScore: number; tokenYScore: number } | null {
-    const tokenXScore = tokenScores.get(tokenX.toUpperCase());
-    const tokenYScore = tokenScores.get(tokenY.toUpperCase());
+  getPairScore(tokenScores: Map<string, number>, tokenX: string, tokenY: string, options: PairScoreOptions = {}): PairScoreResult | null {
+    const symbolX = tokenX.toUpperCase();
+    const symbolY = tokenY.toUpperCase();
+    const tokenXScore = tokenScores.get(symbolX);
+    const tokenYScore = tokenScores.get(symbolY);
 
     if (tokenXScore === undefined || tokenYScore === undefined) {
       return null;
     }
 
+    // Overrides and co-mentions are keyed by the sorted pair
+    const pairKey = getPairKey(symbolX, symbolY);
+    const policy = options.poolPolicies?.get(pairKey) ?? options.policy ?? 'average';
+
     return {
-      pairScore: this.calculatePairScore(tokenXScore, tokenYScore),
+      tokenX: symbolX,
+      tokenY: symbolY,
+      pairScore: this.calculatePairScore(tokenXScore, tokenYScore, policy, {
+        tokenXTvlUSD: options.tvlUSD?.get(symbolX),
+        tokenYTvlUSD: options.tvlUSD?.get(symbolY),
+        coMentions: options.coMentions?.get(pairKey),
+      }),
       tokenXScore,
       tokenYScore,
+      policy,
     };
   }
 }
 
-// Singleton instance with default weights
+// Singleton instance with the default strategy
 export const scoreCalculator = new ScoreCalculator();
 
 
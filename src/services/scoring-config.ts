@@ -0,0 +1,308 @@
+import { db, schema } from '../db/client';
+import { eq, desc } from 'drizzle-orm';
+import {
+  getScoringStrategy,
+  getActiveStrategyVersion,
+  applyStrategyOverrides,
+  SCORING_STRATEGIES,
+} from '../constants/scoring-strategies';
+import type { ScoringConfig as ScoringConfigRow } from '../db/schema';
+import type {
+  ScoringStrategy,
+  ScoringConfigOverrides,
+  ScoringConfigValues,
+  ScoreWeights,
+  EnhancedScoreMultipliers,
+  ScoreThresholds,
+} from '../types/score';
+
+const PRODUCTION_CONFIG_KEY = 'production';
+
+// Allowed ranges for each configurable value
+const WEIGHT_LIMITS = { min: 0, max: 10000 };
+const MULTIPLIER_LIMITS = { min: 0, max: 5 };
+const THRESHOLD_LIMITS: Record<keyof ScoreThresholds, { min: number; max: number }> = {
+  graduated: { min: 0, max: 1 },
+  image: { min: 0, max: 1 },
+  volatility: { min: 0, max: 100 },
+  holderGrowth: { min: 1, max: 1000000 },
+  volume: { min: 1, max: 1000000000000 },
+  transactions: { min: 1, max: 100000000 },
+};
+
+const WEIGHT_KEYS: (keyof ScoreWeights)[] = ['posts', 'views', 'likes', 'reposts', 'replies', 'uniqueUsers'];
+const MULTIPLIER_KEYS: (keyof EnhancedScoreMultipliers)[] = [
+  'graduatedTokenBonus',
+  'imagePostBonus',
+  'priceVolatilityBonus',
+  'preOrderedUserWeight',
+  'holderGrowthBonus',
+  'volumeBonus',
+  'transactionBonus',
+  'noTradingPenalty',
+];
+const THRESHOLD_KEYS: (keyof ScoreThresholds)[] = ['graduated', 'image', 'volatility', 'holderGrowth', 'volume', 'transactions'];
+
+/**
+ * Requested change to the scoring config
+ * strategyVersion: null resets to SCORING_STRATEGY_VERSION; override groups: null clears them
+ */
+export interface ScoringConfigUpdate {
+  strategyVersion?: string | null;
+  weights?: Partial<ScoreWeights> | null;
+  multipliers?: Partial<EnhancedScoreMultipliers> | null;
+  thresholds?: Partial<ScoreThresholds> | null;
+  reason?: string;
+}
+
+interface CachedConfig {
+  strategyVersion: string | null;
+  overrides: ScoringConfigOverrides;
+  revision: number;
+  updatedBy: string | null;
+  updatedAt: Date | null;
+}
+
+const EMPTY_CONFIG: CachedConfig = { strategyVersion: null, overrides: {}, revision: 0, updatedBy: null, updatedAt: null };
+
+/**
+ * Parse a stored config row (no row: no overrides, revision 0)
+ */
+function toCachedConfig(row: ScoringConfigRow | undefined): CachedConfig {
+  if (!row) return EMPTY_CONFIG;
+
+  return {
+    strategyVersion: row.strategyVersion,
+    overrides: {
+      weights: row.weights ? JSON.parse(row.weights) : undefined,
+      multipliers: row.multipliers ? JSON.parse(row.multipliers) : undefined,
+      thresholds: row.thresholds ? JSON.parse(row.thresholds) : undefined,
+    },
+    revision: row.revision,
+    updatedBy: row.updatedBy,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Validate one group of numeric overrides against its allowed keys and ranges
+ */
+function validateGroup(
+  group: string,
+  values: unknown,
+  keys: string[],
+  limits: (key: string) => { min: number; max: number }
+): string[] {
+  if (values === undefined || values === null) return [];
+  if (typeof values !== 'object' || Array.isArray(values)) {
+    return [`${group} must be an object`];
+  }
+
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(values as Record<string, unknown>)) {
+    if (!keys.includes(key)) {
+      errors.push(`${group}.${key} is not a configurable value (allowed: ${keys.join(', ')})`);
+      continue;
+    }
+    const { min, max } = limits(key);
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${group}.${key} must be a finite number`);
+    } else if (value < min || value > max) {
+      errors.push(`${group}.${key} must be between ${min} and ${max}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Merge an override group update into the current group (null clears it, undefined keeps it)
+ */
+function mergeGroup<T extends object>(current: T | undefined, next: T | null | undefined): T | undefined {
+  if (next === null) return undefined;
+  if (next === undefined) return current;
+  return { ...current, ...next } as T;
+}
+
+/**
+ * Scoring Config Service
+ * Database-backed runtime overrides for the scoring formula, with an audit trail
+ * The scheduler refreshes the cached config on every tick, so changes apply without a restart
+ */
+export class ScoringConfigService {
+  private cache: CachedConfig = EMPTY_CONFIG;
+
+  /**
+   * Reload config from the database
+   * Keeps the previous cache when the database is unavailable
+   */
+  async refresh(): Promise<void> {
+    try {
+      const row = await db.query.scoringConfig.findFirst({
+        where: eq(schema.scoringConfig.configKey, PRODUCTION_CONFIG_KEY),
+      });
+      this.cache = toCachedConfig(row);
+    } catch (error) {
+      console.error('[ScoringConfig] Failed to refresh config:', error);
+    }
+  }
+
+  /**
+   * Get the config revision currently in effect
+   */
+  getRevision(): number {
+    return this.cache.revision;
+  }
+
+  /**
+   * Get the raw cached config (overrides only)
+   */
+  getConfig(): CachedConfig {
+    return this.cache;
+  }
+
+  /**
+   * Build the effective strategy: registered strategy + runtime overrides
+   * When overrides are present the version is suffixed with the config revision (e.g. v2@r3),
+   * so stored scores can be traced back to the exact values in the audit trail
+   */
+  getEffectiveStrategy(config: CachedConfig = this.cache): ScoringStrategy {
+    const base = getScoringStrategy(config.strategyVersion ?? getActiveStrategyVersion());
+    return applyStrategyOverrides(base, config.overrides, `${base.version}@r${config.revision}`);
+  }
+
+  /**
+   * Get the effective scoring values (for audit before/after records)
+   */
+  getEffectiveValues(config: CachedConfig = this.cache): ScoringConfigValues {
+    const strategy = this.getEffectiveStrategy(config);
+    return {
+      strategyVersion: strategy.version,
+      weights: strategy.weights,
+      multipliers: strategy.multipliers,
+      thresholds: strategy.thresholds,
+    };
+  }
+
+  /**
+   * Validate a config update
+   */
+  validate(update: ScoringConfigUpdate): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (update.strategyVersion !== undefined && update.strategyVersion !== null && !SCORING_STRATEGIES[update.strategyVersion]) {
+      errors.push(`strategyVersion must be one of: ${Object.keys(SCORING_STRATEGIES).join(', ')}`);
+    }
+
+    errors.push(...validateGroup('weights', update.weights, WEIGHT_KEYS, () => WEIGHT_LIMITS));
+    errors.push(...validateGroup('multipliers', update.multipliers, MULTIPLIER_KEYS, () => MULTIPLIER_LIMITS));
+    errors.push(
+      ...validateGroup('thresholds', update.thresholds, THRESHOLD_KEYS, (key) => THRESHOLD_LIMITS[key as keyof ScoreThresholds])
+    );
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Apply a validated update, merging overrides, and record it in the audit trail
+   * Runs in one transaction holding the config row lock, so concurrent updates (or instances)
+   * merge onto each other in turn and every revision number is used once
+   */
+  async update(
+    update: ScoringConfigUpdate,
+    changedBy: string
+  ): Promise<{ revision: number; before: ScoringConfigValues; after: ScoringConfigValues }> {
+    const result = await db.transaction(async (tx) => {
+      // Make sure the row exists so there is always something to lock
+      await tx
+        .insert(schema.scoringConfig)
+        .values({ configKey: PRODUCTION_CONFIG_KEY, revision: 0 })
+        .onConflictDoNothing({ target: schema.scoringConfig.configKey });
+      const [locked] = await tx
+        .select()
+        .from(schema.scoringConfig)
+        .where(eq(schema.scoringConfig.configKey, PRODUCTION_CONFIG_KEY))
+        .for('update');
+
+      const current = toCachedConfig(locked);
+      const before = this.getEffectiveValues(current);
+
+      const strategyVersion = update.strategyVersion === undefined ? current.strategyVersion : update.strategyVersion;
+      const weights = mergeGroup(current.overrides.weights, update.weights);
+      const multipliers = mergeGroup(current.overrides.multipliers, update.multipliers);
+      const thresholds = mergeGroup(current.overrides.thresholds, update.thresholds);
+      const revision = current.revision + 1;
+      const updatedAt = new Date();
+
+      await tx
+        .update(schema.scoringConfig)
+        .set({
+          strategyVersion,
+          weights: weights ? JSON.stringify(weights) : null,
+          multipliers: multipliers ? JSON.stringify(multipliers) : null,
+          thresholds: thresholds ? JSON.stringify(thresholds) : null,
+          revision,
+          updatedBy: changedBy,
+          updatedAt,
+        })
+        .where(eq(schema.scoringConfig.configKey, PRODUCTION_CONFIG_KEY));
+
+      const next: CachedConfig = {
+        strategyVersion,
+        overrides: { weights, multipliers, thresholds },
+        revision,
+        updatedBy: changedBy,
+        updatedAt,
+      };
+      const after = this.getEffectiveValues(next);
+
+      await tx.insert(schema.scoringConfigAudit).values({
+        configKey: PRODUCTION_CONFIG_KEY,
+        revision,
+        changedBy,
+        reason: update.reason ?? null,
+        before: JSON.stringify(before),
+        after: JSON.stringify(after),
+      });
+
+      return { revision, before, after, next };
+    });
+
+    // Only publish the new config once it is committed
+    this.cache = result.next;
+    console.log(`[ScoringConfig] Revision ${result.revision} by ${changedBy}: ${result.before.strategyVersion} → ${result.after.strategyVersion}`);
+
+    return { revision: result.revision, before: result.before, after: result.after };
+  }
+
+  /**
+   * Get the audit trail of config changes (newest first)
+   */
+  async getAuditTrail(limit: number = 50): Promise<
+    Array<{
+      revision: number;
+      changedBy: string;
+      reason: string | null;
+      before: ScoringConfigValues;
+      after: ScoringConfigValues;
+      createdAt: Date;
+    }>
+  > {
+    const rows = await db.query.scoringConfigAudit.findMany({
+      where: eq(schema.scoringConfigAudit.configKey, PRODUCTION_CONFIG_KEY),
+      orderBy: [desc(schema.scoringConfigAudit.createdAt)],
+      limit,
+    });
+
+    return rows.map((row) => ({
+      revision: row.revision,
+      changedBy: row.changedBy,
+      reason: row.reason,
+      before: JSON.parse(row.before) as ScoringConfigValues,
+      after: JSON.parse(row.after) as ScoringConfigValues,
+      createdAt: row.createdAt,
+    }));
+  }
+}
+
+// Singleton instance
+export const scoringConfig = new ScoringConfigService();
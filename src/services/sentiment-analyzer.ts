@@ -0,0 +1,110 @@
+import type { MemexPost } from '../types/memex';
+import type { PostSentiment } from '../types/sentiment';
+import {
+  ENGLISH_LEXICON,
+  KOREAN_LEXICON,
+  EMOJI_LEXICON,
+  ENGLISH_NEGATORS,
+  KOREAN_NEGATORS,
+  NEGATION_WINDOW,
+  NEGATION_FACTOR,
+  BOOSTERS,
+} from '../constants/sentiment-lexicon';
+
+// Compound score normalization: sum / sqrt(sum² + ALPHA) maps any valence sum into (-1, 1)
+const NORMALIZATION_ALPHA = 15;
+
+// Posts at or below this compound score count as negative
+export const NEGATIVE_SENTIMENT_THRESHOLD = -0.25;
+
+const HANGUL_PATTERN = /[가-힣]/;
+const TOKEN_PATTERN = /\p{Extended_Pictographic}️?|[\p{L}\p{N}']+/gu;
+const KOREAN_TERMS = Object.keys(KOREAN_LEXICON).sort((a, b) => b.length - a.length); // Longest prefix wins
+
+/**
+ * Sentiment Analyzer
+ * Local lexicon-based sentiment (English, Korean, emoji, meme slang) - no external API calls
+ */
+export class SentimentAnalyzer {
+  /**
+   * Analyze a Memex post
+   * Uses the structured body text and hashtags (mentions are token names, not sentiment);
+   * falls back to the raw post value when the body is empty
+   */
+  analyzePost(post: MemexPost): PostSentiment {
+    const parts: string[] = [];
+    for (const item of post.body ?? []) {
+      if (item.type === 'text' || item.type === 'hashtag') {
+        parts.push(item.value);
+      }
+    }
+
+    return this.analyzeText(parts.length > 0 ? parts.join(' ') : post.value || '');
+  }
+
+  /**
+   * Analyze free text
+   */
+  analyzeText(text: string): PostSentiment {
+    const tokens = (text.toLowerCase().match(TOKEN_PATTERN) ?? []).map((token) => token.replace(/^'+|'+$/g, ''));
+
+    let sum = 0;
+    const terms: string[] = [];
+    let negateUntil = -1;
+    let boost = 1;
+
+    tokens.forEach((token, index) => {
+      if (ENGLISH_NEGATORS.has(token) || KOREAN_NEGATORS.has(token)) {
+        negateUntil = index + NEGATION_WINDOW;
+        return;
+      }
+      if (BOOSTERS[token]) {
+        boost = BOOSTERS[token];
+        return;
+      }
+
+      const match = this.lookup(token);
+      if (!match) {
+        return;
+      }
+
+      let valence = match.valence * boost;
+      if (index <= negateUntil) {
+        valence *= NEGATION_FACTOR;
+        negateUntil = -1;
+      }
+      boost = 1;
+
+      sum += valence;
+      terms.push(match.term);
+    });
+
+    const score = sum === 0 ? 0 : sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA);
+    return {
+      score: Math.round(score * 1000) / 1000,
+      terms,
+      isNegative: score <= NEGATIVE_SENTIMENT_THRESHOLD,
+    };
+  }
+
+  /**
+   * Find the lexicon entry for a token
+   */
+  private lookup(token: string): { term: string; valence: number } | null {
+    const emoji = EMOJI_LEXICON[token] ?? EMOJI_LEXICON[token.replace(/️$/, '')];
+    if (emoji !== undefined) {
+      return { term: token, valence: emoji };
+    }
+
+    if (HANGUL_PATTERN.test(token)) {
+      const term = KOREAN_TERMS.find((t) => token.startsWith(t));
+      return term ? { term, valence: KOREAN_LEXICON[term] } : null;
+    }
+
+    const valence = ENGLISH_LEXICON[token];
+    return valence !== undefined ? { term: token, valence } : null;
+  }
+}
+
+// Singleton instance
+export const sentimentAnalyzer = new SentimentAnalyzer();
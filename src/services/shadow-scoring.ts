@@ -0,0 +1,198 @@
+import { ScoreCalculator } from './score-calculator';
+import { memexCollector } from './memex-collector';
+import { marketSignals } from './market-signals';
+import { tierAssigner } from './tier-assigner';
+import { getScoringStrategy } from '../constants/scoring-strategies';
+import { rankDescending, spearmanCorrelation } from '../utils/rank-correlation';
+import type { AggregatedMetrics, PostWeighting } from '../types/memex';
+import type { ShadowComparison, ShadowTokenDivergence, TokenMomentum, ScoringStrategy } from '../types/score';
+
+const TOP_N = 3; // Matches the number of ranks submitted per epoch
+const MAX_RANK_CHANGES = 10;
+const HISTORY_SIZE = 360; // 1 hour of 10-second ticks
+// Own aggregations re-read the whole post window, so they run at snapshot cadence instead of every tick
+const REAGGREGATE_INTERVAL_MS = 60 * 60 * 1000;
+
+interface ShadowHistoryEntry {
+  comparedAt: string;
+  rankCorrelation: number | null;
+  topOverlap: number;
+  tierDisagreementRate: number;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10000) / 10000;
+}
+
+/**
+ * Shadow Scoring Service
+ * Scores collection ticks with a candidate strategy (SHADOW_SCORING_STRATEGY_VERSION) next to
+ * production and tracks how the two disagree. Shadow scores are never stored or submitted.
+ */
+export class ShadowScoringService {
+  private calculator: ScoreCalculator | null = null;
+  private latest: ShadowComparison | null = null;
+  private history: ShadowHistoryEntry[] = [];
+  private reaggregatedAt: number | null = null;
+
+  constructor() {
+    const version = process.env.SHADOW_SCORING_STRATEGY_VERSION;
+    if (!version) return;
+
+    // A typo here must not take production scoring down with it
+    try {
+      this.calculator = new ScoreCalculator(getScoringStrategy(version));
+      console.log(`[ShadowScoring] Shadow strategy enabled: ${version}`);
+    } catch (error) {
+      console.error('[ShadowScoring] Shadow scoring disabled:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.calculator !== null;
+  }
+
+  getShadowStrategy(): ScoringStrategy | null {
+    return this.calculator?.getStrategy() ?? null;
+  }
+
+  /**
+   * Score the tick with the shadow strategy and compare against production
+   * Strategies that need their own aggregation are compared at most once per REAGGREGATE_INTERVAL_MS;
+   * returns null for the ticks in between
+   * @param productionScores Final production scores for the same tick (uppercase symbols)
+   * @param productionWeighting Per-post weighting the metrics were aggregated with
+   */
+  async compare(
+    metrics: AggregatedMetrics[],
+    productionScores: Map<string, number>,
+    productionVersion: string,
+    productionWeighting: PostWeighting,
+    momentum: Map<string, TokenMomentum>,
+    now: number
+  ): Promise<ShadowComparison | null> {
+    if (!this.calculator) return null;
+
+    const strategy = this.calculator.getStrategy();
+    const weighting = this.calculator.getPostWeighting();
+
+    // Per-post decay, reputation and reply credit are applied during aggregation, so different weighting needs its own aggregation
+    const sameWeighting =
+      weighting.halfLifeHours === productionWeighting.halfLifeHours &&
+      weighting.reputationWeight === productionWeighting.reputationWeight &&
+      weighting.replyCreditWeight === productionWeighting.replyCreditWeight;
+    let shadowMetrics = metrics;
+    if (!sameWeighting) {
+      if (this.reaggregatedAt !== null && now - this.reaggregatedAt < REAGGREGATE_INTERVAL_MS) return null;
+      this.reaggregatedAt = now;
+      shadowMetrics = await memexCollector.aggregateFromDB(weighting);
+      marketSignals.attach(shadowMetrics);
+    }
+
+    const shadowScores = new Map<string, number>();
+    for (const [tokenSymbol, score] of this.calculator.calculateBatch(shadowMetrics, now, false)) {
+      const symbol = tokenSymbol.toUpperCase();
+      const momentumScore = momentum.get(symbol)?.momentumScore ?? 0;
+      shadowScores.set(symbol, this.calculator.applyMomentum(score, momentumScore));
+    }
+
+    const comparison = this.buildComparison(productionScores, shadowScores, productionVersion, strategy.version, now);
+    this.latest = comparison;
+    this.history.push({
+      comparedAt: comparison.comparedAt,
+      rankCorrelation: comparison.rankCorrelation,
+      topOverlap: comparison.topOverlap,
+      tierDisagreementRate: comparison.tokenCount > 0 ? comparison.tierDisagreements.length / comparison.tokenCount : 0,
+    });
+    if (this.history.length > HISTORY_SIZE) {
+      this.history.shift();
+    }
+
+    return comparison;
+  }
+
+  /**
+   * Compare two score maps: rank correlation, top-3 overlap, tier disagreements and rank moves
+   */
+  buildComparison(
+    productionScores: Map<string, number>,
+    shadowScores: Map<string, number>,
+    productionVersion: string,
+    shadowVersion: string,
+    now: number = Date.now()
+  ): ShadowComparison {
+    // Tokens missing from one side (e.g. different aggregation) count as score 0 there
+    const symbols = Array.from(new Set([...productionScores.keys(), ...shadowScores.keys()]));
+    const production = new Map(symbols.map((s) => [s, productionScores.get(s) ?? 0]));
+    const shadow = new Map(symbols.map((s) => [s, shadowScores.get(s) ?? 0]));
+
+    const productionValues = symbols.map((s) => production.get(s)!);
+    const shadowValues = symbols.map((s) => shadow.get(s)!);
+    const productionRanks = rankDescending(productionValues);
+    const shadowRanks = rankDescending(shadowValues);
+    const rankCorrelation = spearmanCorrelation(productionValues, shadowValues);
+    const topOf = (scores: Map<string, number>) =>
+      Array.from(scores.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, TOP_N)
+        .map(([symbol]) => symbol);
+    const productionTop = topOf(production);
+    const shadowTop = topOf(shadow);
+
+    const divergences: ShadowTokenDivergence[] = symbols.map((symbol, i) => ({
+      tokenSymbol: symbol,
+      productionScore: production.get(symbol)!,
+      shadowScore: shadow.get(symbol)!,
+      productionRank: productionRanks[i],
+      shadowRank: shadowRanks[i],
+      productionTier: tierAssigner.getTier(production.get(symbol)!),
+      shadowTier: tierAssigner.getTier(shadow.get(symbol)!),
+    }));
+
+    return {
+      productionVersion,
+      shadowVersion,
+      comparedAt: new Date(now).toISOString(),
+      tokenCount: symbols.length,
+      rankCorrelation: rankCorrelation === null ? null : Math.round(rankCorrelation * 10000) / 10000,
+      topOverlap: productionTop.filter((symbol) => shadowTop.includes(symbol)).length,
+      productionTop,
+      shadowTop,
+      tierDisagreements: divergences
+        .filter((d) => d.productionTier !== d.shadowTier)
+        .sort((a, b) => Math.abs(b.shadowScore - b.productionScore) - Math.abs(a.shadowScore - a.productionScore)),
+      largestRankChanges: divergences
+        .filter((d) => d.productionRank !== d.shadowRank)
+        .sort((a, b) => Math.abs(b.shadowRank - b.productionRank) - Math.abs(a.shadowRank - a.productionRank))
+        .slice(0, MAX_RANK_CHANGES),
+    };
+  }
+
+  /**
+   * Report for /api/score/shadow: latest comparison plus rolling averages over recent ticks
+   */
+  getReport() {
+    const strategy = this.getShadowStrategy();
+
+    return {
+      enabled: this.isEnabled(),
+      shadowVersion: strategy?.version ?? null,
+      shadowDescription: strategy?.description ?? null,
+      rolling: {
+        ticks: this.history.length,
+        since: this.history[0]?.comparedAt ?? null,
+        avgRankCorrelation: average(
+          this.history.map((h) => h.rankCorrelation).filter((value): value is number => value !== null)
+        ),
+        avgTopOverlap: average(this.history.map((h) => h.topOverlap)),
+        fullTopOverlapRate: average(this.history.map((h) => (h.topOverlap === TOP_N ? 1 : 0))),
+        avgTierDisagreementRate: average(this.history.map((h) => h.tierDisagreementRate)),
+      },
+      latest: this.latest,
+    };
+  }
+}
+
+// Singleton instance
+export const shadowScoring = new ShadowScoringService();
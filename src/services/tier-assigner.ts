@@ -0,0 +1,164 @@
+import { db, schema } from '../db/client';
+import { desc, eq, gte, lt } from 'drizzle-orm';
+import type { TierMode, TierCutoff, TierChange } from '../types/score';
+import type { TierChangeEvent } from '../db/schema';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Fixed cut-offs (same as ScoreCalculator.getScoreTier)
+const FIXED_CUTOFFS: TierCutoff[] = [
+  { tier: 'LEGENDARY', minScore: 8000, topPercent: null },
+  { tier: 'VIRAL', minScore: 6000, topPercent: null },
+  { tier: 'HOT', minScore: 4000, topPercent: null },
+  { tier: 'WARM', minScore: 2000, topPercent: null },
+  { tier: 'ACTIVE', minScore: 500, topPercent: null },
+];
+
+// Percentile mode: cumulative share of the population at or above each tier
+// (LEGENDARY top 1%, VIRAL next 4%, HOT next 10%, WARM next 20%, ACTIVE next 35%, rest COLD)
+const PERCENTILE_TIERS: { tier: string; topPercent: number }[] = [
+  { tier: 'LEGENDARY', topPercent: 1 },
+  { tier: 'VIRAL', topPercent: 5 },
+  { tier: 'HOT', topPercent: 15 },
+  { tier: 'WARM', topPercent: 35 },
+  { tier: 'ACTIVE', topPercent: 70 },
+];
+
+// Fewer snapshot scores than this make percentiles meaningless - keep fixed cut-offs
+const MIN_POPULATION = 50;
+
+// Percentile cut-offs move with hourly snapshots, so recomputing every 10 minutes is plenty
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+// Change events older than this are pruned when new changes are recorded
+const CHANGE_RETENTION_DAYS = 30;
+
+/**
+ * Tier Assigner
+ * Maps scores to tiers with fixed cut-offs, or with cut-offs at rolling percentiles of the last
+ * N hours of snapshot scores (TIER_MODE=percentile), so the tier distribution stays stable as
+ * overall activity rises and falls. Records tier changes between hourly snapshots, including tokens
+ * that drop out of the scored set.
+ */
+export class TierAssigner {
+  private readonly mode: TierMode = process.env.TIER_MODE === 'percentile' ? 'percentile' : 'fixed';
+  private readonly windowHours = parseInt(process.env.TIER_PERCENTILE_WINDOW_HOURS || '24');
+  private cutoffs: TierCutoff[] = FIXED_CUTOFFS;
+  private populationSize = 0;
+  private refreshedAt: number | null = null;
+  private previousTiers: Map<string, string> | null = null;
+
+  getMode(): TierMode {
+    return this.mode;
+  }
+
+  /**
+   * Current cut-offs with the population they were computed from
+   */
+  getCutoffs(): { mode: TierMode; windowHours: number | null; populationSize: number | null; refreshedAt: string | null; cutoffs: TierCutoff[] } {
+    const percentile = this.mode === 'percentile';
+    return {
+      mode: this.mode,
+      windowHours: percentile ? this.windowHours : null,
+      populationSize: percentile ? this.populationSize : null,
+      refreshedAt: percentile && this.refreshedAt ? new Date(this.refreshedAt).toISOString() : null,
+      cutoffs: this.cutoffs,
+    };
+  }
+
+  /**
+   * Recompute percentile cut-offs from recent snapshots when they are older than the refresh interval
+   * Keeps the previous cut-offs when the database is unavailable
+   */
+  async refreshIfStale(now: number = Date.now()): Promise<void> {
+    if (this.mode !== 'percentile') return;
+    if (this.refreshedAt !== null && now - this.refreshedAt < REFRESH_INTERVAL_MS) return;
+
+    try {
+      const snapshots = await db.query.tokenScoreSnapshots.findMany({
+        where: gte(schema.tokenScoreSnapshots.snapshotHour, new Date(now - this.windowHours * HOUR_MS)),
+        columns: { score: true },
+      });
+
+      this.refreshedAt = now;
+      this.populationSize = snapshots.length;
+
+      if (snapshots.length < MIN_POPULATION) {
+        this.cutoffs = FIXED_CUTOFFS;
+        console.log(`[TierAssigner] ${snapshots.length} snapshot scores in ${this.windowHours}h, using fixed cut-offs`);
+        return;
+      }
+
+      const scores = snapshots.map((s) => s.score).sort((a, b) => b - a);
+      this.cutoffs = PERCENTILE_TIERS.map(({ tier, topPercent }) => {
+        const index = Math.max(0, Math.ceil((topPercent / 100) * scores.length) - 1);
+        return { tier, minScore: Math.max(1, scores[index]), topPercent };
+      });
+
+      console.log(`[TierAssigner] Percentile cut-offs: ${this.cutoffs.map((c) => `${c.tier}≥${c.minScore}`).join(', ')}`);
+    } catch (error) {
+      console.error('[TierAssigner] Failed to refresh cut-offs:', error);
+    }
+  }
+
+  /**
+   * Get the tier for a score
+   */
+  getTier(score: number): string {
+    if (score <= 0) return 'COLD';
+    for (const cutoff of this.cutoffs) {
+      if (score >= cutoff.minScore) return cutoff.tier;
+    }
+    return 'COLD';
+  }
+
+  /**
+   * Compare tiers against the previous snapshot and store an event for every change
+   * Tokens missing from the scored set get an event with a null target tier. The first run after
+   * startup only records the baseline.
+   */
+  async recordChanges(scores: Map<string, number>, now: number = Date.now()): Promise<TierChange[]> {
+    const currentTiers = new Map(Array.from(scores.entries()).map(([symbol, score]) => [symbol, this.getTier(score)]));
+    const previousTiers = this.previousTiers;
+    this.previousTiers = currentTiers;
+
+    if (!previousTiers) return [];
+
+    const changes: TierChange[] = [];
+    for (const [tokenSymbol, toTier] of currentTiers) {
+      const fromTier = previousTiers.get(tokenSymbol) ?? null;
+      if (fromTier !== toTier) {
+        changes.push({ tokenSymbol, fromTier, toTier, score: scores.get(tokenSymbol)! });
+      }
+    }
+    for (const [tokenSymbol, fromTier] of previousTiers) {
+      if (!currentTiers.has(tokenSymbol)) {
+        changes.push({ tokenSymbol, fromTier, toTier: null, score: 0 });
+      }
+    }
+
+    if (changes.length > 0) {
+      await db.insert(schema.tierChangeEvents).values(changes.map((change) => ({ ...change, tierMode: this.mode })));
+    }
+
+    await db
+      .delete(schema.tierChangeEvents)
+      .where(lt(schema.tierChangeEvents.changedAt, new Date(now - CHANGE_RETENTION_DAYS * 24 * HOUR_MS)));
+
+    return changes;
+  }
+
+  /**
+   * Recent tier change events, newest first
+   */
+  async getRecentChanges(limit: number = 50, tokenSymbol?: string): Promise<TierChangeEvent[]> {
+    return db.query.tierChangeEvents.findMany({
+      where: tokenSymbol ? eq(schema.tierChangeEvents.tokenSymbol, tokenSymbol.toUpperCase()) : undefined,
+      orderBy: [desc(schema.tierChangeEvents.changedAt)],
+      limit,
+    });
+  }
+}
+
+// Singleton instance
+export const tierAssigner = new TierAssigner();
@@ -0,0 +1,203 @@
+import { db, schema } from '../db/client';
+import { and, eq, isNotNull, lte, ne } from 'drizzle-orm';
+import type { TokenBlacklistEntry } from '../db/schema';
+import type { BlacklistScope } from '../types/score';
+import { tokenRegistry } from './token-registry';
+
+export const BLACKLIST_SCOPES: BlacklistScope[] = ['leaderboard', 'scoring', 'epoch'];
+
+// Picks up entries changed through another instance; changes made here reload immediately
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Check whether a value is a known blacklist scope
+ */
+export function isBlacklistScope(value: unknown): value is BlacklistScope {
+  return typeof value === 'string' && BLACKLIST_SCOPES.includes(value as BlacklistScope);
+}
+
+export interface BlacklistEntryInput {
+  tokenSymbol: string;
+  scope: BlacklistScope;
+  reason: string;
+  expiresAt: Date | null;
+}
+
+/**
+ * Token Blacklist Service
+ * Database-backed blacklist entries with a reason, author, optional expiry and scope, cached in memory
+ * so checks stay synchronous. Symbols are stored as canonical registry symbols, so an entry added by
+ * ticker, name or creator applies to every spelling of the token. A token has at most one entry per
+ * scope; a `scoring` entry implies the other scopes, `leaderboard` and `epoch` are independent.
+ */
+export class TokenBlacklistService {
+  private entries = new Map<string, TokenBlacklistEntry[]>(); // Canonical symbol -> entries (one per scope)
+  private refreshedAt: number | null = null;
+
+  /**
+   * Load entries (once)
+   */
+  async ensureLoaded(): Promise<void> {
+    if (this.refreshedAt === null) await this.refresh();
+  }
+
+  /**
+   * Reload entries when the cache is older than the refresh interval
+   */
+  async refreshIfStale(now: number = Date.now()): Promise<void> {
+    if (this.refreshedAt !== null && now - this.refreshedAt < REFRESH_INTERVAL_MS) return;
+    await this.refresh(now);
+  }
+
+  /**
+   * Reload entries from the database
+   * Keeps the previous entries when the database is unavailable
+   */
+  async refresh(now: number = Date.now()): Promise<void> {
+    try {
+      const rows = await db.query.tokenBlacklistEntries.findMany();
+      const entries = new Map<string, TokenBlacklistEntry[]>();
+      for (const row of rows) {
+        entries.set(row.tokenSymbol, [...(entries.get(row.tokenSymbol) ?? []), row]);
+      }
+      this.entries = entries;
+      this.refreshedAt = now;
+    } catch (error) {
+      console.error('[TokenBlacklist] Failed to load entries:', error);
+    }
+  }
+
+  /**
+   * Check whether a token is excluded in a scope (expired entries don't apply)
+   */
+  isBlacklisted(symbol: string, scope: BlacklistScope = 'leaderboard', now: number = Date.now()): boolean {
+    return (this.entries.get(symbol.toUpperCase()) ?? []).some(
+      (entry) => (!entry.expiresAt || entry.expiresAt.getTime() > now) && (entry.scope === scope || entry.scope === 'scoring')
+    );
+  }
+
+  /**
+   * All entries, active first, newest first
+   */
+  getEntries(now: number = Date.now()): Array<TokenBlacklistEntry & { active: boolean }> {
+    return Array.from(this.entries.values())
+      .flat()
+      .map((entry) => ({ ...entry, active: !entry.expiresAt || entry.expiresAt.getTime() > now }))
+      .sort((a, b) => Number(b.active) - Number(a.active) || b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Blacklist a token in a scope (any registered reference; stored under its canonical symbol)
+   * An expired entry for the same scope is replaced; returns null when the token already has an active one
+   */
+  async create(input: BlacklistEntryInput, createdBy: string): Promise<TokenBlacklistEntry | null> {
+    await tokenRegistry.ensureLoaded();
+    const tokenSymbol = tokenRegistry.resolveSymbol(input.tokenSymbol);
+    const now = new Date();
+
+    const [created] = await db
+      .insert(schema.tokenBlacklistEntries)
+      .values({ tokenSymbol, scope: input.scope, reason: input.reason, expiresAt: input.expiresAt, createdBy })
+      .onConflictDoUpdate({
+        target: [schema.tokenBlacklistEntries.tokenSymbol, schema.tokenBlacklistEntries.scope],
+        set: { reason: input.reason, expiresAt: input.expiresAt, createdBy, createdAt: now, updatedBy: null, updatedAt: now },
+        setWhere: and(isNotNull(schema.tokenBlacklistEntries.expiresAt), lte(schema.tokenBlacklistEntries.expiresAt, now)),
+      })
+      .returning();
+    if (!created) return null;
+
+    await this.refresh();
+    console.log(`[TokenBlacklist] ${tokenSymbol} blacklisted (${input.scope}) by ${createdBy}: ${input.reason}`);
+    return created;
+  }
+
+  /**
+   * Change an entry's scope, reason or expiry
+   * Moving to a scope replaces the token's expired entry there; returns 'conflict' when that entry is
+   * still active and null when the entry does not exist
+   */
+  async update(
+    id: number,
+    changes: Partial<Omit<BlacklistEntryInput, 'tokenSymbol'>>,
+    updatedBy: string
+  ): Promise<TokenBlacklistEntry | 'conflict' | null> {
+    const now = new Date();
+    const updated = await db.transaction(async (tx) => {
+      const [entry] = await tx.select().from(schema.tokenBlacklistEntries).where(eq(schema.tokenBlacklistEntries.id, id)).for('update');
+      if (!entry) return null;
+
+      if (changes.scope && changes.scope !== entry.scope) {
+        const [other] = await tx
+          .select()
+          .from(schema.tokenBlacklistEntries)
+          .where(
+            and(
+              eq(schema.tokenBlacklistEntries.tokenSymbol, entry.tokenSymbol),
+              eq(schema.tokenBlacklistEntries.scope, changes.scope),
+              ne(schema.tokenBlacklistEntries.id, id)
+            )
+          )
+          .for('update');
+        if (other) {
+          if (!other.expiresAt || other.expiresAt > now) return 'conflict' as const;
+          await tx.delete(schema.tokenBlacklistEntries).where(eq(schema.tokenBlacklistEntries.id, other.id));
+        }
+      }
+
+      const [row] = await tx
+        .update(schema.tokenBlacklistEntries)
+        .set({ ...changes, updatedBy, updatedAt: now })
+        .where(eq(schema.tokenBlacklistEntries.id, id))
+        .returning();
+      return row;
+    });
+    if (!updated || updated === 'conflict') return updated;
+
+    await this.refresh();
+    console.log(`[TokenBlacklist] ${updated.tokenSymbol} entry updated by ${updatedBy}`);
+    return updated;
+  }
+
+  /**
+   * Remove an entry (the token is no longer excluded anywhere)
+   * Returns null when the entry does not exist
+   */
+  async remove(id: number, removedBy: string): Promise<TokenBlacklistEntry | null> {
+    const [removed] = await db.delete(schema.tokenBlacklistEntries).where(eq(schema.tokenBlacklistEntries.id, id)).returning();
+    if (!removed) return null;
+
+    await this.refresh();
+    console.log(`[TokenBlacklist] ${removed.tokenSymbol} removed from blacklist by ${removedBy}`);
+    return removed;
+  }
+}
+
+// Singleton instance
+export const tokenBlacklist = new TokenBlacklistService();
+
+/**
+ * Check if a token symbol is blacklisted in a scope (cached entries)
+ */
+export function isBlacklisted(symbol: string, scope: BlacklistScope = 'leaderboard'): boolean {
+  return tokenBlacklist.isBlacklisted(symbol, scope);
+}
+
+/**
+ * Filter out blacklisted tokens from an array
+ */
+export function filterBlacklisted<T extends { tokenSymbol: string }>(tokens: T[], scope: BlacklistScope = 'leaderboard'): T[] {
+  return tokens.filter((t) => !isBlacklisted(t.tokenSymbol, scope));
+}
+
+/**
+ * Filter out blacklisted tokens from a Map
+ */
+export function filterBlacklistedMap<V>(tokenMap: Map<string, V>, scope: BlacklistScope = 'leaderboard'): Map<string, V> {
+  const filtered = new Map<string, V>();
+  for (const [symbol, value] of tokenMap) {
+    if (!isBlacklisted(symbol, scope)) {
+      filtered.set(symbol, value);
+    }
+  }
+  return filtered;
+}
@@ -0,0 +1,138 @@
+import { graphqlClient, type TokenPoolData } from './graphql-client';
+import { tokenRegistry } from './token-registry';
+import type { TokenRanking } from './epoch-submitter';
+
+/**
+ * Canonical score key of a pool token: its registry symbol, or the ticker when not registered yet
+ */
+function getCanonicalSymbol(tokenData: { tokenAddress: string; tokenSymbol: string }): string {
+  return tokenRegistry.getByAddress(tokenData.tokenAddress)?.symbol ?? tokenData.tokenSymbol.toUpperCase();
+}
+
+/**
+ * Match a pool token with viral scores (scores are keyed by canonical registry symbol)
+ * Matches by contract address first, then by exact ticker or name alias; never by substring
+ * Returns the matching score or 0 if no match
+ */
+export function findTokenScore(
+  tokenData: { tokenAddress: string; tokenSymbol: string; tokenName: string },
+  scoreMap: Map<string, number>
+): { score: number; matchedBy: string } {
+  const canonical = getCanonicalSymbol(tokenData);
+  const canonicalScore = scoreMap.get(canonical);
+  if (canonicalScore && canonicalScore > 0) {
+    return { score: canonicalScore, matchedBy: `address:${canonical}` };
+  }
+
+  // Scores keyed before the token was registered (e.g. older snapshots) use the ticker or name
+  // as extracted, so only fall back to aliases that don't resolve to a different token
+  for (const [kind, reference] of [['symbol', tokenData.tokenSymbol], ['name', tokenData.tokenName]] as const) {
+    const resolved = tokenRegistry.resolve(reference);
+    if (resolved && resolved.address !== tokenData.tokenAddress.toLowerCase()) continue;
+
+    const key = reference.toUpperCase();
+    const score = scoreMap.get(key);
+    if (score && score > 0) {
+      return { score, matchedBy: `${kind}:${key}` };
+    }
+  }
+
+  return { score: 0, matchedBy: 'none' };
+}
+
+/**
+ * Build token rankings from GraphQL TVL data + viral scores
+ * @param scoreMap Token scores map to use (from snapshot or current)
+ * @param options.pools Preloaded pool data (skips the GraphQL fetch, e.g. for replaying many hours)
+ * @param options.verbose Log per-token matching details (default true)
+ */
+export async function buildTokenRankings(
+  scoreMap: Map<string, number>,
+  options: { pools?: TokenPoolData[]; verbose?: boolean } = {}
+): Promise<TokenRanking[]> {
+  const { verbose = true } = options;
+
+  try {
+    await tokenRegistry.ensureLoaded();
+    const memeTokensWithPools = options.pools ?? (await graphqlClient.getMemeTokensWithPools());
+
+    if (memeTokensWithPools.length === 0) {
+      console.log('[TokenRanking] No meme token pools found from GraphQL');
+      return [];
+    }
+
+    const rankings: TokenRanking[] = [];
+
+    // Canonical symbols of pooled tokens, for the missing-pool check
+    const poolIdentifiers = new Set(memeTokensWithPools.map((t) => getCanonicalSymbol(t)));
+
+    // Check for top scored tokens that don't have pools
+    const topScoredTokens = Array.from(scoreMap.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 10);
+
+    const tokensWithoutPools: string[] = [];
+    for (const [symbol, score] of topScoredTokens) {
+      if (!poolIdentifiers.has(symbol.toUpperCase()) && score > 0) {
+        tokensWithoutPools.push(`${symbol}(${score})`);
+      }
+    }
+
+    if (verbose && tokensWithoutPools.length > 0) {
+      console.warn(`[TokenRanking] ⚠️  Top tokens WITHOUT pools: ${tokensWithoutPools.join(', ')}`);
+      console.warn(`[TokenRanking]    These tokens have high scores but no LBPair with quote token`);
+    }
+
+    for (const tokenData of memeTokensWithPools) {
+      // Match by contract address first, then by exact ticker or name
+      const { score, matchedBy } = findTokenScore(tokenData, scoreMap);
+
+      if (score <= 0) {
+        continue;
+      }
+
+      // binSteps already sorted by TVL (highest first) from GraphQL
+      const binSteps = tokenData.pools.map((p) => p.binStep);
+
+      rankings.push({
+        tokenAddress: tokenData.tokenAddress,
+        quoteTokenAddress: tokenData.quoteTokenAddress,
+        score,
+        binSteps,
+      });
+
+      if (verbose) {
+        console.log(
+          `[TokenRanking] ${tokenData.tokenSymbol} (${tokenData.tokenName}): score=${score} [${matchedBy}], ` +
+            `TVL=$${tokenData.totalTvlUSD.toFixed(2)}, binSteps=[${tokenData.pools
+              .map((p) => `${p.binStep}($${p.tvlUSD.toFixed(2)})`)
+              .join(', ')}]`
+        );
+      }
+    }
+
+    // Sort by viral score (highest first)
+    rankings.sort((a, b) => b.score - a.score);
+    if (!verbose) return rankings;
+
+    console.log(`[TokenRanking] Built ${rankings.length} token rankings from ${memeTokensWithPools.length} pools`);
+
+    // Show which tokens will be submitted
+    if (rankings.length > 0) {
+      console.log(`[TokenRanking] Top 3 tokens for epoch submission:`);
+      rankings.slice(0, 3).forEach((r, i) => {
+        const tokenData = memeTokensWithPools.find((t) => t.tokenAddress.toLowerCase() === r.tokenAddress.toLowerCase());
+        console.log(
+          `  ${i + 1}. ${tokenData?.tokenSymbol || 'Unknown'} (${tokenData?.tokenName || '?'}): score=${
+            r.score
+          }, binSteps=[${r.binSteps.join(',')}]`
+        );
+      });
+    }
+
+    return rankings;
+  } catch (error) {
+    console.error('[TokenRanking] Failed to build token rankings:', error);
+    return [];
+  }
+}
@@ -0,0 +1,323 @@
+import { db, schema } from '../db/client';
+import type { MemexLeaderboardToken, TokenAliasKind, TokenIdentity } from '../types/memex';
+import type { TokenPoolData } from './graphql-client';
+
+// Lower index wins when one alias refers to several tokens
+const ALIAS_PRIORITY: TokenAliasKind[] = ['manual', 'symbol', 'name', 'creator', 'hashtag'];
+
+// Suffix length (address hex chars) for a token whose ticker is already another token's canonical symbol
+const SYMBOL_SUFFIX_LENGTH = 5;
+const MAX_SYMBOL_LENGTH = 32;
+
+interface TokenSeed {
+  address: string;
+  tickerSymbol: string;
+  name: string | null;
+  creatorUserName: string | null;
+  hasPool: boolean;
+}
+
+interface TokenAliasEntry {
+  alias: string;
+  kind: TokenAliasKind;
+}
+
+/**
+ * Normalize a token reference for alias lookup ("$pepe", "#Pepe", "@pepe " -> "PEPE")
+ */
+export function normalizeAlias(value: string): string {
+  return value.trim().replace(/^[$#@]+/, '').toUpperCase();
+}
+
+/**
+ * Token Registry
+ * Canonical token identities keyed by contract address, with the spellings posts use for them
+ * (ticker, name, creator userName, hashtag spelling of the name). Seeded from the Memex leaderboard
+ * and the indexer; extraction, scoring, snapshots and ranking resolve token references through it,
+ * so matches are exact alias hits instead of substring guesses.
+ *
+ * When an alias refers to several tokens: a token's own canonical symbol wins, then alias kind
+ * (manual > symbol > name > creator > hashtag), then tokens with a pool, then the earliest registered.
+ * The first token registered with a ticker keeps it as its canonical symbol; later tokens with the
+ * same ticker get it suffixed with their address (e.g. "PEPE-1A2B3").
+ *
+ * With TOKEN_VALIDATION_ENABLED (default), references that match no registered token are dropped
+ * from post token lists (see UnresolvedTokenTracker). Validation is skipped while the registry is
+ * empty, so a failed first seeding doesn't drop every token.
+ */
+export class TokenRegistry {
+  private readonly validationEnabled = process.env.TOKEN_VALIDATION_ENABLED !== 'false';
+  private byAddress = new Map<string, TokenIdentity>();
+  private bySymbol = new Map<string, TokenIdentity>();
+  private aliasIndex = new Map<string, { identity: TokenIdentity; kind: TokenAliasKind }>();
+  private aliasesByAddress = new Map<string, TokenAliasEntry[]>();
+  private loaded = false;
+  private syncedAt: Date | null = null;
+
+  /**
+   * Load registered tokens and aliases (once)
+   */
+  async ensureLoaded(): Promise<void> {
+    if (this.loaded) return;
+
+    try {
+      await this.reload();
+      this.loaded = true;
+      console.log(`[TokenRegistry] Loaded ${this.byAddress.size} tokens, ${this.aliasIndex.size} aliases`);
+    } catch (error) {
+      console.error('[TokenRegistry] Failed to load tokens:', error);
+    }
+  }
+
+  /**
+   * Register tokens from leaderboard and indexer data
+   * New tokens and aliases are added; names, creators and pool status are kept current
+   */
+  async seed(leaderboard: MemexLeaderboardToken[], pools: TokenPoolData[]): Promise<{ tokens: number; added: number }> {
+    await this.ensureLoaded();
+
+    const seeds = new Map<string, TokenSeed>();
+    for (const pool of pools) {
+      const address = pool.tokenAddress.toLowerCase();
+      seeds.set(address, {
+        address,
+        tickerSymbol: pool.tokenSymbol.toUpperCase(),
+        name: pool.tokenName || null,
+        creatorUserName: null,
+        hasPool: true,
+      });
+    }
+    for (const token of leaderboard) {
+      const address = token.tokenAddress.toLowerCase();
+      const indexed = seeds.get(address);
+      seeds.set(address, {
+        address,
+        tickerSymbol: indexed?.tickerSymbol ?? token.tokenSymbol.toUpperCase(),
+        name: token.tokenName || indexed?.name || null,
+        creatorUserName: token.user.userName || null,
+        hasPool: indexed?.hasPool ?? false,
+      });
+    }
+
+    let added = 0;
+    let changed = false;
+    for (const seed of seeds.values()) {
+      const known = this.byAddress.get(seed.address);
+      const hasPool = seed.hasPool || (known?.hasPool ?? false);
+      const creatorUserName = seed.creatorUserName ?? known?.creatorUserName ?? null;
+      const aliases = this.getSeedAliases(seed).filter(
+        ({ alias }) => !this.aliasesByAddress.get(seed.address)?.some((entry) => entry.alias === alias)
+      );
+
+      const unchanged =
+        known &&
+        known.tickerSymbol === seed.tickerSymbol &&
+        known.name === seed.name &&
+        known.creatorUserName === creatorUserName &&
+        known.hasPool === hasPool;
+      if (unchanged && aliases.length === 0) continue;
+
+      const symbol = known?.symbol ?? this.allocateSymbol(seed);
+      await db
+        .insert(schema.tokens)
+        .values({ tokenAddress: seed.address, symbol, tickerSymbol: seed.tickerSymbol, name: seed.name, creatorUserName, hasPool })
+        .onConflictDoUpdate({
+          target: schema.tokens.tokenAddress,
+          set: { tickerSymbol: seed.tickerSymbol, name: seed.name, creatorUserName, hasPool, updatedAt: new Date() },
+        });
+
+      if (aliases.length > 0) {
+        await db
+          .insert(schema.tokenAliases)
+          .values(aliases.map(({ alias, kind }) => ({ alias, kind, tokenAddress: seed.address })))
+          .onConflictDoNothing();
+      }
+
+      if (!known) {
+        // Reserve the symbol for the rest of this batch
+        const identity: TokenIdentity = { ...seed, symbol, creatorUserName, hasPool, firstSeenAt: new Date() };
+        this.byAddress.set(seed.address, identity);
+        this.bySymbol.set(symbol, identity);
+        added++;
+      }
+      changed = true;
+    }
+
+    if (changed) await this.reload();
+    this.syncedAt = new Date();
+    return { tokens: seeds.size, added };
+  }
+
+  /**
+   * Token a reference (ticker, name, creator userName, hashtag; "$", "#", "@" prefixes ignored) refers to
+   */
+  resolve(reference: string): TokenIdentity | null {
+    return this.aliasIndex.get(normalizeAlias(reference))?.identity ?? null;
+  }
+
+  /**
+   * Canonical symbol for a reference (the normalized reference itself when it is not registered)
+   */
+  resolveSymbol(reference: string): string {
+    return this.resolve(reference)?.symbol ?? normalizeAlias(reference);
+  }
+
+  /**
+   * Canonical symbols for the token references of one post (deduplicated)
+   * Unregistered references are dropped while validation is active, otherwise kept as normalized
+   */
+  resolveSymbols(references: string[]): string[] {
+    const validating = this.isValidating();
+    const symbols = new Set<string>();
+    for (const reference of references) {
+      const identity = this.resolve(reference);
+      if (identity) symbols.add(identity.symbol);
+      else if (!validating) symbols.add(normalizeAlias(reference));
+    }
+    return [...symbols];
+  }
+
+  /**
+   * Whether unregistered references are being dropped from post token lists
+   */
+  isValidating(): boolean {
+    return this.validationEnabled && this.byAddress.size > 0;
+  }
+
+  /**
+   * Register a reference as a manual alias of a token (e.g. a promoted unresolved reference)
+   * Returns the token the reference now resolves to, or null when the address is not registered
+   */
+  async addAlias(reference: string, address: string): Promise<TokenIdentity | null> {
+    await this.ensureLoaded();
+    const normalized = address.toLowerCase();
+    if (!this.byAddress.has(normalized)) return null;
+
+    await db
+      .insert(schema.tokenAliases)
+      .values({ alias: normalizeAlias(reference), kind: 'manual', tokenAddress: normalized })
+      .onConflictDoUpdate({
+        target: [schema.tokenAliases.alias, schema.tokenAliases.tokenAddress],
+        set: { kind: 'manual' },
+      });
+    await this.reload();
+
+    return this.resolve(reference);
+  }
+
+  getByAddress(address: string): TokenIdentity | null {
+    return this.byAddress.get(address.toLowerCase()) ?? null;
+  }
+
+  getBySymbol(symbol: string): TokenIdentity | null {
+    return this.bySymbol.get(symbol.toUpperCase()) ?? null;
+  }
+
+  /**
+   * Aliases registered for a token, with the ones it wins marked as resolving to it
+   */
+  getAliases(address: string): Array<TokenAliasEntry & { resolvesHere: boolean }> {
+    const normalized = address.toLowerCase();
+    return (this.aliasesByAddress.get(normalized) ?? []).map((entry) => ({
+      ...entry,
+      resolvesHere: this.aliasIndex.get(entry.alias)?.identity.address === normalized,
+    }));
+  }
+
+  getStatus(): { tokens: number; aliases: number; syncedAt: Date | null; validating: boolean } {
+    return { tokens: this.byAddress.size, aliases: this.aliasIndex.size, syncedAt: this.syncedAt, validating: this.isValidating() };
+  }
+
+  /**
+   * Rebuild the in-memory indexes from the database
+   */
+  private async reload(): Promise<void> {
+    const [tokenRows, aliasRows] = await Promise.all([db.query.tokens.findMany(), db.query.tokenAliases.findMany()]);
+
+    const byAddress = new Map<string, TokenIdentity>();
+    const bySymbol = new Map<string, TokenIdentity>();
+    for (const row of tokenRows) {
+      const identity: TokenIdentity = {
+        address: row.tokenAddress,
+        symbol: row.symbol,
+        tickerSymbol: row.tickerSymbol,
+        name: row.name,
+        creatorUserName: row.creatorUserName,
+        hasPool: row.hasPool,
+        firstSeenAt: row.firstSeenAt,
+      };
+      byAddress.set(identity.address, identity);
+      bySymbol.set(identity.symbol, identity);
+    }
+
+    const aliasesByAddress = new Map<string, TokenAliasEntry[]>();
+    const candidates = new Map<string, { identity: TokenIdentity; kind: TokenAliasKind }[]>();
+    for (const row of aliasRows) {
+      const identity = byAddress.get(row.tokenAddress);
+      if (!identity) continue;
+      const kind = row.kind as TokenAliasKind;
+
+      if (!aliasesByAddress.has(row.tokenAddress)) aliasesByAddress.set(row.tokenAddress, []);
+      aliasesByAddress.get(row.tokenAddress)!.push({ alias: row.alias, kind });
+      if (!candidates.has(row.alias)) candidates.set(row.alias, []);
+      candidates.get(row.alias)!.push({ identity, kind });
+    }
+
+    const aliasIndex = new Map<string, { identity: TokenIdentity; kind: TokenAliasKind }>();
+    for (const [alias, entries] of candidates) {
+      const owner = bySymbol.get(alias);
+      const [best] = entries.sort(
+        (a, b) =>
+          Number(b.identity === owner) - Number(a.identity === owner) ||
+          ALIAS_PRIORITY.indexOf(a.kind) - ALIAS_PRIORITY.indexOf(b.kind) ||
+          Number(b.identity.hasPool) - Number(a.identity.hasPool) ||
+          a.identity.firstSeenAt.getTime() - b.identity.firstSeenAt.getTime() ||
+          a.identity.address.localeCompare(b.identity.address)
+      );
+      aliasIndex.set(alias, best);
+    }
+    // Suffixed canonical symbols always resolve to their own token
+    for (const [symbol, identity] of bySymbol) {
+      if (!aliasIndex.has(symbol)) aliasIndex.set(symbol, { identity, kind: 'symbol' });
+    }
+
+    this.byAddress = byAddress;
+    this.bySymbol = bySymbol;
+    this.aliasIndex = aliasIndex;
+    this.aliasesByAddress = aliasesByAddress;
+  }
+
+  /**
+   * Canonical symbol for a new token: its ticker, or the ticker suffixed with its address when taken
+   */
+  private allocateSymbol(seed: TokenSeed): string {
+    const ticker = seed.tickerSymbol.slice(0, MAX_SYMBOL_LENGTH);
+    if (!this.bySymbol.has(ticker)) return ticker;
+
+    const suffix = seed.address.replace(/^0x/, '').slice(0, SYMBOL_SUFFIX_LENGTH).toUpperCase();
+    return `${ticker.slice(0, MAX_SYMBOL_LENGTH - SYMBOL_SUFFIX_LENGTH - 1)}-${suffix}`;
+  }
+
+  /**
+   * Aliases of a seed, each spelling once under its highest-priority kind
+   */
+  private getSeedAliases(seed: TokenSeed): TokenAliasEntry[] {
+    const entries: TokenAliasEntry[] = [
+      { alias: normalizeAlias(seed.tickerSymbol), kind: 'symbol' },
+      { alias: seed.name ? normalizeAlias(seed.name) : '', kind: 'name' },
+      { alias: seed.creatorUserName ? normalizeAlias(seed.creatorUserName) : '', kind: 'creator' },
+      // Hashtags can't contain spaces or punctuation ("Pepe Coin" -> #PEPECOIN)
+      { alias: seed.name ? seed.name.toUpperCase().replace(/[^\p{L}\p{N}]+/gu, '') : '', kind: 'hashtag' },
+    ];
+
+    const seen = new Set<string>();
+    return entries.filter(({ alias }) => {
+      if (!alias || seen.has(alias)) return false;
+      seen.add(alias);
+      return true;
+    });
+  }
+}
+
+// Singleton instance
+export const tokenRegistry = new TokenRegistry();
@@ -0,0 +1,196 @@
+import { db, schema } from '../db/client';
+import { and, desc, eq, gt, gte, lt, sql } from 'drizzle-orm';
+import type { TokenIdentity, TokenReferenceSource, UnresolvedTokenStatus } from '../types/memex';
+import type { UnresolvedTokenRef } from '../db/schema';
+import { botDetector } from './bot-detector';
+import { normalizeAlias, tokenRegistry } from './token-registry';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Length of the reference column; longer references are counted under their truncated key
+const MAX_REFERENCE_LENGTH = 128;
+
+const UPSERT_BATCH_SIZE = 500;
+
+interface ReferenceCount {
+  sources: Set<TokenReferenceSource>;
+  posts: number;
+  users: Set<number>;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+/**
+ * Unresolved Token Tracker
+ * Counts extracted references (tickers, hashtags, mentions) that match no registered token over a
+ * rolling window, so common false positives (#GM, $USD, people's @handles) and tokens the registry
+ * misses can be reviewed. Promoting a reference registers it as a manual alias of a token, after which
+ * it is scored as that token; ignoring it only hides it from the review list.
+ */
+export class UnresolvedTokenTracker {
+  private readonly windowHours = parseInt(process.env.UNRESOLVED_TOKEN_WINDOW_HOURS || '24');
+  private refreshedAt: Date | null = null;
+
+  /**
+   * Recount unresolved references in posts of the tracking window and store the counts
+   * References no longer seen in the window keep their row and review state with zero counts
+   */
+  async refresh(now: number = Date.now()): Promise<number> {
+    await tokenRegistry.ensureLoaded();
+    // Everything is unresolved before the registry is first seeded
+    if (tokenRegistry.getStatus().tokens === 0) return 0;
+    await botDetector.ensureLoaded();
+
+    const windowStart = new Date(now - this.windowHours * HOUR_MS);
+    const posts = await db.query.memexPosts.findMany({
+      where: gte(schema.memexPosts.postCreatedAt, windowStart),
+      columns: {
+        userId: true,
+        botReasons: true,
+        mentionedTokens: true,
+        extractedTickers: true,
+        extractedHashtags: true,
+        postCreatedAt: true,
+      },
+    });
+
+    const counts = new Map<string, ReferenceCount>();
+    for (const post of posts) {
+      if (botDetector.getPostWeight(post.userId, post.botReasons) <= 0) continue;
+
+      const referencesBySource: Array<[TokenReferenceSource, string | null]> = [
+        ['mention', post.mentionedTokens],
+        ['ticker', post.extractedTickers],
+        ['hashtag', post.extractedHashtags],
+      ];
+      const counted = new Set<string>();
+      for (const [source, stored] of referencesBySource) {
+        const references: string[] = stored ? JSON.parse(stored) : [];
+        for (const reference of references) {
+          const normalized = normalizeAlias(reference);
+          if (!normalized || tokenRegistry.resolve(normalized)) continue;
+          const key = normalized.slice(0, MAX_REFERENCE_LENGTH);
+
+          const count = counts.get(key) ?? {
+            sources: new Set<TokenReferenceSource>(),
+            posts: 0,
+            users: new Set<number>(),
+            firstSeenAt: post.postCreatedAt,
+            lastSeenAt: post.postCreatedAt,
+          };
+          count.sources.add(source);
+          if (!counted.has(key)) {
+            counted.add(key);
+            count.posts++;
+            count.users.add(post.userId);
+            if (post.postCreatedAt < count.firstSeenAt) count.firstSeenAt = post.postCreatedAt;
+            if (post.postCreatedAt > count.lastSeenAt) count.lastSeenAt = post.postCreatedAt;
+          }
+          counts.set(key, count);
+        }
+      }
+    }
+
+    // Zero references that left the window (the ones still in it are overwritten below)
+    await db
+      .update(schema.unresolvedTokenRefs)
+      .set({ posts: 0, uniqueUsers: 0 })
+      .where(and(gt(schema.unresolvedTokenRefs.posts, 0), lt(schema.unresolvedTokenRefs.lastSeenAt, windowStart)));
+
+    const rows = Array.from(counts.entries()).map(([reference, count]) => ({
+      reference,
+      sources: Array.from(count.sources).sort().join(','),
+      posts: count.posts,
+      uniqueUsers: count.users.size,
+      firstSeenAt: count.firstSeenAt,
+      lastSeenAt: count.lastSeenAt,
+    }));
+    for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+      await db
+        .insert(schema.unresolvedTokenRefs)
+        .values(rows.slice(i, i + UPSERT_BATCH_SIZE))
+        .onConflictDoUpdate({
+          target: schema.unresolvedTokenRefs.reference,
+          set: {
+            sources: sql`excluded.sources`,
+            posts: sql`excluded.posts`,
+            uniqueUsers: sql`excluded.unique_users`,
+            lastSeenAt: sql`excluded.last_seen_at`,
+          },
+        });
+    }
+
+    this.refreshedAt = new Date(now);
+    return rows.length;
+  }
+
+  /**
+   * Unresolved references with the most posts in the tracking window
+   */
+  async getTop(options: { limit?: number; status?: UnresolvedTokenStatus } = {}): Promise<UnresolvedTokenRef[]> {
+    const { limit = 50, status = 'pending' } = options;
+    return db.query.unresolvedTokenRefs.findMany({
+      where: eq(schema.unresolvedTokenRefs.status, status),
+      orderBy: [desc(schema.unresolvedTokenRefs.posts), desc(schema.unresolvedTokenRefs.uniqueUsers)],
+      limit,
+    });
+  }
+
+  /**
+   * Register a reference as an alias of a registered token (address or any reference to the token)
+   * Returns null when the reference or the token is unknown
+   */
+  async promote(
+    reference: string,
+    tokenReference: string,
+    reviewedBy: string
+  ): Promise<{ reference: UnresolvedTokenRef; token: TokenIdentity } | null> {
+    await tokenRegistry.ensureLoaded();
+    const token = /^0x[0-9a-fA-F]{40}$/.test(tokenReference)
+      ? tokenRegistry.getByAddress(tokenReference)
+      : tokenRegistry.resolve(tokenReference);
+    if (!token) return null;
+
+    const existing = await this.get(reference);
+    if (!existing) return null;
+
+    const resolved = await tokenRegistry.addAlias(existing.reference, token.address);
+    if (!resolved) return null;
+
+    const [updated] = await db
+      .update(schema.unresolvedTokenRefs)
+      .set({ status: 'promoted', promotedTo: token.address, reviewedBy, reviewedAt: new Date() })
+      .where(eq(schema.unresolvedTokenRefs.id, existing.id))
+      .returning();
+
+    return { reference: updated, token: resolved };
+  }
+
+  /**
+   * Hide a reference from the review list (it stays unresolved)
+   * Returns null when the reference is unknown
+   */
+  async ignore(reference: string, reviewedBy: string): Promise<UnresolvedTokenRef | null> {
+    const [updated] = await db
+      .update(schema.unresolvedTokenRefs)
+      .set({ status: 'ignored', reviewedBy, reviewedAt: new Date() })
+      .where(eq(schema.unresolvedTokenRefs.reference, normalizeAlias(reference).slice(0, MAX_REFERENCE_LENGTH)))
+      .returning();
+
+    return updated ?? null;
+  }
+
+  getStatus(): { windowHours: number; refreshedAt: Date | null } {
+    return { windowHours: this.windowHours, refreshedAt: this.refreshedAt };
+  }
+
+  private async get(reference: string): Promise<UnresolvedTokenRef | null> {
+    const row = await db.query.unresolvedTokenRefs.findFirst({
+      where: eq(schema.unresolvedTokenRefs.reference, normalizeAlias(reference).slice(0, MAX_REFERENCE_LENGTH)),
+    });
+    return row ?? null;
+  }
+}
+
+// Singleton instance
+export const unresolvedTokens = new UnresolvedTokenTracker();
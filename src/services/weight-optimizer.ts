@@ -0,0 +1,353 @@
+import { db, schema } from '../db/client';
+import { and, gte, lte, min } from 'drizzle-orm';
+import { ScoreCalculator } from './score-calculator';
+import { marketHistory } from './market-history';
+import { getScoringStrategy } from '../constants/scoring-strategies';
+import { spearmanCorrelation } from '../utils/rank-correlation';
+import { createRandom } from '../utils/random';
+import type { TokenScoreSnapshot, TokenMarketSnapshot } from '../db/schema';
+import type { AggregatedMetrics } from '../types/memex';
+import type { ScoreBreakdown, ScoreWeights, EnhancedScoreMultipliers, ScoringStrategy } from '../types/score';
+import type { FitTarget, FitScore, WeightFitRequest, WeightFitReport } from '../types/weight-fit';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MIN_TOKENS_PER_HOUR = 5; // Rank correlation is meaningless on tiny populations
+const TOP_N = 3;
+
+// Search bounds
+const WEIGHT_BOUNDS = { min: 0, max: 10000 };
+const BONUS_BOUNDS = { min: 1, max: 3 };
+const INITIAL_STEP = 0.5; // Log-scale step for weights, additive step for bonuses
+const MIN_STEP = 0.05;
+
+// Only these can be informed by stored snapshots (volatility and market signals are not replayed, pre-ordered weight is not scored)
+const FITTED_WEIGHTS: (keyof ScoreWeights)[] = ['posts', 'views', 'likes', 'reposts', 'replies', 'uniqueUsers'];
+const FITTED_MULTIPLIERS: (keyof EnhancedScoreMultipliers)[] = ['graduatedTokenBonus', 'imagePostBonus'];
+const NOT_FITTED = [
+  'multipliers.priceVolatilityBonus',
+  'multipliers.preOrderedUserWeight',
+  'multipliers.holderGrowthBonus',
+  'multipliers.volumeBonus',
+  'multipliers.transactionBonus',
+  'multipliers.noTradingPenalty',
+];
+
+interface FitCandidate {
+  weights: ScoreWeights;
+  multipliers: EnhancedScoreMultipliers;
+}
+
+interface HourSample {
+  hour: number;
+  metrics: AggregatedMetrics[];
+  outcomes: Map<string, number>; // Symbol → log growth of the target over the horizon
+}
+
+function clamp(value: number, bounds: { min: number; max: number }): number {
+  return Math.min(bounds.max, Math.max(bounds.min, value));
+}
+
+function targetValue(snapshot: TokenMarketSnapshot | undefined, target: FitTarget): number | null {
+  if (!snapshot) return null;
+  if (target === 'tvl') return snapshot.tvlUsd;
+  if (target === 'volume') return snapshot.volume;
+  return snapshot.holders;
+}
+
+/**
+ * Rebuild scoring inputs from an hourly score snapshot
+ * Decayed engagement comes from the stored breakdown when present (raw counts otherwise);
+ * the latest post is treated as fresh; price volatility and sentiment are unknown (0); the token's first
+ * snapshot stands in for when it was first seen
+ */
+function snapshotToMetrics(snapshot: TokenScoreSnapshot, firstSeenAt: Date): AggregatedMetrics {
+  const breakdown = snapshot.scoreBreakdown ? (JSON.parse(snapshot.scoreBreakdown) as ScoreBreakdown) : null;
+  const componentValue = (metric: keyof ScoreWeights, fallback: number) =>
+    breakdown?.components.find((c) => c.metric === metric)?.value ?? fallback;
+
+  const posts = snapshot.rawPosts ?? 0;
+  const views = snapshot.rawViews ?? 0;
+  const likes = snapshot.rawLikes ?? 0;
+  const reposts = snapshot.rawReposts ?? 0;
+  const replies = snapshot.rawReplies ?? 0;
+
+  return {
+    tokenSymbol: snapshot.tokenSymbol.toUpperCase(),
+    posts,
+    views,
+    likes,
+    reposts,
+    replies,
+    uniqueUserCount: snapshot.rawUniqueUsers ?? 0,
+    latestPostTime: snapshot.snapshotHour,
+    firstSeenAt,
+    avgBondingCurveProgress: snapshot.avgBondingCurve ?? 0,
+    graduatedPostRatio: snapshot.graduatedRatio ?? 0,
+    imagePostRatio: snapshot.imageRatio ?? 0,
+    avgPriceFluctuation: 0,
+    preOrderedUserRatio: 0,
+    decayedPosts: componentValue('posts', posts),
+    decayedViews: componentValue('views', views),
+    decayedLikes: componentValue('likes', likes),
+    decayedReposts: componentValue('reposts', reposts),
+    decayedReplies: componentValue('replies', replies),
+    avgSentiment: 0,
+    negativePostRatio: 0,
+    duplicateClusterSizes: [],
+    conversationCount: 0,
+    avgConversationDepth: 0,
+    maxConversationDepth: 0,
+    avgConversationBreadth: 0,
+    creditedReplies: 0,
+    distinctReposters: 0,
+    amplificationReach: 0,
+    postContributions: [],
+    market: null,
+  };
+}
+
+/**
+ * Weight Optimizer
+ * Offline search over ScoreWeights and EnhancedScoreMultipliers that maximizes how well the
+ * score ranks tokens by their subsequent market growth (pool TVL, leaderboard volume or holders)
+ *
+ * Fitness is the mean per-hour Spearman correlation between score and log growth of the target
+ * over the horizon. The search is a seeded (1+1) evolution strategy on the earliest hours; the
+ * latest hours are held out to check the fit generalizes before it is recommended.
+ */
+export class WeightOptimizer {
+  /**
+   * Validate a fit request
+   */
+  validate(request: WeightFitRequest): string[] {
+    const errors: string[] = [];
+
+    if (isNaN(request.from.getTime()) || isNaN(request.to.getTime())) {
+      errors.push('from and to must be valid dates');
+    } else if (request.to.getTime() <= request.from.getTime()) {
+      errors.push('to must be after from');
+    }
+    if (!['tvl', 'volume', 'holders'].includes(request.target)) {
+      errors.push('target must be one of: tvl, volume, holders');
+    }
+    if (!Number.isInteger(request.horizonHours) || request.horizonHours < 1 || request.horizonHours > 168) {
+      errors.push('horizonHours must be an integer between 1 and 168');
+    }
+    if (!Number.isInteger(request.iterations) || request.iterations < 1 || request.iterations > 10000) {
+      errors.push('iterations must be an integer between 1 and 10000');
+    }
+    if (!(request.holdoutFraction >= 0 && request.holdoutFraction < 1)) {
+      errors.push('holdoutFraction must be in [0, 1)');
+    }
+    try {
+      getScoringStrategy(request.strategyVersion);
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Run the fit and build the report
+   */
+  async fit(request: WeightFitRequest): Promise<WeightFitReport> {
+    const base = getScoringStrategy(request.strategyVersion);
+    const samples = await this.loadSamples(request);
+
+    const holdoutCount = Math.floor(samples.length * request.holdoutFraction);
+    const train = samples.slice(0, samples.length - holdoutCount);
+    const holdout = samples.slice(samples.length - holdoutCount);
+
+    if (train.length === 0) {
+      throw new Error(
+        `No usable hours: need score snapshots with ${request.target} history ${request.horizonHours}h later ` +
+          `for at least ${MIN_TOKENS_PER_HOUR} tokens per hour`
+      );
+    }
+
+    console.log(`[WeightOptimizer] ${train.length} train hours, ${holdout.length} holdout hours (${request.target}, +${request.horizonHours}h)`);
+
+    const baselineCandidate: FitCandidate = { weights: { ...base.weights }, multipliers: { ...base.multipliers } };
+    const best = this.search(base, baselineCandidate, train, request);
+
+    const baseline = { train: this.evaluate(base, baselineCandidate, train), holdout: this.evaluate(base, baselineCandidate, holdout) };
+    const fitted = { train: this.evaluate(base, best, train), holdout: this.evaluate(base, best, holdout) };
+
+    // Without holdout hours, fall back to the training fit
+    const reference = holdout.length > 0 ? 'holdout' : 'train';
+    const improvesHoldout =
+      (fitted[reference].meanRankCorrelation ?? -Infinity) > (baseline[reference].meanRankCorrelation ?? -Infinity);
+
+    const tokens = new Set(samples.flatMap((s) => s.metrics.map((m) => m.tokenSymbol)));
+
+    return {
+      request: { ...request, from: request.from.toISOString(), to: request.to.toISOString() },
+      dataset: {
+        samples: samples.reduce((sum, s) => sum + s.metrics.length, 0),
+        tokens: tokens.size,
+        trainHours: train.length,
+        holdoutHours: holdout.length,
+      },
+      baseline,
+      fitted,
+      improvesHoldout,
+      parameters: [
+        ...FITTED_WEIGHTS.map((key) => this.describeChange('weights', key, base.weights[key], best.weights[key])),
+        ...FITTED_MULTIPLIERS.map((key) => this.describeChange('multipliers', key, base.multipliers[key], best.multipliers[key])),
+      ],
+      notFitted: NOT_FITTED,
+      recommendedConfig: improvesHoldout
+        ? {
+            strategyVersion: base.version,
+            weights: best.weights,
+            multipliers: best.multipliers,
+            reason:
+              `Weight fit ${request.from.toISOString()}..${request.to.toISOString()} against ${request.target} ` +
+              `growth over ${request.horizonHours}h (seed ${request.seed})`,
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Pair each score snapshot hour with the target's growth over the horizon
+   */
+  private async loadSamples(request: WeightFitRequest): Promise<HourSample[]> {
+    const horizonMs = request.horizonHours * HOUR_MS;
+
+    const scoreSnapshots = await db.query.tokenScoreSnapshots.findMany({
+      where: and(gte(schema.tokenScoreSnapshots.snapshotHour, request.from), lte(schema.tokenScoreSnapshots.snapshotHour, request.to)),
+    });
+    const marketSnapshots = await marketHistory.getHistory(request.from, new Date(request.to.getTime() + horizonMs));
+
+    // First snapshot ever taken of each token, so the cold-start stage is exercised as in production
+    const firstSnapshots = await db
+      .select({ tokenSymbol: schema.tokenScoreSnapshots.tokenSymbol, firstHour: min(schema.tokenScoreSnapshots.snapshotHour) })
+      .from(schema.tokenScoreSnapshots)
+      .groupBy(schema.tokenScoreSnapshots.tokenSymbol);
+    const firstSeen = new Map(firstSnapshots.map((row) => [row.tokenSymbol.toUpperCase(), row.firstHour]));
+
+    const market = new Map<string, TokenMarketSnapshot>();
+    for (const snapshot of marketSnapshots) {
+      market.set(`${snapshot.tokenSymbol.toUpperCase()}@${snapshot.snapshotHour.getTime()}`, snapshot);
+    }
+
+    const byHour = new Map<number, HourSample>();
+    for (const snapshot of scoreSnapshots) {
+      const symbol = snapshot.tokenSymbol.toUpperCase();
+      const hour = snapshot.snapshotHour.getTime();
+      const before = targetValue(market.get(`${symbol}@${hour}`), request.target);
+      const after = targetValue(market.get(`${symbol}@${hour + horizonMs}`), request.target);
+      if (before === null || after === null) continue;
+
+      if (!byHour.has(hour)) {
+        byHour.set(hour, { hour, metrics: [], outcomes: new Map() });
+      }
+      const sample = byHour.get(hour)!;
+      sample.metrics.push(snapshotToMetrics(snapshot, firstSeen.get(symbol) ?? snapshot.snapshotHour));
+      sample.outcomes.set(symbol, Math.log1p(Math.max(0, after)) - Math.log1p(Math.max(0, before)));
+    }
+
+    return Array.from(byHour.values())
+      .filter((sample) => sample.metrics.length >= MIN_TOKENS_PER_HOUR)
+      .sort((a, b) => a.hour - b.hour);
+  }
+
+  /**
+   * Score a candidate on a set of hours
+   */
+  private evaluate(base: ScoringStrategy, candidate: FitCandidate, samples: HourSample[]): FitScore {
+    if (samples.length === 0) {
+      return { meanRankCorrelation: null, top3MeanGrowth: null, hours: 0 };
+    }
+
+    const calculator = new ScoreCalculator({ ...base, weights: candidate.weights, multipliers: candidate.multipliers });
+    const correlations: number[] = [];
+    const topGrowth: number[] = [];
+
+    for (const sample of samples) {
+      const scores = calculator.calculateBatch(sample.metrics, sample.hour, false);
+      const symbols = Array.from(sample.outcomes.keys());
+      const scoreValues = symbols.map((symbol) => scores.get(symbol) ?? 0);
+      const outcomeValues = symbols.map((symbol) => sample.outcomes.get(symbol)!);
+
+      const correlation = spearmanCorrelation(scoreValues, outcomeValues);
+      if (correlation !== null) correlations.push(correlation);
+
+      symbols
+        .map((symbol, i) => ({ score: scoreValues[i], growth: outcomeValues[i] }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, TOP_N)
+        .forEach((entry) => topGrowth.push(entry.growth));
+    }
+
+    const mean = (values: number[]) =>
+      values.length > 0 ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10000) / 10000 : null;
+
+    return { meanRankCorrelation: mean(correlations), top3MeanGrowth: mean(topGrowth), hours: samples.length };
+  }
+
+  /**
+   * (1+1) evolution strategy: mutate the best candidate, keep improvements, shrink the step on stalls
+   */
+  private search(base: ScoringStrategy, start: FitCandidate, train: HourSample[], request: WeightFitRequest): FitCandidate {
+    const random = createRandom(request.seed);
+    const fitness = (candidate: FitCandidate) => this.evaluate(base, candidate, train).meanRankCorrelation ?? -Infinity;
+
+    let best = start;
+    let bestFitness = fitness(best);
+    let step = INITIAL_STEP;
+    let stalls = 0;
+
+    for (let i = 0; i < request.iterations; i++) {
+      const candidate = this.mutate(best, step, random);
+      const candidateFitness = fitness(candidate);
+
+      if (candidateFitness > bestFitness) {
+        best = candidate;
+        bestFitness = candidateFitness;
+        stalls = 0;
+      } else if (++stalls >= 20) {
+        step = Math.max(MIN_STEP, step / 2);
+        stalls = 0;
+      }
+
+      if ((i + 1) % 50 === 0) {
+        console.log(`[WeightOptimizer] Iteration ${i + 1}/${request.iterations}: best rho=${bestFitness.toFixed(4)}, step=${step}`);
+      }
+    }
+
+    return best;
+  }
+
+  private mutate(candidate: FitCandidate, step: number, random: () => number): FitCandidate {
+    const weights = { ...candidate.weights };
+    const multipliers = { ...candidate.multipliers };
+
+    for (const key of FITTED_WEIGHTS) {
+      // Multiplicative step in log space; zero weights restart from 1 so they can come back
+      const factor = Math.exp((random() * 2 - 1) * step);
+      weights[key] = Math.round(clamp(Math.max(weights[key], 1) * factor, WEIGHT_BOUNDS));
+    }
+    for (const key of FITTED_MULTIPLIERS) {
+      const delta = (random() * 2 - 1) * step;
+      multipliers[key] = Math.round(clamp(multipliers[key] + delta, BONUS_BOUNDS) * 100) / 100;
+    }
+
+    return { weights, multipliers };
+  }
+
+  private describeChange(group: 'weights' | 'multipliers', key: string, baseline: number, fitted: number) {
+    return {
+      group,
+      key,
+      baseline,
+      fitted,
+      changePercent: baseline === 0 ? 0 : Math.round(((fitted - baseline) / baseline) * 1000) / 10,
+    };
+  }
+}
+
+// Singleton instance
+export const weightOptimizer = new WeightOptimizer();
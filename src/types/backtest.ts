@@ -0,0 +1,56 @@
+import type { ViralPair } from '../services/epoch-submitter';
+import type { ScoringConfigOverrides } from './score';
+
+/**
+ * Backtest request: replay a past time range through a scoring configuration
+ */
+export interface BacktestRequest {
+  from: Date; // First simulated hour (floored to the hour)
+  to: Date; // Last simulated hour (floored to the hour)
+  strategyVersion: string; // Registered strategy to replay
+  overrides?: ScoringConfigOverrides; // Optional weight/multiplier/threshold overrides
+}
+
+/**
+ * Token score for one simulated hour
+ */
+export interface BacktestTokenScore {
+  tokenSymbol: string;
+  score: number; // 0-10000
+  tier: string;
+}
+
+/**
+ * Result of one simulated hour
+ */
+export interface BacktestHourResult {
+  simulatedHour: string; // ISO timestamp
+  postCount: number;
+  tokenScores: BacktestTokenScore[]; // Sorted by score (highest first)
+  viralPairs: ViralPair[];
+  topTokens: string[];
+  productionTopTokens: string[] | null; // null = no production snapshot for this hour
+}
+
+/**
+ * Backtest run with its per-hour results
+ */
+export interface BacktestRunReport {
+  id: number;
+  strategyVersion: string;
+  overrides: ScoringConfigOverrides | null;
+  rangeStart: string;
+  rangeEnd: string;
+  status: 'running' | 'completed' | 'failed';
+  hoursSimulated: number;
+  error: string | null;
+  createdBy: string;
+  createdAt: string;
+  completedAt: string | null;
+  summary: {
+    hoursCompared: number; // Hours with a production snapshot to compare against
+    topTokensMatched: number; // Hours where the top-3 tokens matched production exactly (in order)
+    averageTopOverlap: number | null; // Average number of shared top-3 tokens (0-3)
+  };
+  results: BacktestHourResult[];
+}
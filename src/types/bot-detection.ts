@@ -0,0 +1,43 @@
+/**
+ * Bot/sybil reason codes
+ * User-level: HIGH_FREQUENCY, REGULAR_CADENCE, SYBIL_CLUSTER, SINGLE_TOKEN, BURST_PARTICIPANT
+ * Post-level: COORDINATED_BURST
+ */
+export type BotReasonCode =
+  | 'HIGH_FREQUENCY' // Posts far faster than a person types
+  | 'REGULAR_CADENCE' // Gaps between posts are near-constant (scheduled posting)
+  | 'SYBIL_CLUSTER' // One of a group of accounts that mention the same token set in lockstep or with copied text
+  | 'SINGLE_TOKEN' // Only ever posts about one token
+  | 'BURST_PARTICIPANT' // Repeatedly takes part in coordinated bursts
+  | 'COORDINATED_BURST'; // Post is part of a near-simultaneous burst about one token
+
+/**
+ * What aggregation does with a flagged user's posts
+ */
+export type BotAction = 'exclude' | 'downweight';
+
+/**
+ * A flagged user
+ */
+export interface FlaggedUser {
+  userId: number;
+  userName: string | null;
+  reasons: BotReasonCode[];
+  action: BotAction;
+  postCount: number; // Posts in the detection window
+  flaggedAt: string; // ISO timestamp
+}
+
+/**
+ * Result of one detection scan
+ */
+export interface BotScanResult {
+  scannedAt: string; // ISO timestamp
+  scannedPosts: number;
+  scannedUsers: number;
+  flaggedUsers: number;
+  excludedUsers: number;
+  flaggedPosts: number;
+  reasonCounts: Partial<Record<BotReasonCode, number>>;
+  sybilClusters: number[][]; // User ids per detected cluster
+}
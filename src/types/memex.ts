@@ -65,14 +65,33 @@ export interface TokenMetrics {
   likes: number;
   reposts: number;
   replies: number;
-  uniqueUsers: Set<number>;
+  uniqueUsers: Map<number, number>; // userId -> weight the user counts with (highest bot weight of their posts)
   latestPostTime: Date;
+  firstSeenAt: Date; // Earliest post mentioning the token
   // Enhanced metrics from 50-page analysis
   avgBondingCurveProgress: number;
   graduatedPostCount: number; // posts with bondingCurveProgress = 100
   postsWithImages: number;
   totalPriceFluctuation: number;
   preOrderedUserPosts: number;
+  // Engagement with each post weighted by its own age (and author reputation, when enabled)
+  decayedPosts: number;
+  decayedViews: number;
+  decayedLikes: number;
+  decayedReposts: number;
+  decayedReplies: number;
+  // Lexicon sentiment (see services/sentiment-analyzer.ts)
+  totalSentiment: number; // Sum of post sentiment scores
+  negativePosts: number;
+  // Near-duplicate clusters: clusterId -> this token's posts in the cluster (see services/duplicate-detector.ts)
+  duplicateClusters: Map<number, number>;
+  // Reply/thread graph (built from stored posts only, see utils/thread-graph.ts)
+  conversationRoots: Set<number>; // Root post of every conversation the token's posts belong to
+  creditedReplies: number; // Replies credited from the token's conversations without repeating the ticker
+  // Reposts of the token's posts: reposterId -> highest amplification weight (see services/repost-tracker.ts)
+  reposterWeights: Map<number, number>;
+  // Per-post contributions for bootstrap confidence intervals
+  postContributions: PostContribution[];
 }
 
 export interface AggregatedMetrics {
@@ -84,12 +103,75 @@ export interface AggregatedMetrics {
   replies: number;
   uniqueUserCount: number;
   latestPostTime: Date;
+  firstSeenAt: Date; // Token registration or earliest post mentioning it in the window (7 days), whichever is older
   // Enhanced metrics
   avgBondingCurveProgress: number;
   graduatedPostRatio: number; // 0-1, ratio of posts from graduated tokens
   imagePostRatio: number; // 0-1, ratio of posts with images
   avgPriceFluctuation: number;
   preOrderedUserRatio: number; // 0-1, ratio of posts from pre-ordered users
+  // Per-post weighted engagement: each post decayed by its own age and,
+  // when the strategy's reputationWeight > 0, scaled by its author's reputation.
+  // When replyCreditWeight > 0, replies also add their engagement to the root post's tokens.
+  // Repeated copies of near-duplicate text are decayed geometrically
+  decayedPosts: number;
+  decayedViews: number;
+  decayedLikes: number;
+  decayedReposts: number;
+  decayedReplies: number;
+  // Lexicon sentiment of the token's posts
+  avgSentiment: number; // -1 to 1, average post sentiment
+  negativePostRatio: number; // 0-1, ratio of posts with negative sentiment
+  // Sizes of near-duplicate (copypasta) clusters with 2+ posts, largest first
+  duplicateClusterSizes: number[];
+  // Conversations the token's posts belong to (an isolated post is a conversation of depth 0)
+  conversationCount: number;
+  avgConversationDepth: number; // Average longest reply chain
+  maxConversationDepth: number;
+  avgConversationBreadth: number; // Average distinct participants other than the root author
+  creditedReplies: number; // Replies under the token's posts that don't repeat the ticker
+  // Amplification by reposts of the token's posts
+  distinctReposters: number;
+  amplificationReach: number; // Sum of reposter reputations, self-reposts and sybil reposters discounted
+  // The token's own posts, resampled for score confidence intervals (see ScoreCalculator.bootstrapAdjustedScore)
+  postContributions: PostContribution[];
+  // Current Memex leaderboard data (joined before scoring, see services/market-signals.ts; null = not listed)
+  market: TokenMarketSignals | null;
+}
+
+/**
+ * Market state of a token on the Memex leaderboard
+ */
+export interface TokenMarketSignals {
+  volume: number;
+  holders: number;
+  holderGrowth: number | null; // Holders gained over the last 24h (null = no snapshot to compare against)
+  transactions: number;
+  priceChange24hPercent: number;
+  bondingCurveProgress: number;
+}
+
+/**
+ * One post's engagement toward a token
+ */
+export interface PostContribution {
+  userId: number;
+  weight: number; // Decay x reputation x bot x near-duplicate weight applied to the decayed* metrics
+  views: number;
+  likes: number;
+  reposts: number;
+  replies: number;
+  countWeight: number; // Bot x near-duplicate weight applied to the raw counters (posts, views, likes, reposts, replies)
+  userWeight: number; // Weight the author counts with in uniqueUserCount (0 for near-duplicate copies)
+}
+
+/**
+ * How each post is weighted during aggregation (from the scoring strategy)
+ */
+export interface PostWeighting {
+  halfLifeHours: number; // Per-post decay half-life
+  reputationWeight: number; // 0 = every author counts the same, 1 = full reputation weighting
+  replyCreditWeight: number; // 0 = replies count only for tokens they mention, 1 = full credit to the root post's tokens
 }
 
 /**
@@ -102,6 +184,35 @@ export interface ExtractedTokens {
   all: string[]; // Combined unique tokens
 }
 
+/**
+ * How an alias refers to a token, in resolution priority order (see TokenRegistry)
+ * manual aliases come from promoted unresolved references
+ */
+export type TokenAliasKind = 'manual' | 'symbol' | 'name' | 'creator' | 'hashtag';
+
+/**
+ * Where an extracted token reference came from in a post
+ */
+export type TokenReferenceSource = 'mention' | 'ticker' | 'hashtag';
+
+/**
+ * Review state of an unresolved token reference
+ */
+export type UnresolvedTokenStatus = 'pending' | 'promoted' | 'ignored';
+
+/**
+ * Canonical token identity from the token registry
+ */
+export interface TokenIdentity {
+  address: string; // Lowercase contract address
+  symbol: string; // Canonical symbol (unique; suffixed with the address when another token holds the ticker)
+  tickerSymbol: string;
+  name: string | null;
+  creatorUserName: string | null;
+  hasPool: boolean;
+  firstSeenAt: Date;
+}
+
 /**
  * Memex Leaderboard API Types
  * Based on: https://app.memex.xyz/api/leaderboard/public/rank/v2.1/getRank
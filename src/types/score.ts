@@ -27,5 +27,368 @@ export interface EnhancedScoreMultipliers {
   imagePostBonus: number;
   priceVolatilityBonus: number;
   preOrderedUserWeight: number;
+  // Market signals stage (Memex leaderboard data)
+  holderGrowthBonus: number; // Max multiplier from 24h holder growth
+  volumeBonus: number; // Max multiplier from trading volume
+  transactionBonus: number; // Max multiplier from transaction count
+  noTradingPenalty: number; // Multiplier for listed tokens with no volume and no transactions
 }
 
+
+/**
+ * Thresholds that enable the enhanced multipliers
+ */
+export interface ScoreThresholds {
+  graduated: number; // 0-1 share of posts from graduated tokens
+  image: number; // 0-1 share of posts with images
+  volatility: number; // Average price change (%)
+  // Market signals: value at which each contribution reaches half its bonus
+  holderGrowth: number; // Holders gained over 24h
+  volume: number; // Leaderboard volume
+  transactions: number; // Leaderboard transaction count
+}
+
+/**
+ * Pipeline stages applied to the raw score, in order, before normalization
+ */
+export type ScoringStageId =
+  | 'coldStart'
+  | 'timeDecay'
+  | 'antiGaming'
+  | 'enhancedMultiplier'
+  | 'sentimentDampener'
+  | 'conversation'
+  | 'marketSignals';
+
+/**
+ * How engagement is decayed over time
+ * - latestPost: raw aggregate, decayed by the 'timeDecay' stage using the newest post's age
+ * - perPost: each post decayed by its own age during aggregation (decayed* metrics)
+ */
+export type DecayMode = 'latestPost' | 'perPost';
+
+/**
+ * How the adjusted score is mapped to 0-10000
+ * - absolute: fixed sigmoid against SCORE_NORMALIZER (independent of other tokens)
+ * - percentile: percentile rank of log-engagement within the current run's population
+ * - robustZ: robust z-score (median / MAD) of log-engagement within the current run's population
+ */
+export type NormalizationMode = 'absolute' | 'percentile' | 'robustZ';
+
+/**
+ * Versioned scoring strategy
+ * A strategy fully describes how a token's viral score is produced,
+ * so scores stored with its version can always be traced back to the formula
+ */
+export interface ScoringStrategy {
+  version: string;
+  description: string;
+  weights: ScoreWeights;
+  multipliers: EnhancedScoreMultipliers;
+  thresholds: ScoreThresholds;
+  stages: ScoringStageId[];
+  decayMode: DecayMode;
+  postDecayHalfLifeHours: number; // Half-life for per-post decay during aggregation
+  momentumWeight: number; // 0-1 share of the final score taken from momentum (0 = level score only)
+  reputationWeight: number; // 0-1 strength of author reputation weighting per post (0 = disabled, perPost decay only)
+  replyCreditWeight: number; // 0-1 share of reply engagement credited to the root post's tokens (0 = disabled, perPost decay only)
+  normalizationMode: NormalizationMode;
+}
+
+/**
+ * Change in engagement metrics between two points in time
+ */
+export interface MetricDeltas {
+  posts: number;
+  views: number;
+  uniqueUsers: number;
+}
+
+/**
+ * Momentum (trend) of a token's engagement, computed from hourly snapshot history
+ */
+export interface TokenMomentum {
+  tokenSymbol: string;
+  hourOverHour: MetricDeltas | null; // current - 1h ago (null without a 1h-ago snapshot)
+  sixHourDelta: MetricDeltas | null; // current - 6h ago (null without a 6h-ago snapshot)
+  sixHourOverSixHour: MetricDeltas | null; // (current - 6h ago) - (6h ago - 12h ago), i.e. acceleration (null without both)
+  momentumScore: number; // 0-10000 basis points
+}
+
+/**
+ * One weighted term of the raw score
+ */
+export interface ScoreComponent {
+  metric: keyof ScoreWeights;
+  value: number; // Metric value used (decayed in perPost mode)
+  weight: number;
+  points: number; // value * weight
+}
+
+/**
+ * Anti-gaming penalty that fired for a token
+ */
+export interface ScorePenalty {
+  code: string;
+  reason: string;
+  penalty: number; // 0-1 share of the score removed
+}
+
+/**
+ * Enhanced multiplier factor that applied to a token
+ */
+export interface ScoreMultiplierFactor {
+  factor: string;
+  multiplier: number;
+  reason: string;
+}
+
+/**
+ * Score before and after one pipeline stage
+ */
+export interface ScoreStageResult {
+  stage: ScoringStageId;
+  scoreBefore: number;
+  scoreAfter: number;
+}
+
+/**
+ * Structured explanation of how a token's score was produced
+ */
+export interface ScoreBreakdown {
+  tokenSymbol: string;
+  strategyVersion: string;
+  normalizationMode: NormalizationMode;
+  components: ScoreComponent[];
+  rawScore: number;
+  stages: ScoreStageResult[];
+  decayFactor: number | null; // Only set when the timeDecay stage runs
+  penalties: ScorePenalty[];
+  totalPenalty: number; // Capped penalty actually applied
+  multipliers: ScoreMultiplierFactor[];
+  totalMultiplier: number;
+  preNormalizationScore: number;
+  normalizedScore: number; // 0-10000
+  momentumScore: number | null;
+  finalScore: number; // 0-10000, after momentum blending
+  interval: ScoreInterval | null; // Only set when intervals were requested
+}
+
+/**
+ * Confidence interval of a token's score (0-10000, same normalization and momentum blending as the score)
+ */
+export interface ScoreInterval {
+  lower: number;
+  upper: number;
+  confidence: number; // e.g. 0.9 for a 90% interval
+  samples: number; // Bootstrap resamples
+}
+
+/**
+ * Runtime overrides applied on top of a registered strategy
+ */
+export interface ScoringConfigOverrides {
+  weights?: Partial<ScoreWeights>;
+  multipliers?: Partial<EnhancedScoreMultipliers>;
+  thresholds?: Partial<ScoreThresholds>;
+}
+
+/**
+ * Effective scoring values, as recorded in the config audit trail
+ */
+export interface ScoringConfigValues {
+  strategyVersion: string;
+  weights: ScoreWeights;
+  multipliers: EnhancedScoreMultipliers;
+  thresholds: ScoreThresholds;
+}
+
+/**
+ * Where production and shadow scoring disagree on a token
+ */
+export interface ShadowTokenDivergence {
+  tokenSymbol: string;
+  productionScore: number;
+  shadowScore: number;
+  productionRank: number;
+  shadowRank: number;
+  productionTier: string;
+  shadowTier: string;
+}
+
+/**
+ * Comparison of one score collection tick: production vs shadow formula
+ */
+export interface ShadowComparison {
+  productionVersion: string;
+  shadowVersion: string;
+  comparedAt: string; // ISO timestamp
+  tokenCount: number;
+  rankCorrelation: number | null; // Spearman's rho (null when fewer than 2 tokens)
+  topOverlap: number; // Shared tokens in the top 3 (0-3)
+  productionTop: string[];
+  shadowTop: string[];
+  tierDisagreements: ShadowTokenDivergence[]; // Tokens whose tier differs
+  largestRankChanges: ShadowTokenDivergence[]; // Biggest rank moves (top 10)
+}
+
+/**
+ * How two token scores combine into a pair score
+ * - average: mean of both scores
+ * - minimum: the weaker token caps the pair (a hot meme cannot carry a dead token)
+ * - geometricMean: sqrt(x * y), pulls toward the weaker token
+ * - tvlWeighted: mean weighted by each token's TVL (falls back to average without TVL)
+ * - coMention: social score from posts that mention both tokens
+ */
+export type PairScorePolicy = 'average' | 'minimum' | 'geometricMean' | 'tvlWeighted' | 'coMention';
+
+/**
+ * Inputs for pair scoring beyond the two token scores
+ * Pool policies and co-mentions are keyed by pair key ("TOKENX/TOKENY", symbols sorted)
+ */
+export interface PairScoreOptions {
+  policy?: PairScorePolicy; // Global policy (default: average)
+  poolPolicies?: Map<string, PairScorePolicy>; // Pair key -> policy from per-pool overrides (see services/pair-score-policy.ts)
+  tvlUSD?: Map<string, number>; // Token symbol -> total TVL (tvlWeighted)
+  coMentions?: Map<string, number>; // Pair key -> posts mentioning both tokens (coMention)
+}
+
+/**
+ * A registered pool's pair score policy override
+ */
+export interface PoolPairScorePolicy {
+  poolId: string;
+  tokenX: string;
+  tokenY: string;
+  policy: PairScorePolicy;
+}
+
+/**
+ * Rolling window of the co-mention graph
+ */
+export type CoMentionWindow = '1h' | '1d' | '7d';
+
+/**
+ * Co-mention edge between two tokens over a window
+ */
+export interface CoMentionEdge {
+  tokenX: string; // Symbols sorted
+  tokenY: string;
+  posts: number; // Posts mentioning both tokens
+  weight: number; // Posts weighted by 1/(other tokens mentioned) and bot weight
+}
+
+/**
+ * A token most discussed alongside another
+ */
+export interface CoMentionNeighbor {
+  tokenSymbol: string;
+  posts: number;
+  weight: number;
+  share: number; // Share of the queried token's co-mention weight (0-1)
+}
+
+/**
+ * Community of tokens discussed together
+ */
+export interface CoMentionCluster {
+  tokens: string[]; // Most connected first
+  internalWeight: number; // Co-mention weight between members
+}
+
+/**
+ * Co-mentioned token pair proposed for a new pool
+ */
+export interface CoMentionPairCandidate extends CoMentionEdge {
+  pairScore: number; // Social pair score (coMention policy)
+  tokenXScore: number | null; // Current token scores (null = not scored)
+  tokenYScore: number | null;
+  hasPool: boolean; // A pair pool for the two tokens is already registered
+}
+
+/**
+ * Pair score with the policy that produced it
+ */
+export interface PairScoreResult {
+  tokenX: string;
+  tokenY: string;
+  pairScore: number; // 0-10000
+  tokenXScore: number;
+  tokenYScore: number;
+  policy: PairScorePolicy;
+}
+
+/**
+ * How scores map to tiers
+ * - fixed: fixed cut-offs (8000 LEGENDARY, 6000 VIRAL, 4000 HOT, 2000 WARM, 500 ACTIVE)
+ * - percentile: cut-offs at rolling percentiles of recent snapshot scores
+ */
+export type TierMode = 'fixed' | 'percentile';
+
+/**
+ * Minimum score per tier (highest tier first; scores below every cut-off are COLD)
+ */
+export interface TierCutoff {
+  tier: string;
+  minScore: number;
+  topPercent: number | null; // Share of the population at or above this tier (percentile mode)
+}
+
+/**
+ * A token moving between tiers from one hourly snapshot to the next
+ */
+export interface TierChange {
+  tokenSymbol: string;
+  fromTier: string | null; // null = token was not scored in the previous snapshot
+  toTier: string | null; // null = token dropped out of the scored set
+  score: number;
+}
+
+/**
+ * Kind of abnormal jump flagged by the anomaly detector
+ */
+export type ScoreAnomalyType = 'score' | 'views' | 'posts' | 'tierJump';
+
+/**
+ * Review state of an anomaly (pending anomalies can hold a token out of epoch submission)
+ */
+export type ScoreAnomalyStatus = 'pending' | 'dismissed' | 'confirmed';
+
+/**
+ * What a blacklist entry excludes a token from
+ * - leaderboard: hidden from public score listings only
+ * - epoch: scored and listed, but never submitted on-chain
+ * - scoring: dropped during aggregation (so also absent from the leaderboard and epochs)
+ */
+export type BlacklistScope = 'leaderboard' | 'scoring' | 'epoch';
+
+/**
+ * Token metrics at the time an anomaly was detected
+ */
+export interface AnomalyMetrics {
+  score: number;
+  posts: number;
+  views: number;
+  likes: number;
+  reposts: number;
+  replies: number;
+  uniqueUsers: number;
+  snapshotHour: string; // Snapshot the jump was measured from
+  snapshotScore: number;
+  snapshotPosts: number;
+  snapshotViews: number;
+}
+
+/**
+ * Anomaly found in a scoring run
+ */
+export interface DetectedAnomaly {
+  tokenSymbol: string;
+  anomalyType: ScoreAnomalyType;
+  magnitude: number;
+  observedValue: number;
+  baselineValue: number;
+  fromTier: string | null;
+  toTier: string | null;
+  metrics: AnomalyMetrics;
+}
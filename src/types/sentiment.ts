@@ -0,0 +1,8 @@
+/**
+ * Sentiment of a single post
+ */
+export interface PostSentiment {
+  score: number; // -1 (very negative) to 1 (very positive), 0 = neutral or no sentiment terms
+  terms: string[]; // Lexicon terms that matched
+  isNegative: boolean;
+}
@@ -0,0 +1,62 @@
+import type { ScoreWeights, EnhancedScoreMultipliers } from './score';
+
+/**
+ * Market outcome a score is expected to predict
+ * - tvl: total LB pool TVL
+ * - volume: Memex leaderboard volume
+ * - holders: Memex leaderboard holder count
+ */
+export type FitTarget = 'tvl' | 'volume' | 'holders';
+
+/**
+ * Weight fitting request
+ */
+export interface WeightFitRequest {
+  from: Date; // First snapshot hour used
+  to: Date; // Last snapshot hour used (outcomes are read up to to + horizonHours)
+  target: FitTarget;
+  horizonHours: number; // How far ahead the outcome is measured
+  strategyVersion: string; // Strategy whose stages/normalization are kept; weights/multipliers are searched
+  iterations: number;
+  seed: number; // PRNG seed so runs are reproducible
+  holdoutFraction: number; // Latest share of hours kept out of the search for validation
+}
+
+/**
+ * How well a configuration predicts the outcome
+ */
+export interface FitScore {
+  meanRankCorrelation: number | null; // Average per-hour Spearman correlation of score vs outcome growth
+  top3MeanGrowth: number | null; // Average log growth of each hour's 3 highest-scored tokens
+  hours: number;
+}
+
+/**
+ * Weight fitting report
+ */
+export interface WeightFitReport {
+  request: Omit<WeightFitRequest, 'from' | 'to'> & { from: string; to: string };
+  dataset: {
+    samples: number; // Token-hours with both a score snapshot and outcome
+    tokens: number;
+    trainHours: number;
+    holdoutHours: number;
+  };
+  baseline: { train: FitScore; holdout: FitScore };
+  fitted: { train: FitScore; holdout: FitScore };
+  improvesHoldout: boolean;
+  parameters: Array<{
+    group: 'weights' | 'multipliers';
+    key: string;
+    baseline: number;
+    fitted: number;
+    changePercent: number;
+  }>;
+  notFitted: string[]; // Parameters the stored history cannot inform
+  recommendedConfig: {
+    strategyVersion: string;
+    weights: ScoreWeights;
+    multipliers: EnhancedScoreMultipliers;
+    reason: string;
+  } | null; // null when the fit does not beat the baseline on holdout data
+}
@@ -0,0 +1,69 @@
+/**
+ * Community detection on a weighted undirected graph
+ *
+ * Weighted label propagation: every node starts in its own community and repeatedly adopts the
+ * label with the most edge weight among its neighbours until no label changes. Nodes are visited
+ * in sorted order and ties go to the smallest label, so the result is deterministic.
+ */
+
+export interface WeightedEdge {
+  a: string;
+  b: string;
+  weight: number;
+}
+
+const MAX_ITERATIONS = 20;
+
+/**
+ * Group nodes into communities (each community sorted, singletons included)
+ */
+export function detectCommunities(edges: WeightedEdge[]): string[][] {
+  const adjacency = new Map<string, Map<string, number>>();
+  const link = (from: string, to: string, weight: number): void => {
+    if (!adjacency.has(from)) adjacency.set(from, new Map());
+    const neighbours = adjacency.get(from)!;
+    neighbours.set(to, (neighbours.get(to) ?? 0) + weight);
+  };
+  for (const { a, b, weight } of edges) {
+    if (a === b || weight <= 0) continue;
+    link(a, b, weight);
+    link(b, a, weight);
+  }
+
+  const nodes = Array.from(adjacency.keys()).sort();
+  const labels = new Map(nodes.map((node) => [node, node]));
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let changed = false;
+    for (const node of nodes) {
+      const weightByLabel = new Map<string, number>();
+      for (const [neighbour, weight] of adjacency.get(node)!) {
+        const label = labels.get(neighbour)!;
+        weightByLabel.set(label, (weightByLabel.get(label) ?? 0) + weight);
+      }
+
+      let best = labels.get(node)!;
+      let bestWeight = weightByLabel.get(best) ?? 0;
+      for (const [label, weight] of weightByLabel) {
+        if (weight > bestWeight || (weight === bestWeight && label < best)) {
+          best = label;
+          bestWeight = weight;
+        }
+      }
+
+      if (best !== labels.get(node)) {
+        labels.set(node, best);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  const communities = new Map<string, string[]>();
+  for (const node of nodes) {
+    const label = labels.get(node)!;
+    if (!communities.has(label)) communities.set(label, []);
+    communities.get(label)!.push(node);
+  }
+  return Array.from(communities.values());
+}
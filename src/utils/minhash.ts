@@ -0,0 +1,94 @@
+/**
+ * MinHash fingerprints for near-duplicate text detection
+ *
+ * Text is normalized (lowercase, URLs and punctuation stripped) and split into character shingles.
+ * The signature keeps the minimum of each of NUM_HASHES hash functions over the shingles, so the
+ * share of equal positions between two signatures estimates the Jaccard similarity of their shingle sets.
+ */
+
+const SHINGLE_SIZE = 5;
+const NUM_HASHES = 64;
+
+// LSH banding: signatures sharing any band are candidate duplicates (~50% similarity and up)
+export const LSH_BANDS = 16;
+const ROWS_PER_BAND = NUM_HASHES / LSH_BANDS;
+
+// Texts shorter than this (after normalization) are too generic to fingerprint ("$PEPE 🚀")
+export const MIN_FINGERPRINT_LENGTH = 20;
+
+// Deterministic odd multipliers and offsets for the hash family (a * x + b mod 2^32)
+const HASH_PARAMS = Array.from({ length: NUM_HASHES }, (_, i) => {
+  let seed = (i + 1) * 0x9e3779b1;
+  seed = Math.imul(seed ^ (seed >>> 16), 0x85ebca6b);
+  seed = Math.imul(seed ^ (seed >>> 13), 0xc2b2ae35);
+  return { a: (seed | 1) >>> 0, b: Math.imul(seed ^ (seed >>> 16), 0x27d4eb2f) >>> 0 };
+});
+
+/**
+ * Normalize text for fingerprinting
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[^\p{L}\p{N}\p{Extended_Pictographic}]+/gu, ' ')
+    .trim()
+    .replace(/\s+/g, ' ');
+}
+
+/**
+ * FNV-1a 32-bit hash of a shingle
+ */
+function hashShingle(shingle: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < shingle.length; i++) {
+    hash ^= shingle.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Compute the MinHash signature of a text (null when the text is too short to fingerprint)
+ */
+export function computeMinHash(text: string): number[] | null {
+  const normalized = normalizeText(text);
+  if (normalized.length < MIN_FINGERPRINT_LENGTH) return null;
+
+  const shingles = new Set<number>();
+  for (let i = 0; i <= normalized.length - SHINGLE_SIZE; i++) {
+    shingles.add(hashShingle(normalized.slice(i, i + SHINGLE_SIZE)));
+  }
+
+  const signature = new Array<number>(NUM_HASHES).fill(0xffffffff);
+  for (const shingle of shingles) {
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const value = (Math.imul(HASH_PARAMS[i].a, shingle) + HASH_PARAMS[i].b) >>> 0;
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+
+  return signature;
+}
+
+/**
+ * Estimated Jaccard similarity of two signatures (0-1)
+ */
+export function minHashSimilarity(a: number[], b: number[]): number {
+  let equal = 0;
+  for (let i = 0; i < NUM_HASHES; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / NUM_HASHES;
+}
+
+/**
+ * LSH band keys of a signature
+ */
+export function lshBandKeys(signature: number[]): string[] {
+  const keys: string[] = [];
+  for (let band = 0; band < LSH_BANDS; band++) {
+    keys.push(`${band}:${signature.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND).join(',')}`);
+  }
+  return keys;
+}
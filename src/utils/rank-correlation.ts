@@ -0,0 +1,52 @@
+/**
+ * Rank values (1 = highest); tied values share their average rank
+ */
+export function rankDescending(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => b.value - a.value);
+  const ranks = new Array<number>(values.length);
+
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) {
+      ranks[order[k].index] = averageRank;
+    }
+    i = j + 1;
+  }
+
+  return ranks;
+}
+
+/**
+ * Spearman's rank correlation (Pearson correlation of the ranks, tie-safe)
+ * Returns null when there are fewer than 2 pairs, 0 when only one side is constant
+ */
+export function spearmanCorrelation(a: number[], b: number[]): number | null {
+  if (a.length !== b.length) {
+    throw new Error(`Spearman correlation needs equal-length inputs (${a.length} vs ${b.length})`);
+  }
+  if (a.length < 2) return null;
+
+  const ranksA = rankDescending(a);
+  const ranksB = rankDescending(b);
+  const meanA = ranksA.reduce((sum, r) => sum + r, 0) / ranksA.length;
+  const meanB = ranksB.reduce((sum, r) => sum + r, 0) / ranksB.length;
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < ranksA.length; i++) {
+    const da = ranksA[i] - meanA;
+    const db = ranksB[i] - meanB;
+    covariance += da * db;
+    varianceA += da * da;
+    varianceB += db * db;
+  }
+
+  if (varianceA === 0 || varianceB === 0) {
+    return varianceA === varianceB ? 1 : 0;
+  }
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
@@ -0,0 +1,99 @@
+/**
+ * Reply and thread graph for Memex posts
+ *
+ * A reply links to the post it answers (parentId); a thread continuation links to the previous
+ * post of the same thread (prevId). Following those links leads to the conversation root.
+ * Depth counts reply hops from the root (thread continuations stay at the same depth).
+ * Links to posts outside the given set are ignored, so such a post starts its own conversation.
+ */
+
+export interface ThreadNode {
+  postId: number;
+  userId: number;
+  parentPostId: number | null;
+  prevPostId: number | null;
+}
+
+export interface ConversationStats {
+  rootPostId: number;
+  posts: number; // Root included
+  depth: number; // Longest reply chain below the root
+  participants: number; // Distinct authors other than the root author
+}
+
+export interface ThreadGraph {
+  rootOf: Map<number, number>; // postId -> conversation root postId
+  depthOf: Map<number, number>; // postId -> reply hops from the root
+  conversations: Map<number, ConversationStats>; // rootPostId -> stats
+}
+
+/**
+ * Build the reply/thread graph of a set of posts
+ */
+export function buildThreadGraph(nodes: ThreadNode[]): ThreadGraph {
+  const byId = new Map(nodes.map((node) => [node.postId, node]));
+  const resolved = new Map<number, { root: number; depth: number }>();
+
+  // Replies take precedence over thread continuation when a post has both links
+  const linkOf = (node: ThreadNode): { to: number; step: number } | null => {
+    if (node.parentPostId !== null && byId.has(node.parentPostId)) return { to: node.parentPostId, step: 1 };
+    if (node.prevPostId !== null && byId.has(node.prevPostId)) return { to: node.prevPostId, step: 0 };
+    return null;
+  };
+
+  for (const node of nodes) {
+    if (resolved.has(node.postId)) continue;
+
+    // Walk up until a resolved post, a post without links, or a cycle
+    const chain: ThreadNode[] = [];
+    const onChain = new Set<number>();
+    let current: ThreadNode | undefined = node;
+    let base: { root: number; depth: number } | null = null;
+    while (current) {
+      const known = resolved.get(current.postId);
+      if (known) {
+        base = known;
+        break;
+      }
+      if (onChain.has(current.postId)) break;
+      chain.push(current);
+      onChain.add(current.postId);
+      const link = linkOf(current);
+      current = link ? byId.get(link.to) : undefined;
+    }
+
+    // Resolve back down the chain (the top of an unresolved chain is its own root)
+    for (let i = chain.length - 1; i >= 0; i--) {
+      const link = linkOf(chain[i]);
+      base = base === null ? { root: chain[i].postId, depth: 0 } : { root: base.root, depth: base.depth + (link?.step ?? 0) };
+      resolved.set(chain[i].postId, base);
+    }
+  }
+
+  const rootOf = new Map<number, number>();
+  const depthOf = new Map<number, number>();
+  const participants = new Map<number, Set<number>>();
+  const conversations = new Map<number, ConversationStats>();
+
+  for (const node of nodes) {
+    const { root, depth } = resolved.get(node.postId)!;
+    rootOf.set(node.postId, root);
+    depthOf.set(node.postId, depth);
+
+    const stats = conversations.get(root) ?? { rootPostId: root, posts: 0, depth: 0, participants: 0 };
+    stats.posts += 1;
+    stats.depth = Math.max(stats.depth, depth);
+    conversations.set(root, stats);
+
+    if (!participants.has(root)) participants.set(root, new Set<number>());
+    participants.get(root)!.add(node.userId);
+  }
+
+  for (const [root, stats] of conversations) {
+    const authors = participants.get(root)!;
+    authors.delete(byId.get(root)!.userId);
+    stats.participants = authors.size;
+  }
+
+  return { rootOf, depthOf, conversations };
+}